@@ -1,50 +1,183 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useReducer, useMemo } from 'react';
 import { useLiveSession } from './hooks/useLiveSession';
 import AudioVisualizer from './components/AudioVisualizer';
-import { Message } from './types';
+import ToolCallBubble from './components/ToolCallBubble';
+import HistorySidebar, { sessionTitle } from './components/HistorySidebar';
+import SettingsPanel from './components/SettingsPanel';
+import Composer from './components/Composer';
+import { InputModeIndicator, PushToTalkButton } from './components/InputModeControls';
+import RecordingExport from './components/RecordingExport';
+import PlaybackControls from './components/PlaybackControls';
+import InputLevelMeter from './components/InputLevelMeter';
+import MicrophoneErrorNotice from './components/MicrophoneErrorNotice';
+import MemoryPanel from './components/MemoryPanel';
+import MemoryProposalCard from './components/MemoryProposalCard';
+import CameraPreview from './components/CameraPreview';
+import DiagnosticsPanel from './components/DiagnosticsPanel';
+import OfflineScreen from './components/OfflineScreen';
+import TranslationPair from './components/TranslationPair';
+import SourceChips from './components/SourceChips';
+import SummaryCard from './components/SummaryCard';
+import CaptionsView from './components/CaptionsView';
+import LiveRegion from './components/LiveRegion';
+import { LanguagePairControl } from './components/InterpreterControls';
+import { useConversationHistory } from './hooks/useConversationHistory';
+import { useSettings } from './hooks/useSettings';
+import { useAudioInputDevices } from './hooks/useAudioInputDevices';
+import { useMemories } from './hooks/useMemories';
+import { useDiagnostics } from './hooks/useDiagnostics';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { useWakeWord } from './hooks/useWakeWord';
+import { useSessionSummaries } from './hooks/useSessionSummaries';
+import { useAnnouncer } from './hooks/useAnnouncer';
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { StoredSession } from './utils/historyStore';
+import { transcriptReducer } from './utils/transcriptReducer';
+import { canSummarize } from './utils/summary';
+import { MODELS } from './utils/persona';
+import { SessionRecorder } from './utils/sessionRecorder';
+import { exportDiagnostics } from './utils/diagnostics';
+import { isTypingTarget, shortcutKeys } from './utils/shortcuts';
+import { MicrophoneError, MicrophoneErrorKind } from './utils/microphone';
+import { LiveSessionError } from './utils/sessionErrors';
+import { createProposeMemoryTool, defaultTools } from './tools';
+import { Translator } from './i18n/translator';
+import { useI18n } from './i18n/I18nProvider';
+import { AudioTap, ConnectionState, Message } from './types';
+
+const describeError = (err: Error, t: Translator['t']) =>
+  err instanceof LiveSessionError
+    ? t(`error.${err.kind}`, { reason: err.detail ?? '' })
+    : t('error.generic', { reason: err.message });
 
 const App: React.FC = () => {
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [error, setError] = useState<string | null>(null);
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [messages, dispatchTranscript] = useReducer(transcriptReducer, []);
+  // Kept as the Error so a language switch re-renders it in the new language
+  const [error, setError] = useState<Error | null>(null);
+  // Microphone failures get their own notice with recovery steps
+  const [micError, setMicError] = useState<MicrophoneErrorKind | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showMemory, setShowMemory] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const { settings, updateSettings } = useSettings();
+  // Recording is opt-in per conversation; the finished one stays available for export
+  const [recordEnabled, setRecordEnabled] = useState(false);
+  const [finishedRecording, setFinishedRecording] = useState<SessionRecorder | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const audioTap = useMemo<AudioTap>(() => ({
+    onUserAudio: (pcm) => recorderRef.current?.onUserAudio(pcm),
+    onModelAudio: (samples, sampleRate, delay, rate) => recorderRef.current?.onModelAudio(samples, sampleRate, delay, rate),
+    onPlaybackStopped: () => recorderRef.current?.onPlaybackStopped(),
+    onPlaybackPaused: () => recorderRef.current?.onPlaybackPaused(),
+    onPlaybackResumed: () => recorderRef.current?.onPlaybackResumed(),
+  }), []);
+  // A stored session opened from the sidebar; shown read-only instead of the live transcript
+  const [viewingSession, setViewingSession] = useState<StoredSession | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const history = useConversationHistory();
+  const summaries = useSessionSummaries({ onSummary: history.attachSummary });
+  // The live conversation that just ended, so its summary can follow the transcript
+  const [endedSessionId, setEndedSessionId] = useState<string | null>(null);
+  const memory = useMemories();
+  const { propose: proposeMemory } = memory;
+  // Bondhu can offer facts to remember; they wait for the user's confirmation
+  const tools = useMemo(() => [...defaultTools, createProposeMemoryTool(proposeMemory)], [proposeMemory]);
+  const diagnostics = useDiagnostics();
+  // Screen readers hear replies and status changes that sighted users see appear
+  const { announcement, announce } = useAnnouncer();
+  // Finished replies already seen, read out or not; a turn can be emitted again when its sources arrive
+  const announcedRef = useRef(new Set<string>());
+
+  const handleError = (err: Error) => {
+    if (err instanceof MicrophoneError) setMicError(err.kind);
+    else setError(err);
+  };
 
-  // Helper to update messages without duplicates based on ID
+  // Partial and final updates of a turn share an id and are merged by the reducer
   const handleMessage = (newMessage: Message) => {
-    setMessages(prev => {
-      // If we have a partial message with same ID (or same logic), update it
-      // Since our logic generates unique IDs for partial vs final, 
-      // we need to be careful.
-      // Logic from hook: partials have unique IDs per update? No, let's check hook logic.
-      // Hook: `id: Date.now().toString() + 'model'` -> This creates a new ID every chunk. 
-      // This is bad for react list. We should consolidate.
-      // To fix this simple demo: We will just filter out previous partials of same role if a new one comes?
-      // Better approach for chat UI:
-      // If last message is same role and isPartial, replace it.
-      
-      const lastMsg = prev[prev.length - 1];
-      if (lastMsg && lastMsg.role === newMessage.role && lastMsg.isPartial && newMessage.isPartial) {
-        // Update last message content
-        const updated = [...prev];
-        updated[prev.length - 1] = newMessage;
-        return updated;
-      }
-      
-      // If last was partial and this is final (same role), replace
-      if (lastMsg && lastMsg.role === newMessage.role && lastMsg.isPartial && !newMessage.isPartial) {
-         const updated = [...prev];
-         updated[prev.length - 1] = newMessage;
-         return updated;
+    history.record(newMessage);
+    dispatchTranscript({ type: 'upsert', message: newMessage });
+  };
+
+  const {
+    connect,
+    disconnect,
+    sendText,
+    sendImage,
+    startCamera,
+    stopCamera,
+    cameraStream,
+    setPushToTalk,
+    pausePlayback,
+    resumePlayback,
+    skipResponse,
+    setMuted,
+    isMuted,
+    playbackState,
+    inputMode,
+    isUserSpeaking,
+    isConnected,
+    isConnecting,
+    isReconnecting,
+    connectionState,
+    inputAnalyser,
+    outputAnalyser,
+  } = useLiveSession({
+    onMessage: handleMessage,
+    config: settings,
+    memories: memory.facts,
+    tools,
+    audioTap,
+    onDiagnostics: diagnostics.record,
+    // Hands-free conversations end by themselves; the wake phrase resumes them
+    idleTimeoutMs: settings.handsFree ? settings.handsFreeIdleSeconds * 1000 : undefined,
+    onError: handleError,
+    onConnect: history.startRecording,
+    onDisconnect: () => {
+      history.stopRecording().then(session => {
+        if (!session) return;
+        setEndedSessionId(session.id);
+        if (settings.summarizeSessions && canSummarize(session.messages)) summaries.summarize(session);
+      });
+      if (recorderRef.current) {
+        setFinishedRecording(recorderRef.current);
+        recorderRef.current = null;
       }
+    },
+  });
 
-      return [...prev, newMessage];
-    });
+  const startConversation = () => {
+    setError(null);
+    setMicError(null);
+    setViewingSession(null);
+    setFinishedRecording(null);
+    setEndedSessionId(null);
+    recorderRef.current = recordEnabled && !settings.textOnly ? new SessionRecorder() : null;
+    connect();
   };
 
-  const { connect, disconnect, isConnected, isConnecting, inputAnalyser, outputAnalyser } = useLiveSession({
-    onMessage: handleMessage,
-    onError: (err) => setError(err.message),
-    onDisconnect: () => console.log('Disconnected'),
+  // The conversation stays live (mic on, stop button shown) while reconnecting
+  const isLive = isConnected || isReconnecting;
+  // The shell loads offline from the service worker, but talking needs the network
+  const online = useOnlineStatus();
+  const showOffline = !online && !isLive && !isConnecting && !viewingSession;
+  // Until the wake phrase is heard, the microphone stays on the device
+  const wakeWord = useWakeWord({
+    enabled: settings.handsFree && !settings.textOnly && online && !isLive && !isConnecting,
+    settings,
+    onWake: startConversation,
+    onError: handleError,
   });
+  // Device labels become readable once the microphone has been opened
+  const inputDevices = useAudioInputDevices(isLive);
+
+  const visibleMessages = viewingSession ? viewingSession.messages : messages;
+  // Looked up in the list so a new summary shows as soon as it is saved
+  const summarySessionId = viewingSession?.id ?? (!isLive && !isConnecting ? endedSessionId : null);
+  const summarySession = history.sessions.find(session => session.id === summarySessionId);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -52,67 +185,311 @@ const App: React.FC = () => {
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [visibleMessages]);
+
+  useEffect(() => {
+    for (const message of messages.slice(-3)) {
+      if (message.role === 'tool' || message.isPartial || announcedRef.current.has(message.id)) continue;
+      // Bondhu's reply, or in interpreter mode the translation of what was said
+      const reply = (message.role === 'model' ? message.text : message.translation?.text)?.trim();
+      if (!reply) continue;
+      announcedRef.current.add(message.id);
+      if (settings.announceReplies) announce(t('announce.reply', { text: reply }));
+    }
+  }, [messages, settings.announceReplies, announce, t]);
+
+  // Failures are read out by the error's own alert
+  const previousStateRef = useRef<ConnectionState>(connectionState);
+  useEffect(() => {
+    const previous = previousStateRef.current;
+    previousStateRef.current = connectionState;
+    if (connectionState === previous) return;
+    if (connectionState === 'connecting') announce(t('status.connecting'));
+    else if (connectionState === 'reconnecting') announce(t('status.reconnecting'));
+    else if (connectionState === 'open') announce(t('announce.connected'));
+    else if (connectionState === 'closed' && (previous === 'open' || previous === 'reconnecting')) announce(t('announce.ended'));
+  }, [connectionState, announce, t]);
+
+  const usesMicrophone = isLive && !settings.textOnly;
+  const toggleMute = () => {
+    setMuted(!isMuted);
+    announce(isMuted ? t('announce.unmuted') : t('conversation.muted'));
+  };
+
+  useKeyboardShortcuts({
+    toggleConversation: isConnecting || (!online && !isLive) ? undefined : isLive ? disconnect : startConversation,
+    toggleMute: usesMicrophone ? toggleMute : undefined,
+    stopSpeaking: usesMicrophone ? skipResponse : undefined,
+    toggleCaptions: () => {
+      updateSettings({ captions: !settings.captions });
+      announce(settings.captions ? t('announce.captionsOff') : t('announce.captionsOn'));
+    },
+  });
+
+  // Spacebar acts as the push-to-talk key, except while typing
+  const usesPushToTalk = isConnected && inputMode === 'push-to-talk' && !settings.textOnly;
+  useEffect(() => {
+    if (!usesPushToTalk) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || e.repeat || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      setPushToTalk(true);
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      setPushToTalk(false);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+    };
+  }, [usesPushToTalk, setPushToTalk]);
 
   return (
     <div className="flex flex-col h-screen bg-slate-900 text-slate-100 font-sans">
+      <LiveRegion announcement={announcement} />
       {/* Header */}
       <header className="p-4 bg-slate-800/50 backdrop-blur-md border-b border-slate-700 flex justify-between items-center sticky top-0 z-10">
         <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setShowHistory(open => !open)}
+            className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700"
+            aria-label={t('header.history')}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+            </svg>
+          </button>
           <div className="w-10 h-10 bg-gradient-to-tr from-emerald-500 to-teal-400 rounded-full flex items-center justify-center shadow-lg shadow-emerald-500/20">
             <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
             </svg>
           </div>
           <div>
-            <h1 className="text-xl font-bold font-bengali">বন্ধু (Bondhu) AI</h1>
-            <p className="text-xs text-slate-400">Bangla Live Assistant</p>
+            <h1 className="text-xl font-bold font-bengali">{t('app.title')}</h1>
+            <p className="text-xs text-slate-400 font-bengali">{t('app.subtitle')}</p>
           </div>
         </div>
-        <div className="text-xs px-2 py-1 rounded bg-slate-800 text-slate-400 border border-slate-700">
-          Gemini 2.5 Flash
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setRecordEnabled(on => !on)}
+            disabled={isLive || isConnecting}
+            className={`flex items-center gap-1.5 text-xs px-2 py-1 rounded border ${
+              recordEnabled ? 'border-red-500/50 text-red-300 bg-red-900/20' : 'border-slate-700 text-slate-400 bg-slate-800'
+            } disabled:opacity-60`}
+            aria-pressed={recordEnabled}
+            title={t('header.recordHint')}
+          >
+            <span className={`w-2 h-2 rounded-full ${recordEnabled ? 'bg-red-500' : 'bg-slate-500'} ${recordEnabled && isLive ? 'animate-pulse' : ''}`} />
+            {t('header.record')}
+          </button>
+          <div className="text-xs px-2 py-1 rounded bg-slate-800 text-slate-400 border border-slate-700">
+            {MODELS.find(m => m.id === settings.model)?.label ?? settings.model}
+          </div>
+          <button
+            onClick={() => setShowMemory(true)}
+            className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700"
+            aria-label={t('header.memory')}
+            title={t('header.memory')}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+            </svg>
+          </button>
+          <button
+            onClick={() => setShowDiagnostics(open => !open)}
+            className={`p-2 rounded-lg hover:text-white hover:bg-slate-700 ${showDiagnostics ? 'text-emerald-400' : 'text-slate-400'}`}
+            aria-label={t('header.diagnostics')}
+            aria-pressed={showDiagnostics}
+            title={t('header.diagnostics')}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+            </svg>
+          </button>
+          <button
+            onClick={() => setShowSettings(true)}
+            className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700"
+            aria-label={t('header.settings')}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+            </svg>
+          </button>
         </div>
       </header>
 
       {/* Main Content Area */}
       <main className="flex-1 overflow-hidden flex flex-col relative">
-        
-        {/* Visualizer Area (Centered when idle/active) */}
-        <div className={`flex-1 flex flex-col items-center justify-center transition-all duration-500 ${messages.length > 0 ? 'min-h-[300px]' : 'h-full'}`}>
+        {showHistory && (
+          <HistorySidebar
+            sessions={history.sessions}
+            activeSessionId={viewingSession?.id ?? null}
+            onSelect={session => {
+              if (isLive || isConnecting) return;
+              setViewingSession(session);
+              setShowHistory(false);
+            }}
+            onRename={(id, title) => {
+              history.rename(id, title);
+              setViewingSession(current => (current?.id === id ? { ...current, title } : current));
+            }}
+            onDelete={id => {
+              history.remove(id);
+              setViewingSession(current => (current?.id === id ? null : current));
+            }}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
+
+        {showSettings && (
+          <SettingsPanel
+            settings={settings}
+            onChange={updateSettings}
+            onClose={() => setShowSettings(false)}
+            isSessionActive={isLive || isConnecting}
+            inputDevices={inputDevices}
+            inputAnalyser={isLive ? inputAnalyser : null}
+            wakeWordSamples={wakeWord.sampleCount}
+            isRecordingWakeWord={wakeWord.isRecording}
+            onRecordWakeWord={wakeWord.recordSample}
+            onClearWakeWord={wakeWord.clearSamples}
+          />
+        )}
+
+        {showMemory && (
+          <MemoryPanel
+            facts={memory.facts}
+            onAdd={memory.add}
+            onEdit={memory.edit}
+            onDelete={memory.remove}
+            onWipe={memory.wipe}
+            onImport={memory.importFile}
+            onExport={memory.exportFile}
+            onClose={() => setShowMemory(false)}
+          />
+        )}
+
+        {cameraStream && !viewingSession && (
+          <CameraPreview
+            stream={cameraStream}
+            mirrored={settings.cameraFacing === 'user'}
+            onFlip={() => updateSettings({ cameraFacing: settings.cameraFacing === 'user' ? 'environment' : 'user' })}
+            onClose={stopCamera}
+          />
+        )}
+
+        {showDiagnostics && (
+          <DiagnosticsPanel
+            events={diagnostics.events}
+            summary={diagnostics.summary}
+            onExport={() => exportDiagnostics(diagnostics.events, {
+              model: settings.model,
+              inputMode: settings.inputMode,
+              textOnly: settings.textOnly,
+              localBargeIn: settings.localBargeIn,
+              playbackRate: settings.playbackRate,
+              locale: i18n.locale,
+            })}
+            onClear={diagnostics.clear}
+            onClose={() => setShowDiagnostics(false)}
+          />
+        )}
+
+        {viewingSession && (
+          <div className="mx-4 mt-4 px-4 py-2 rounded-lg bg-slate-800 border border-slate-700 flex items-center justify-between text-sm z-10">
+            <span className="font-bengali truncate">{sessionTitle(viewingSession, i18n)}</span>
+            <button onClick={() => setViewingSession(null)} className="text-emerald-400 hover:text-emerald-300 shrink-0 ml-2">
+              {t('conversation.backToLive')}
+            </button>
+          </div>
+        )}
+
+        {showOffline ? (
+          <div className="flex-1 flex items-center justify-center overflow-y-auto pb-32">
+            <OfflineScreen
+              sessions={history.sessions}
+              onOpen={setViewingSession}
+              onShowAll={() => setShowHistory(true)}
+            />
+          </div>
+        ) : (
+        /* Visualizer Area (Centered when idle/active) */
+        <div className={`flex-1 flex flex-col items-center justify-center transition-all duration-500 ${visibleMessages.length > 0 ? 'min-h-[300px]' : 'h-full'}`}>
           <div className="relative w-full max-w-md aspect-square flex flex-col items-center justify-center">
             {/* Connection Status Text */}
             <div className="absolute top-10 text-center z-10">
-                {!isConnected && !isConnecting && (
-                  <p className="text-slate-400">Tap the mic to start speaking Bengali</p>
-                )}
+                {!isLive && !isConnecting && (wakeWord.isListening ? (
+                  <p className="text-emerald-300/80 font-bengali flex items-center justify-center gap-2">
+                    <span className="w-2 h-2 rounded-full bg-emerald-400 animate-pulse" />
+                    {t('status.wakeListening')}
+                  </p>
+                ) : (
+                  <p className="text-slate-400 font-bengali">{t('status.idle')}</p>
+                ))}
                 {isConnecting && (
-                  <p className="text-emerald-400 animate-pulse">Connecting to Gemini...</p>
+                  <p className="text-emerald-400 animate-pulse font-bengali">{t('status.connecting')}</p>
+                )}
+                {isConnected && playbackState === 'thinking' && (
+                  <p className="text-amber-300 animate-pulse font-bengali">{t('status.thinking')}</p>
+                )}
+                {isConnected && playbackState === 'speaking' && (
+                  <p className="text-emerald-300 font-bengali">{t('status.speaking')}</p>
+                )}
+                {isConnected && (playbackState === 'idle' || playbackState === 'paused') && (
+                  <p className="text-emerald-400 font-bengali">{t('status.listening')}</p>
                 )}
-                {isConnected && (
-                  <p className="text-emerald-400 font-bengali">আমি শুনছি... (Listening)</p>
+                {isReconnecting && (
+                  <p className="text-amber-400 animate-pulse font-bengali">{t('status.reconnecting')}</p>
                 )}
                  {error && (
-                  <p className="text-red-400 bg-red-900/20 px-4 py-2 rounded-lg mt-2 text-sm">{error}</p>
+                  <p role="alert" className="text-red-400 bg-red-900/20 px-4 py-2 rounded-lg mt-2 text-sm font-bengali">{describeError(error, t)}</p>
+                )}
+                {micError && (
+                  <div className="mt-2">
+                    <MicrophoneErrorNotice
+                      kind={micError}
+                      onRetry={isLive ? () => setMicError(null) : startConversation}
+                      onOpenSettings={() => setShowSettings(true)}
+                      onDismiss={() => setMicError(null)}
+                    />
+                  </div>
                 )}
             </div>
 
             {/* Visualizer */}
-            <AudioVisualizer 
-              analyser={isConnected ? (outputAnalyser || inputAnalyser) : null} 
-              isActive={isConnected} 
-              accentColor={isConnected ? '#34d399' : '#64748b'}
+            <AudioVisualizer
+              inputAnalyser={inputAnalyser}
+              outputAnalyser={outputAnalyser}
+              isActive={isLive}
+              mode={settings.visualizerMode}
+              accentColor={isConnected ? '#34d399' : isReconnecting ? '#fbbf24' : '#64748b'}
             />
           </div>
         </div>
+        )}
 
         {/* Transcript Overlay / List */}
-        {messages.length > 0 && (
-          <div className="flex-1 overflow-y-auto px-4 pb-24 scrollbar-hide mask-image-linear-gradient">
+        {visibleMessages.length > 0 && (
+          <section
+            className={`flex-1 overflow-y-auto px-4 scrollbar-hide mask-image-linear-gradient ${isLive ? (settings.captions ? 'pb-96' : 'pb-56') : 'pb-24'}`}
+            aria-label={t('conversation.transcript')}
+          >
              <div className="max-w-2xl mx-auto space-y-4 pt-4">
-                {messages.map((msg, idx) => (
+                {visibleMessages.map((msg) => msg.role === 'tool' ? (
+                  <div key={msg.id} className="flex justify-center">
+                    <ToolCallBubble message={msg} />
+                  </div>
+                ) : msg.translation ? (
+                  <TranslationPair key={msg.id} message={msg} />
+                ) : (
                   <div 
-                    key={msg.id + idx} 
-                    className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
+                    key={msg.id} 
+                    className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}
                   >
                     <div 
                       className={`max-w-[80%] px-4 py-3 rounded-2xl text-lg font-bengali leading-relaxed shadow-sm ${
@@ -121,30 +498,117 @@ const App: React.FC = () => {
                           : 'bg-emerald-600/20 text-emerald-100 border border-emerald-500/20 rounded-bl-none'
                       }`}
                     >
+                      {msg.source === 'typed' && (
+                        <svg xmlns="http://www.w3.org/2000/svg" className="inline-block h-4 w-4 mr-2 opacity-60 align-[-2px]" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-label={t('conversation.typed')}>
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7h18M3 12h18M3 17h12" />
+                        </svg>
+                      )}
+                      {msg.attachments && msg.attachments.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mb-2">
+                          {msg.attachments.map((attachment, i) => (
+                            <img
+                              key={i}
+                              src={attachment.thumbnailUrl}
+                              alt={attachment.source === 'camera' ? t('conversation.cameraFrame') : t('conversation.photo')}
+                              className="h-28 max-w-full rounded-lg object-cover"
+                            />
+                          ))}
+                        </div>
+                      )}
                       {msg.text}
                       {msg.isPartial && <span className="inline-block w-2 h-4 ml-1 bg-current opacity-50 animate-pulse">|</span>}
+                      <time dateTime={msg.timestamp.toISOString()} className="block mt-1 text-xs opacity-50">
+                        {i18n.formatTime(msg.timestamp)}
+                      </time>
                     </div>
+                    {msg.sources && msg.sources.length > 0 && <SourceChips sources={msg.sources} />}
                   </div>
                 ))}
+                {summarySession && (summarySession.summary || canSummarize(summarySession.messages)) && (
+                  <SummaryCard
+                    session={summarySession}
+                    status={summaries.status[summarySession.id]}
+                    onSummarize={() => summaries.summarize(summarySession)}
+                  />
+                )}
                 <div ref={messagesEndRef} />
              </div>
-          </div>
+          </section>
         )}
 
       </main>
 
       {/* Footer Controls */}
-      <div className="absolute bottom-8 left-0 right-0 flex justify-center z-20">
+      <div className="absolute bottom-8 left-0 right-0 flex flex-col items-center gap-4 z-20">
+         {finishedRecording && !isLive && (
+           <RecordingExport
+             recording={finishedRecording}
+             messages={messages.filter(m => m.timestamp >= finishedRecording.startedAt)}
+             onDismiss={() => setFinishedRecording(null)}
+           />
+         )}
+         {memory.proposals.map(proposal => (
+           <MemoryProposalCard
+             key={proposal.id}
+             proposal={proposal}
+             onAccept={memory.acceptProposal}
+             onDismiss={memory.dismissProposal}
+           />
+         ))}
+         {isLive && !settings.textOnly && (
+           <PlaybackControls
+             state={playbackState}
+             volume={settings.outputVolume}
+             rate={settings.playbackRate}
+             onVolumeChange={outputVolume => updateSettings({ outputVolume })}
+             onRateChange={playbackRate => updateSettings({ playbackRate })}
+             onPause={pausePlayback}
+             onResume={resumePlayback}
+             onSkip={skipResponse}
+           />
+         )}
+         {isLive && settings.captions && !viewingSession && <CaptionsView messages={messages} />}
+         {settings.conversationMode === 'interpreter' && !viewingSession && (
+           <div className="px-3 py-1.5 rounded-full bg-slate-800/90 border border-slate-700">
+             <LanguagePairControl settings={settings} onChange={updateSettings} disabled={isLive || isConnecting} />
+           </div>
+         )}
+         {isLive && !viewingSession && (
+           <Composer
+             onSend={sendText}
+             onSendImage={sendImage}
+             isCameraOn={cameraStream !== null}
+             onToggleCamera={cameraStream ? stopCamera : startCamera}
+             disabled={!isConnected}
+           />
+         )}
+         <div className="flex items-center gap-6">
+         {/* Mode and live speaking state, balanced by the talk button on the right */}
+         <div className="w-32 flex flex-col items-end gap-1.5">
+           {isLive && !settings.textOnly && (
+             <>
+               <InputModeIndicator mode={inputMode} isSpeaking={isUserSpeaking} />
+               {isMuted
+                 ? <span className="text-xs text-red-300 font-bengali">{t('conversation.muted')}</span>
+                 : <InputLevelMeter analyser={inputAnalyser} className="w-20" />}
+             </>
+           )}
+         </div>
          <button
-            onClick={isConnected ? disconnect : connect}
-            disabled={isConnecting}
+            onClick={isLive ? disconnect : startConversation}
+            disabled={isConnecting || (!online && !isLive)}
+            aria-label={isLive ? t('conversation.stop') : t('conversation.start')}
+            aria-keyshortcuts={shortcutKeys('toggleConversation')}
+            title={`${isLive ? t('conversation.stop') : t('conversation.start')} (${shortcutKeys('toggleConversation')})`}
             className={`
               relative group w-20 h-20 rounded-full flex items-center justify-center shadow-2xl transition-all duration-300
-              ${isConnected 
+              ${isLive 
                 ? 'bg-red-500 hover:bg-red-600 shadow-red-500/40' 
-                : 'bg-emerald-500 hover:bg-emerald-400 shadow-emerald-500/40'
+                : online
+                  ? 'bg-emerald-500 hover:bg-emerald-400 shadow-emerald-500/40'
+                  : 'bg-slate-600 shadow-none cursor-not-allowed'
               }
-              ${isConnecting ? 'opacity-80 cursor-wait' : 'cursor-pointer'}
+              ${isConnecting ? 'opacity-80 cursor-wait' : online || isLive ? 'cursor-pointer' : ''}
             `}
          >
             {/* Ripple Effect Ring when active */}
@@ -153,7 +617,7 @@ const App: React.FC = () => {
             )}
             
             {/* Icon */}
-            {isConnected ? (
+            {isLive ? (
               <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
               </svg>
@@ -163,6 +627,27 @@ const App: React.FC = () => {
               </svg>
             )}
          </button>
+         <div className="w-32 flex items-center justify-start gap-2">
+           {usesPushToTalk && <PushToTalkButton isPressed={isUserSpeaking} onPress={setPushToTalk} disabled={isMuted} />}
+           {usesMicrophone && (
+             <button
+               onClick={toggleMute}
+               className={`w-11 h-11 shrink-0 rounded-full flex items-center justify-center border-2 transition-colors ${
+                 isMuted ? 'bg-red-900/40 border-red-400 text-red-200' : 'bg-slate-800 border-slate-600 text-slate-300 hover:border-emerald-500'
+               }`}
+               aria-label={t('conversation.mute')}
+               aria-pressed={isMuted}
+               aria-keyshortcuts={shortcutKeys('toggleMute')}
+               title={`${t('conversation.mute')} (${shortcutKeys('toggleMute')})`}
+             >
+               <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+                 {isMuted && <path strokeLinecap="round" strokeWidth={2} d="M4 4l16 16" />}
+               </svg>
+             </button>
+           )}
+         </div>
+         </div>
       </div>
     </div>
   );
@@ -1,96 +1,223 @@
 import React, { useEffect, useRef } from 'react';
-import { AudioVisualizerProps } from '../types';
+import { AudioVisualizerProps, VisualizerMode } from '../types';
+import { useReducedMotion } from '../hooks/useReducedMotion';
+import { barAngle, barLevel, canvasSize, idleRadius, radialSegment, speechBins, waveformY } from '../utils/visualizer';
 
-const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ analyser, isActive, accentColor = '#34d399' }) => {
+const BARS = 60;
+const WAVEFORM_POINTS = 128;
+// With reduced motion the bars update a few times a second instead of every frame
+const REDUCED_MOTION_FRAME_MS = 100;
+
+/** An analyser with a buffer allocated once, sized for both frequency and time-domain reads. */
+interface Channel {
+  analyser: AnalyserNode;
+  data: Uint8Array<ArrayBuffer>;
+  usableBins: number;
+}
+
+const channel = (analyser: AnalyserNode | null): Channel | null => analyser && {
+  analyser,
+  data: new Uint8Array(analyser.fftSize),
+  usableBins: speechBins(analyser.frequencyBinCount, analyser.context.sampleRate),
+};
+
+type Levels = (index: number) => number;
+
+const spectrum = (source: Channel | null): Levels => {
+  if (!source) return () => 0;
+  source.analyser.getByteFrequencyData(source.data);
+  return index => barLevel(source.data, index, BARS, source.usableBins);
+};
+
+const strokeBars = (
+  ctx: CanvasRenderingContext2D,
+  levels: Levels,
+  cx: number,
+  cy: number,
+  inner: number,
+  length: number,
+  color: string,
+  lineWidth: number,
+) => {
+  ctx.beginPath();
+  for (let i = 0; i < BARS; i++) {
+    const bar = radialSegment(cx, cy, barAngle(i, BARS), inner, levels(i) * length);
+    ctx.moveTo(bar.x1, bar.y1);
+    ctx.lineTo(bar.x2, bar.y2);
+  }
+  ctx.strokeStyle = color;
+  ctx.lineWidth = lineWidth;
+  ctx.lineCap = 'round';
+  ctx.stroke();
+};
+
+const fillDisc = (ctx: CanvasRenderingContext2D, cx: number, cy: number, radius: number, color: string, alpha: number) => {
+  ctx.beginPath();
+  ctx.arc(cx, cy, radius, 0, 2 * Math.PI);
+  ctx.fillStyle = color;
+  ctx.globalAlpha = alpha;
+  ctx.fill();
+  ctx.globalAlpha = 1;
+};
+
+const strokeWaveform = (ctx: CanvasRenderingContext2D, source: Channel, width: number, cy: number, amplitude: number, color: string, alpha: number) => {
+  const { analyser, data } = source;
+  analyser.getByteTimeDomainData(data);
+  ctx.beginPath();
+  for (let p = 0; p <= WAVEFORM_POINTS; p++) {
+    const x = (p / WAVEFORM_POINTS) * width;
+    const y = waveformY(data[Math.floor((p / WAVEFORM_POINTS) * (data.length - 1))], cy, amplitude);
+    if (p === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  }
+  ctx.strokeStyle = color;
+  ctx.globalAlpha = alpha;
+  ctx.lineWidth = 2;
+  ctx.lineJoin = 'round';
+  ctx.stroke();
+  ctx.globalAlpha = 1;
+};
+
+interface Frame {
+  ctx: CanvasRenderingContext2D;
+  width: number;
+  height: number;
+  user: Channel | null;
+  model: Channel | null;
+  accentColor: string;
+  userColor: string;
+}
+
+const RENDERERS: Record<VisualizerMode, (frame: Frame) => void> = {
+  // Bondhu and the user share one spectrum, whoever is louder per bar
+  radial: ({ ctx, width, height, user, model, accentColor }) => {
+    const size = Math.min(width, height);
+    const userLevels = spectrum(user);
+    const modelLevels = spectrum(model);
+    const radius = size * 0.15;
+    strokeBars(ctx, i => Math.max(userLevels(i), modelLevels(i)), width / 2, height / 2, radius, size * 0.2, accentColor, 3);
+    fillDisc(ctx, width / 2, height / 2, radius - 5, accentColor, 0.1);
+  },
+  waveform: ({ ctx, width, height, user, model, accentColor, userColor }) => {
+    const amplitude = height * 0.35;
+    if (user) strokeWaveform(ctx, user, width, height / 2, amplitude, userColor, 0.7);
+    if (model) strokeWaveform(ctx, model, width, height / 2, amplitude, accentColor, 1);
+  },
+  'dual-ring': ({ ctx, width, height, user, model, accentColor, userColor }) => {
+    const size = Math.min(width, height);
+    const cx = width / 2;
+    const cy = height / 2;
+    fillDisc(ctx, cx, cy, size * 0.11, userColor, 0.1);
+    strokeBars(ctx, spectrum(user), cx, cy, size * 0.12, size * 0.1, userColor, 2);
+    strokeBars(ctx, spectrum(model), cx, cy, size * 0.26, size * 0.2, accentColor, 3);
+  },
+};
+
+/**
+ * Canvas view of the conversation audio in one of three modes. Draws at the
+ * device pixel ratio, pauses while the tab is hidden and calms down when the
+ * user prefers reduced motion.
+ */
+const AudioVisualizer: React.FC<AudioVisualizerProps> = ({
+  inputAnalyser,
+  outputAnalyser,
+  isActive,
+  mode = 'radial',
+  accentColor = '#34d399',
+  userColor = '#38bdf8',
+}) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const animationRef = useRef<number | undefined>(undefined);
+  const reducedMotion = useReducedMotion();
 
   useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const draw = () => {
-      if (!analyser || !isActive) {
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-        
-        // Draw idle state (gentle breathing circle)
-        const time = Date.now() / 1000;
-        const radius = 50 + Math.sin(time * 2) * 5;
-        
-        ctx.beginPath();
-        ctx.arc(canvas.width / 2, canvas.height / 2, radius, 0, 2 * Math.PI);
-        ctx.strokeStyle = accentColor;
-        ctx.lineWidth = 2;
-        ctx.globalAlpha = 0.3;
-        ctx.stroke();
-        ctx.globalAlpha = 1.0;
-        
-        animationRef.current = requestAnimationFrame(draw);
-        return;
-      }
-
-      const bufferLength = analyser.frequencyBinCount;
-      const dataArray = new Uint8Array(bufferLength);
-      analyser.getByteFrequencyData(dataArray);
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
 
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
+    const user = isActive ? channel(inputAnalyser) : null;
+    const model = isActive ? channel(outputAnalyser) : null;
+    const listening = Boolean(user || model);
+    let width = 0;
+    let height = 0;
 
-      const centerX = canvas.width / 2;
-      const centerY = canvas.height / 2;
-      const radius = 60;
-      const bars = 60;
-      const step = (Math.PI * 2) / bars;
-
-      ctx.beginPath();
-      for (let i = 0; i < bars; i++) {
-        const barHeight = (dataArray[i % bufferLength] / 255) * 80; // Scale height
-        const angle = i * step;
-        
-        const x1 = centerX + Math.cos(angle) * radius;
-        const y1 = centerY + Math.sin(angle) * radius;
-        const x2 = centerX + Math.cos(angle) * (radius + barHeight);
-        const y2 = centerY + Math.sin(angle) * (radius + barHeight);
-
-        ctx.moveTo(x1, y1);
-        ctx.lineTo(x2, y2);
+    const render = (time: number) => {
+      ctx.clearRect(0, 0, width, height);
+      if (listening) {
+        RENDERERS[mode]({ ctx, width, height, user, model, accentColor, userColor });
+        return;
       }
-      
+      // Idle state: a resting circle
+      ctx.beginPath();
+      ctx.arc(width / 2, height / 2, idleRadius(time / 1000, Math.min(width, height) / 8, reducedMotion), 0, 2 * Math.PI);
       ctx.strokeStyle = accentColor;
-      ctx.lineWidth = 3;
-      ctx.lineCap = 'round';
+      ctx.lineWidth = 2;
+      ctx.globalAlpha = 0.3;
       ctx.stroke();
+      ctx.globalAlpha = 1;
+    };
 
-      // Inner glow
-      ctx.beginPath();
-      ctx.arc(centerX, centerY, radius - 5, 0, 2 * Math.PI);
-      ctx.fillStyle = accentColor;
-      ctx.globalAlpha = 0.1;
-      ctx.fill();
-      ctx.globalAlpha = 1.0;
+    const resize = () => {
+      const rect = canvas.getBoundingClientRect();
+      const size = canvasSize(rect.width, rect.height, window.devicePixelRatio);
+      // Resizing clears the canvas and resets its transform
+      canvas.width = size.width;
+      canvas.height = size.height;
+      ctx.setTransform(size.ratio, 0, 0, size.ratio, 0, 0);
+      width = rect.width;
+      height = rect.height;
+      render(performance.now());
+    };
+
+    let frame: number | undefined;
+    let lastDrawn = 0;
+    const loop = (time: number) => {
+      frame = requestAnimationFrame(loop);
+      if (reducedMotion && time - lastDrawn < REDUCED_MOTION_FRAME_MS) return;
+      lastDrawn = time;
+      render(time);
+    };
+    // A still idle circle needs no animation at all
+    const animated = listening || !reducedMotion;
+    const start = () => {
+      if (animated && frame === undefined && !document.hidden) frame = requestAnimationFrame(loop);
+    };
+    const stop = () => {
+      if (frame !== undefined) cancelAnimationFrame(frame);
+      frame = undefined;
+    };
+    const onVisibilityChange = () => (document.hidden ? stop() : start());
 
-      animationRef.current = requestAnimationFrame(draw);
+    // Moving to a screen with another pixel ratio doesn't change the CSS size,
+    // so watch the current ratio separately
+    let pixelRatioQuery: MediaQueryList | null = null;
+    const watchPixelRatio = () => {
+      pixelRatioQuery?.removeEventListener('change', onPixelRatioChange);
+      pixelRatioQuery = typeof window.matchMedia === 'function'
+        ? window.matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`)
+        : null;
+      pixelRatioQuery?.addEventListener('change', onPixelRatioChange);
+    };
+    const onPixelRatioChange = () => {
+      resize();
+      watchPixelRatio();
     };
 
-    draw();
+    resize();
+    watchPixelRatio();
+    const observer = typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(resize);
+    observer?.observe(canvas);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    start();
 
     return () => {
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current);
-      }
+      stop();
+      observer?.disconnect();
+      pixelRatioQuery?.removeEventListener('change', onPixelRatioChange);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
     };
-  }, [analyser, isActive, accentColor]);
-
-  return (
-    <canvas 
-      ref={canvasRef} 
-      width={400} 
-      height={400} 
-      className="w-full max-w-[400px] h-auto mx-auto"
-    />
-  );
+  }, [inputAnalyser, outputAnalyser, isActive, mode, accentColor, userColor, reducedMotion]);
+
+  return <canvas ref={canvasRef} className="block w-full max-w-[400px] aspect-square mx-auto" />;
 };
 
-export default AudioVisualizer;
\ No newline at end of file
+export default AudioVisualizer;
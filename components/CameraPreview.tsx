@@ -0,0 +1,60 @@
+import React, { useEffect, useRef } from 'react';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface CameraPreviewProps {
+  stream: MediaStream;
+  /** Front cameras are mirrored, like a selfie view. */
+  mirrored: boolean;
+  onFlip: () => void;
+  onClose: () => void;
+}
+
+/** Small live tile of what the camera is sending to Bondhu. */
+const CameraPreview: React.FC<CameraPreviewProps> = ({ stream, mirrored, onFlip, onClose }) => {
+  const { t } = useI18n();
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.srcObject = stream;
+    video.play().catch(err => console.warn('Camera preview did not start', err));
+    return () => {
+      video.srcObject = null;
+    };
+  }, [stream]);
+
+  return (
+    <div className="absolute top-4 right-4 z-20 w-36 sm:w-48 aspect-[3/4] rounded-xl overflow-hidden border border-slate-600 bg-black shadow-xl">
+      <video
+        ref={videoRef}
+        muted
+        playsInline
+        aria-label={t('camera.preview')}
+        className={`w-full h-full object-cover ${mirrored ? '-scale-x-100' : ''}`}
+      />
+      <div className="absolute top-1 right-1 flex gap-1">
+        <button
+          onClick={onFlip}
+          className="p-1.5 rounded-full bg-slate-900/70 text-white hover:bg-slate-800"
+          aria-label={t('camera.flip')}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+          </svg>
+        </button>
+        <button
+          onClick={onClose}
+          className="p-1.5 rounded-full bg-slate-900/70 text-white hover:bg-slate-800"
+          aria-label={t('composer.cameraOff')}
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CameraPreview;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Message, TextMessage } from '../types';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface CaptionsViewProps {
+  messages: Message[];
+}
+
+/** How many turns stay on screen: the one in progress and the one it answers. */
+const VISIBLE_TURNS = 2;
+
+/** Large, high-contrast captions of the latest turns, updated while they are still being spoken. */
+const CaptionsView: React.FC<CaptionsViewProps> = ({ messages }) => {
+  const { t } = useI18n();
+  const turns = messages
+    .filter((m): m is TextMessage => m.role !== 'tool' && m.text.trim() !== '')
+    .slice(-VISIBLE_TURNS);
+
+  return (
+    <section
+      className="w-full max-w-3xl mx-4 px-5 py-4 rounded-xl bg-black border-2 border-white/80 font-bengali space-y-3"
+      aria-label={t('captions.label')}
+    >
+      {turns.map(turn => (
+        <div key={turn.id}>
+          <p className="text-base font-bold text-yellow-300">
+            {turn.role === 'user' ? t('captions.you') : t('captions.bondhu')}
+          </p>
+          <p lang={turn.language} className="text-3xl leading-snug text-white">{turn.text}</p>
+          {turn.translation?.text && (
+            <p lang={turn.translation.language} className="mt-1 text-3xl leading-snug text-white">
+              <span className="text-base font-bold text-yellow-300 mr-2">{t('captions.bondhu')}</span>
+              {turn.translation.text}
+            </p>
+          )}
+        </div>
+      ))}
+    </section>
+  );
+};
+
+export default CaptionsView;
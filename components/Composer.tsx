@@ -0,0 +1,102 @@
+import React, { useRef, useState } from 'react';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface ComposerProps {
+  onSend: (text: string) => boolean;
+  /** Sends a photo with whatever has been typed as its caption. */
+  onSendImage: (file: File, caption: string) => Promise<boolean>;
+  isCameraOn: boolean;
+  onToggleCamera: () => void;
+  disabled?: boolean;
+}
+
+const iconButtonClass = 'h-12 w-12 shrink-0 rounded-full flex items-center justify-center border disabled:opacity-40';
+
+const Composer: React.FC<ComposerProps> = ({ onSend, onSendImage, isCameraOn, onToggleCamera, disabled }) => {
+  const { t } = useI18n();
+  const [text, setText] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const sendImage = async (file: File) => {
+    if (await onSendImage(file, text)) setText('');
+  };
+
+  const submit = () => {
+    if (onSend(text)) setText('');
+  };
+
+  return (
+    <form
+      onSubmit={e => {
+        e.preventDefault();
+        submit();
+      }}
+      className="w-full max-w-2xl mx-auto flex items-end gap-2 px-4"
+    >
+      <button
+        type="button"
+        onClick={onToggleCamera}
+        disabled={disabled}
+        className={`${iconButtonClass} ${
+          isCameraOn ? 'bg-emerald-600 border-emerald-400 text-white' : 'bg-slate-800/90 border-slate-700 text-slate-300 hover:text-white'
+        }`}
+        aria-pressed={isCameraOn}
+        aria-label={isCameraOn ? t('composer.cameraOff') : t('composer.cameraOn')}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+        </svg>
+      </button>
+      <button
+        type="button"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={disabled}
+        className={`${iconButtonClass} bg-slate-800/90 border-slate-700 text-slate-300 hover:text-white`}
+        aria-label={t('composer.attachPhoto')}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+        </svg>
+      </button>
+      {/* On phones this offers the camera as well as the gallery */}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) sendImage(file);
+          e.target.value = '';
+        }}
+      />
+      <textarea
+        value={text}
+        onChange={e => setText(e.target.value)}
+        onKeyDown={e => {
+          // Enter sends, Shift+Enter adds a line (for addresses and lists)
+          if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+            e.preventDefault();
+            submit();
+          }
+        }}
+        rows={1}
+        disabled={disabled}
+        placeholder={t('composer.placeholder')}
+        className="flex-1 resize-none max-h-32 px-4 py-3 rounded-2xl bg-slate-800/90 border border-slate-700 font-bengali focus:outline-none focus:border-emerald-500 disabled:opacity-50"
+      />
+      <button
+        type="submit"
+        disabled={disabled || !text.trim()}
+        className="h-12 w-12 shrink-0 rounded-full bg-emerald-600 hover:bg-emerald-500 disabled:opacity-40 flex items-center justify-center"
+        aria-label={t('composer.send')}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 12h14M12 5l7 7-7 7" />
+        </svg>
+      </button>
+    </form>
+  );
+};
+
+export default Composer;
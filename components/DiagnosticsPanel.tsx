@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { DiagnosticsEvent, TurnMetrics } from '../types';
+import { DiagnosticsSummary, LatencyStats, turnsOf } from '../utils/diagnostics';
+import { downloadFile, fileStamp } from '../utils/download';
+import { useI18n } from '../i18n/I18nProvider';
+import { TextKey } from '../i18n/translator';
+
+interface DiagnosticsPanelProps {
+  events: DiagnosticsEvent[];
+  summary: DiagnosticsSummary;
+  /** The JSON report to download. */
+  onExport: () => string;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const CHART_TURNS = 30;
+const CHART_HEIGHT = 80;
+const BAR_WIDTH = 8;
+const BAR_GAP = 2;
+
+/**
+ * One bar per turn, as tall as the time to turnComplete, with ticks where
+ * the first audio and first transcript arrived. Turns without a measured
+ * end of user speech are left out.
+ */
+const LatencyChart: React.FC<{ turns: TurnMetrics[] }> = ({ turns }) => {
+  const { t } = useI18n();
+  const measured = turns.filter(turn => turn.completeMs !== undefined).slice(-CHART_TURNS);
+  if (!measured.length) return null;
+  const max = Math.max(1, ...measured.map(turn => turn.completeMs!));
+  const y = (ms: number) => CHART_HEIGHT - (ms / max) * CHART_HEIGHT;
+  const label = t('diagnostics.chart', { count: measured.length });
+
+  return (
+    <svg
+      role="img"
+      aria-label={label}
+      viewBox={`0 0 ${measured.length * (BAR_WIDTH + BAR_GAP)} ${CHART_HEIGHT}`}
+      preserveAspectRatio="none"
+      className="w-full h-20"
+    >
+      <title>{label}</title>
+      {measured.map((turn, i) => {
+        const x = i * (BAR_WIDTH + BAR_GAP);
+        return (
+          <g key={turn.startedAt + '-' + i}>
+            <rect
+              x={x}
+              y={y(turn.completeMs!)}
+              width={BAR_WIDTH}
+              height={CHART_HEIGHT - y(turn.completeMs!)}
+              className={turn.interrupted ? 'fill-amber-700/60' : 'fill-slate-600'}
+            >
+              <title>
+                {`${t('diagnostics.complete')}: ${t('diagnostics.ms', { value: Math.round(turn.completeMs!) })}`
+                  + (turn.interrupted ? ` (${t('diagnostics.interrupted')})` : '')}
+              </title>
+            </rect>
+            {turn.firstTranscriptionMs !== undefined && (
+              <rect x={x} y={y(turn.firstTranscriptionMs) - 1} width={BAR_WIDTH} height={2} className="fill-sky-400" />
+            )}
+            {turn.firstAudioMs !== undefined && (
+              <rect x={x} y={y(turn.firstAudioMs) - 1} width={BAR_WIDTH} height={2} className="fill-emerald-400" />
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+const LATENCY_ROWS: { key: 'firstAudio' | 'firstTranscription' | 'complete'; label: TextKey; swatch: string }[] = [
+  { key: 'firstAudio', label: 'diagnostics.firstAudio', swatch: 'bg-emerald-400' },
+  { key: 'firstTranscription', label: 'diagnostics.firstTranscription', swatch: 'bg-sky-400' },
+  { key: 'complete', label: 'diagnostics.complete', swatch: 'bg-slate-500' },
+];
+
+/** Per-turn latency and audio health, with a JSON export for bug reports. */
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ events, summary, onExport, onClear, onClose }) => {
+  const { t, plural, formatNumber } = useI18n();
+  const [expanded, setExpanded] = useState(true);
+  const turns = turnsOf(events);
+
+  const ms = (value?: number) => (value === undefined ? t('diagnostics.none') : t('diagnostics.ms', { value: Math.round(value) }));
+  const latency = (stats: LatencyStats) => `${ms(stats.median)} / ${ms(stats.p90)}`;
+
+  const counters: [TextKey, string][] = [
+    ['diagnostics.audioChunks', formatNumber(summary.audioChunks)],
+    [
+      'diagnostics.chunkSize',
+      summary.averageChunkBytes === undefined
+        ? t('diagnostics.none')
+        : t('diagnostics.kb', { value: Math.round(summary.averageChunkBytes / 102.4) / 10 }),
+    ],
+    ['diagnostics.underruns', formatNumber(summary.underruns)],
+    ['diagnostics.interruptions', formatNumber(summary.interruptions)],
+    ['diagnostics.reconnects', formatNumber(summary.reconnects)],
+    ['diagnostics.setup', ms(summary.averageSetupMs)],
+    ['diagnostics.tokens', formatNumber(summary.totalTokens)],
+  ];
+
+  return (
+    <section
+      aria-label={t('diagnostics.title')}
+      className="absolute top-4 left-4 z-20 w-80 max-w-[calc(100%-2rem)] rounded-xl bg-slate-900/95 border border-slate-700 shadow-xl text-xs"
+    >
+      <div className="flex items-center gap-2 px-3 py-2">
+        <button
+          onClick={() => setExpanded(open => !open)}
+          aria-expanded={expanded}
+          aria-label={t(expanded ? 'diagnostics.collapse' : 'diagnostics.expand')}
+          className="flex items-center gap-2 flex-1 min-w-0 text-left"
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            className={`h-4 w-4 text-slate-400 transition-transform ${expanded ? 'rotate-90' : ''}`}
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+          <span className="font-semibold font-bengali">{t('diagnostics.title')}</span>
+          <span className="text-slate-400 font-bengali truncate">
+            {plural('diagnostics.turnCount', summary.turns)}
+            {summary.firstAudio.median !== undefined && ` · ${ms(summary.firstAudio.median)}`}
+          </span>
+        </button>
+        <button onClick={onClose} className="text-slate-400 hover:text-white" aria-label={t('diagnostics.close')}>
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="px-3 pb-3 space-y-3 border-t border-slate-700 pt-3">
+          {turns.length === 0 ? (
+            <p className="text-slate-400 font-bengali">{t('diagnostics.empty')}</p>
+          ) : (
+            <>
+              <LatencyChart turns={turns} />
+              <table className="w-full">
+                <thead>
+                  <tr className="text-slate-500">
+                    <th />
+                    <th className="text-right font-normal font-bengali">{t('diagnostics.medianP90')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {LATENCY_ROWS.map(row => (
+                    <tr key={row.key}>
+                      <th scope="row" className="text-left font-normal font-bengali">
+                        <span className={`inline-block w-2 h-2 rounded-sm mr-1.5 ${row.swatch}`} />
+                        {t(row.label)}
+                      </th>
+                      <td className="text-right tabular-nums">{latency(summary[row.key])}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <dl className="grid grid-cols-2 gap-x-3 gap-y-1">
+                {counters.map(([label, value]) => (
+                  <div key={label} className="flex justify-between gap-2">
+                    <dt className="text-slate-400 font-bengali truncate">{t(label)}</dt>
+                    <dd className="tabular-nums">{value}</dd>
+                  </div>
+                ))}
+              </dl>
+              {turns.some(turn => turn.endSource === 'transcription') && (
+                <p className="text-slate-500 font-bengali">{t('diagnostics.approximate')}</p>
+              )}
+            </>
+          )}
+          <div className="flex justify-end gap-3">
+            <button onClick={onClear} disabled={events.length === 0} className="text-slate-400 hover:text-white disabled:opacity-50 font-bengali">
+              {t('diagnostics.clear')}
+            </button>
+            <button
+              onClick={() => downloadFile(onExport(), `${fileStamp(new Date(), 'bondhu-diagnostics')}.json`, 'application/json')}
+              disabled={events.length === 0}
+              className="px-2 py-1 rounded-md bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 font-bengali"
+            >
+              {t('diagnostics.export')}
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default DiagnosticsPanel;
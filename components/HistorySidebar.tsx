@@ -0,0 +1,141 @@
+import React, { useId, useMemo, useState } from 'react';
+import { StoredSession } from '../utils/historyStore';
+import { matchesQuery } from '../utils/textSearch';
+import { Translator } from '../i18n/translator';
+import { useI18n } from '../i18n/I18nProvider';
+import { useDialogFocus } from '../hooks/useDialogFocus';
+
+interface HistorySidebarProps {
+  sessions: StoredSession[];
+  activeSessionId: string | null;
+  onSelect: (session: StoredSession) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+export const sessionTitle = (session: StoredSession, { formatDateTime }: Pick<Translator, 'formatDateTime'>) =>
+  session.title || formatDateTime(session.startedAt);
+
+const searchableText = (session: StoredSession) =>
+  [session.title ?? '', ...session.messages.map(m => (m.role === 'tool' ? m.name : [m.text, m.translation?.text ?? ''].join('\n')))].join('\n');
+
+const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  sessions,
+  activeSessionId,
+  onSelect,
+  onRename,
+  onDelete,
+  onClose,
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  // The conversation stays usable beside the sidebar, so Tab may leave it
+  const panel = useDialogFocus<HTMLElement>(onClose, { modal: false });
+  const titleId = useId();
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const filtered = useMemo(
+    () => (query.trim() ? sessions.filter(s => matchesQuery(searchableText(s), query)) : sessions),
+    [sessions, query],
+  );
+
+  const commitRename = () => {
+    if (editingId) onRename(editingId, draftTitle);
+    setEditingId(null);
+  };
+
+  return (
+    <aside
+      {...panel}
+      aria-labelledby={titleId}
+      className="absolute inset-y-0 left-0 w-80 max-w-full bg-slate-900/95 backdrop-blur-md border-r border-slate-700 z-30 flex flex-col focus:outline-none"
+    >
+      <div className="p-4 flex items-center justify-between border-b border-slate-700">
+        <h2 id={titleId} className="font-bold font-bengali">{t('history.title')}</h2>
+        <button onClick={onClose} className="text-slate-400 hover:text-white" aria-label={t('history.close')}>
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="p-3">
+        <input
+          type="search"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder={t('history.search')}
+          className="w-full px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-sm font-bengali focus:outline-none focus:border-emerald-500"
+        />
+      </div>
+
+      <ul className="flex-1 overflow-y-auto px-2 pb-4 space-y-1">
+        {filtered.length === 0 && (
+          <li className="text-center text-slate-500 text-sm py-8 font-bengali">{t('history.empty')}</li>
+        )}
+        {filtered.map(session => (
+          <li
+            key={session.id}
+            className={`group rounded-lg px-3 py-2 cursor-pointer ${
+              session.id === activeSessionId ? 'bg-emerald-600/20' : 'hover:bg-slate-800'
+            }`}
+            onClick={() => editingId !== session.id && onSelect(session)}
+          >
+            {editingId === session.id ? (
+              <input
+                autoFocus
+                value={draftTitle}
+                onChange={e => setDraftTitle(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') {
+                    // Cancels the rename without closing the sidebar
+                    e.stopPropagation();
+                    setEditingId(null);
+                  }
+                }}
+                className="w-full px-2 py-1 rounded bg-slate-800 border border-emerald-500 text-sm font-bengali"
+              />
+            ) : (
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-bengali truncate">{sessionTitle(session, i18n)}</p>
+                  <p className="text-xs text-slate-500">
+                    {i18n.formatDate(session.startedAt)} · {i18n.plural('history.messageCount', session.messages.length)}
+                  </p>
+                </div>
+                <div className="flex gap-1 opacity-0 group-hover:opacity-100">
+                  <button
+                    onClick={e => {
+                      e.stopPropagation();
+                      setDraftTitle(session.title ?? '');
+                      setEditingId(session.id);
+                    }}
+                    className="text-xs text-slate-400 hover:text-white"
+                  >
+                    {t('history.rename')}
+                  </button>
+                  <button
+                    onClick={e => {
+                      e.stopPropagation();
+                      if (window.confirm(t('history.confirmDelete'))) onDelete(session.id);
+                    }}
+                    className="text-xs text-red-400 hover:text-red-300"
+                  >
+                    {t('history.delete')}
+                  </button>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
+
+export default HistorySidebar;
@@ -0,0 +1,47 @@
+import React, { useEffect, useRef } from 'react';
+import { signalLevel } from '../utils/audioUtils';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface InputLevelMeterProps {
+  analyser: AnalyserNode | null;
+  className?: string;
+}
+
+/** Live microphone level as a horizontal bar. Updates the DOM directly to avoid re-rendering every frame. */
+const InputLevelMeter: React.FC<InputLevelMeterProps> = ({ analyser, className = '' }) => {
+  const { t } = useI18n();
+  const barRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const bar = barRef.current;
+    if (!bar) return;
+    if (!analyser) {
+      bar.style.width = '0%';
+      return;
+    }
+
+    const samples = new Float32Array(analyser.fftSize);
+    let frame: number;
+    const draw = () => {
+      analyser.getFloatTimeDomainData(samples);
+      const level = signalLevel(samples);
+      bar.style.width = `${Math.round(level * 100)}%`;
+      bar.style.backgroundColor = level > 0.9 ? '#f87171' : '#34d399';
+      frame = requestAnimationFrame(draw);
+    };
+    draw();
+    return () => cancelAnimationFrame(frame);
+  }, [analyser]);
+
+  return (
+    <div
+      className={`h-1.5 rounded-full bg-slate-700 overflow-hidden ${className}`}
+      role="meter"
+      aria-label={t('mic.level')}
+    >
+      <div ref={barRef} className="h-full w-0 rounded-full transition-[width] duration-75" />
+    </div>
+  );
+};
+
+export default InputLevelMeter;
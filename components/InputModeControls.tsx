@@ -0,0 +1,61 @@
+import React from 'react';
+import { InputMode } from '../types';
+import { TextKey } from '../i18n/translator';
+import { useI18n } from '../i18n/I18nProvider';
+
+const MODE_LABELS: Record<InputMode, TextKey> = {
+  continuous: 'inputMode.continuous',
+  'push-to-talk': 'inputMode.push-to-talk',
+  vad: 'inputMode.vad',
+};
+
+interface InputModeIndicatorProps {
+  mode: InputMode;
+  isSpeaking: boolean;
+}
+
+/** Current input mode with a live dot that lights while the user is speaking. */
+export const InputModeIndicator: React.FC<InputModeIndicatorProps> = ({ mode, isSpeaking }) => {
+  const { t } = useI18n();
+  return (
+    <div className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-slate-800/90 border border-slate-700 text-xs font-bengali">
+      <span
+        className={`w-2.5 h-2.5 rounded-full transition-colors ${
+          isSpeaking ? 'bg-emerald-400 shadow-[0_0_8px] shadow-emerald-400' : 'bg-slate-600'
+        }`}
+      />
+      <span className="text-slate-300">{t(MODE_LABELS[mode])}</span>
+    </div>
+  );
+};
+
+interface PushToTalkButtonProps {
+  isPressed: boolean;
+  onPress: (pressed: boolean) => void;
+  disabled?: boolean;
+}
+
+export const PushToTalkButton: React.FC<PushToTalkButtonProps> = ({ isPressed, onPress, disabled }) => {
+  const { t } = useI18n();
+  return (
+    <button
+      disabled={disabled}
+      onPointerDown={e => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        onPress(true);
+      }}
+      onPointerUp={() => onPress(false)}
+      onPointerCancel={() => onPress(false)}
+      onContextMenu={e => e.preventDefault()}
+      className={`w-16 h-16 rounded-full flex items-center justify-center text-xs font-bengali select-none touch-none border-2 transition-colors ${
+        isPressed
+          ? 'bg-emerald-500 border-emerald-300 text-white'
+          : 'bg-slate-800 border-slate-600 text-slate-300 hover:border-emerald-500'
+      } disabled:opacity-40`}
+      aria-pressed={isPressed}
+      aria-keyshortcuts="Space"
+    >
+      {isPressed ? t('pushToTalk.speaking') : t('pushToTalk.hold')}
+    </button>
+  );
+};
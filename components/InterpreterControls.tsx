@@ -0,0 +1,75 @@
+import React from 'react';
+import { InterpreterLanguage } from '../types';
+import { INTERPRETER_LANGUAGES, InterpreterSettings } from '../utils/interpreter';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface LanguagePairControlProps {
+  settings: InterpreterSettings;
+  onChange: (update: Partial<InterpreterSettings>) => void;
+  /** Changes only apply from the next connection, so the footer locks them during one. */
+  disabled?: boolean;
+}
+
+const LANGUAGES = Object.keys(INTERPRETER_LANGUAGES) as InterpreterLanguage[];
+
+const selectClass = 'px-2 py-1 rounded-md bg-slate-800 border border-slate-700 text-sm focus:outline-none focus:border-emerald-500 disabled:opacity-60';
+
+/** The interpreter's two languages, with swap and one-way controls. */
+export const LanguagePairControl: React.FC<LanguagePairControlProps> = ({ settings, onChange, disabled }) => {
+  const { t } = useI18n();
+  const { interpreterFrom, interpreterTo, interpreterOneWay } = settings;
+
+  // Picking the language on the other side swaps them rather than pairing a language with itself
+  const select = (side: 'interpreterFrom' | 'interpreterTo', language: InterpreterLanguage) => {
+    const other = side === 'interpreterFrom' ? 'interpreterTo' : 'interpreterFrom';
+    onChange(language === settings[other] ? { [side]: language, [other]: settings[side] } : { [side]: language });
+  };
+
+  const languageSelect = (side: 'interpreterFrom' | 'interpreterTo', label: string) => (
+    <select
+      value={settings[side]}
+      onChange={e => select(side, e.target.value as InterpreterLanguage)}
+      disabled={disabled}
+      aria-label={label}
+      className={selectClass}
+    >
+      {LANGUAGES.map(language => (
+        <option key={language} value={language} lang={language}>{INTERPRETER_LANGUAGES[language].nativeName}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {languageSelect('interpreterFrom', t('interpreter.from'))}
+      <button
+        onClick={() => onChange({ interpreterFrom: interpreterTo, interpreterTo: interpreterFrom })}
+        disabled={disabled}
+        className="p-1.5 rounded-md text-slate-300 hover:text-white hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent"
+        aria-label={t('interpreter.swap')}
+        title={t('interpreter.swap')}
+      >
+        {interpreterOneWay ? (
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 12h16m0 0l-6-6m6 6l-6 6" />
+          </svg>
+        ) : (
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16V4m0 0L3 8m4-4l4 4m6 0v12m0 0l4-4m-4 4l-4-4" />
+          </svg>
+        )}
+      </button>
+      {languageSelect('interpreterTo', t('interpreter.to'))}
+      <label className="flex items-center gap-1.5 text-xs text-slate-300 font-bengali">
+        <input
+          type="checkbox"
+          checked={interpreterOneWay}
+          onChange={e => onChange({ interpreterOneWay: e.target.checked })}
+          disabled={disabled}
+          className="accent-emerald-500"
+        />
+        {t('interpreter.oneWay')}
+      </label>
+    </div>
+  );
+};
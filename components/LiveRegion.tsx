@@ -0,0 +1,18 @@
+import React from 'react';
+import { Announcement } from '../hooks/useAnnouncer';
+
+interface LiveRegionProps {
+  announcement: Announcement | null;
+  /** 'assertive' interrupts whatever the screen reader is saying. */
+  politeness?: 'polite' | 'assertive';
+}
+
+/** Read out by screen readers whenever the announcement changes; not shown on screen. */
+const LiveRegion: React.FC<LiveRegionProps> = ({ announcement, politeness = 'polite' }) => (
+  <div className="sr-only" aria-live={politeness} aria-atomic="true">
+    {/* A new node each time, so repeating the same text is read again */}
+    {announcement && <span key={announcement.id}>{announcement.text}</span>}
+  </div>
+);
+
+export default LiveRegion;
@@ -0,0 +1,197 @@
+import React, { useId, useRef, useState } from 'react';
+import { MemoryFact } from '../types';
+import { downloadFile, fileStamp } from '../utils/download';
+import { useI18n } from '../i18n/I18nProvider';
+import { useDialogFocus } from '../hooks/useDialogFocus';
+
+interface MemoryPanelProps {
+  facts: MemoryFact[];
+  onAdd: (text: string) => void;
+  onEdit: (id: string, text: string) => void;
+  onDelete: (id: string) => void;
+  onWipe: () => void;
+  /** Returns the number of facts added; throws if the file isn't a memory export. */
+  onImport: (json: string) => number;
+  onExport: () => string;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-sm font-bengali focus:outline-none focus:border-emerald-500';
+
+/** View, edit and manage what Bondhu remembers about the user. */
+const MemoryPanel: React.FC<MemoryPanelProps> = ({
+  facts,
+  onAdd,
+  onEdit,
+  onDelete,
+  onWipe,
+  onImport,
+  onExport,
+  onClose,
+}) => {
+  const { t, plural } = useI18n();
+  const dialog = useDialogFocus<HTMLElement>(onClose);
+  const titleId = useId();
+  const [newFact, setNewFact] = useState('');
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  // Outcome of the last import, shown under the toolbar
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const addFact = () => {
+    onAdd(newFact);
+    setNewFact('');
+  };
+
+  const saveEdit = () => {
+    if (editing) onEdit(editing.id, editing.text);
+    setEditing(null);
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      setNotice(plural('memory.imported', onImport(await file.text())));
+    } catch (err) {
+      console.warn('Memory import failed', err);
+      setNotice(t('memory.importFailed'));
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-40 bg-slate-950/60 flex justify-end" onClick={onClose}>
+      <aside
+        {...dialog}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        className="w-96 max-w-full h-full bg-slate-900 border-l border-slate-700 flex flex-col focus:outline-none"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-4 flex items-center justify-between border-b border-slate-700">
+          <div>
+            <h2 id={titleId} className="font-bold font-bengali">{t('memory.title')}</h2>
+            <p className="text-xs text-slate-400 font-bengali">{plural('memory.count', facts.length)}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white" aria-label={t('memory.close')}>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <p className="text-xs text-slate-400 font-bengali">{t('memory.intro')}</p>
+
+          <form
+            onSubmit={e => {
+              e.preventDefault();
+              addFact();
+            }}
+            className="flex gap-2"
+          >
+            <input
+              value={newFact}
+              onChange={e => setNewFact(e.target.value)}
+              placeholder={t('memory.addPlaceholder')}
+              className={inputClass}
+            />
+            <button
+              type="submit"
+              disabled={!newFact.trim()}
+              className="px-3 py-1 rounded-lg bg-emerald-600 hover:bg-emerald-500 disabled:opacity-40 text-sm font-bengali shrink-0"
+            >
+              {t('memory.add')}
+            </button>
+          </form>
+
+          <ul className="space-y-2">
+            {facts.length === 0 && (
+              <li className="text-center text-slate-500 text-sm py-8 font-bengali">{t('memory.empty')}</li>
+            )}
+            {facts.map(fact => (
+              <li key={fact.id} className="group px-3 py-2 rounded-lg bg-slate-800/60 border border-slate-700">
+                {editing?.id === fact.id ? (
+                  <div className="space-y-2">
+                    <input
+                      autoFocus
+                      value={editing.text}
+                      onChange={e => setEditing({ ...editing, text: e.target.value })}
+                      onKeyDown={e => {
+                        if (e.key === 'Enter') saveEdit();
+                        if (e.key === 'Escape') {
+                          // Cancels the edit without closing the panel
+                          e.stopPropagation();
+                          setEditing(null);
+                        }
+                      }}
+                      className={inputClass}
+                    />
+                    <div className="flex justify-end gap-2 text-xs">
+                      <button onClick={() => setEditing(null)} className="text-slate-300 hover:text-white">{t('memory.cancel')}</button>
+                      <button onClick={saveEdit} className="px-2 py-0.5 rounded bg-emerald-600 hover:bg-emerald-500">{t('memory.save')}</button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-bengali break-words">{fact.text}</p>
+                      {fact.source === 'model' && (
+                        <p className="text-xs text-emerald-400/70 font-bengali">{t('memory.suggested')}</p>
+                      )}
+                    </div>
+                    <div className="flex gap-2 shrink-0 opacity-0 group-hover:opacity-100 focus-within:opacity-100 text-xs">
+                      <button onClick={() => setEditing({ id: fact.id, text: fact.text })} className="text-slate-400 hover:text-white">
+                        {t('memory.edit')}
+                      </button>
+                      <button onClick={() => onDelete(fact.id)} className="text-red-400 hover:text-red-300">
+                        {t('memory.delete')}
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="p-4 border-t border-slate-700 space-y-2">
+          {notice && <p className="text-xs text-slate-300 font-bengali">{notice}</p>}
+          <div className="flex gap-3 text-sm">
+            <button
+              onClick={() => downloadFile(onExport(), `${fileStamp(new Date(), 'bondhu-memory')}.json`, 'application/json')}
+              disabled={facts.length === 0}
+              className="text-slate-300 hover:text-white disabled:opacity-40"
+            >
+              {t('memory.export')}
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} className="text-slate-300 hover:text-white">
+              {t('memory.import')}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={e => {
+                const file = e.target.files?.[0];
+                if (file) importFile(file);
+                e.target.value = '';
+              }}
+            />
+            <button
+              onClick={() => {
+                if (window.confirm(t('memory.confirmWipe'))) onWipe();
+              }}
+              disabled={facts.length === 0}
+              className="ml-auto text-red-400 hover:text-red-300 disabled:opacity-40 font-bengali"
+            >
+              {t('memory.wipe')}
+            </button>
+          </div>
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default MemoryPanel;
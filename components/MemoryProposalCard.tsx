@@ -0,0 +1,36 @@
+import React from 'react';
+import { MemoryProposal } from '../hooks/useMemories';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface MemoryProposalCardProps {
+  proposal: MemoryProposal;
+  onAccept: (id: string) => void;
+  onDismiss: (id: string) => void;
+}
+
+/** Asks the user whether to keep a fact Bondhu offered to remember. */
+const MemoryProposalCard: React.FC<MemoryProposalCardProps> = ({ proposal, onAccept, onDismiss }) => {
+  const { t } = useI18n();
+  return (
+    <div
+      role="dialog"
+      aria-label={t('memory.proposal')}
+      className="flex items-center gap-3 px-4 py-2 rounded-2xl bg-slate-800/95 border border-emerald-500/30 shadow-xl text-sm max-w-md"
+    >
+      <div className="min-w-0 font-bengali">
+        <p className="text-xs text-emerald-300">{t('memory.proposal')}</p>
+        <p className="text-slate-100 break-words">{proposal.text}</p>
+      </div>
+      <div className="flex gap-2 shrink-0 text-xs">
+        <button onClick={() => onDismiss(proposal.id)} className="text-slate-400 hover:text-white font-bengali">
+          {t('memory.dismiss')}
+        </button>
+        <button onClick={() => onAccept(proposal.id)} className="px-2 py-1 rounded-md bg-emerald-600 hover:bg-emerald-500 font-bengali">
+          {t('memory.accept')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MemoryProposalCard;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { MicrophoneErrorKind } from '../utils/microphone';
+import { TextKey } from '../i18n/translator';
+import { useI18n } from '../i18n/I18nProvider';
+
+const MESSAGES: Record<MicrophoneErrorKind, { title: TextKey; steps: TextKey[] }> = {
+  'permission-denied': {
+    title: 'mic.permission-denied.title',
+    steps: ['mic.permission-denied.step1', 'mic.permission-denied.step2', 'mic.permission-denied.step3'],
+  },
+  'not-found': {
+    title: 'mic.not-found.title',
+    steps: ['mic.not-found.step1', 'mic.not-found.step2'],
+  },
+  'in-use': {
+    title: 'mic.in-use.title',
+    steps: ['mic.in-use.step1', 'mic.in-use.step2'],
+  },
+  unknown: {
+    title: 'mic.unknown.title',
+    steps: ['mic.unknown.step1'],
+  },
+};
+
+interface MicrophoneErrorNoticeProps {
+  kind: MicrophoneErrorKind;
+  onRetry: () => void;
+  onOpenSettings: () => void;
+  onDismiss: () => void;
+}
+
+const MicrophoneErrorNotice: React.FC<MicrophoneErrorNoticeProps> = ({ kind, onRetry, onOpenSettings, onDismiss }) => {
+  const { t } = useI18n();
+  const { title, steps } = MESSAGES[kind];
+  return (
+    <div role="alert" className="max-w-sm text-left px-4 py-3 rounded-xl bg-red-900/30 border border-red-500/30 text-sm">
+      <p className="font-bengali font-semibold text-red-200">{t(title)}</p>
+      <ol className="mt-2 space-y-1 list-decimal list-inside font-bengali text-slate-300 text-xs">
+        {steps.map(step => <li key={step}>{t(step)}</li>)}
+      </ol>
+      <div className="mt-3 flex gap-3 text-xs">
+        <button onClick={onRetry} className="px-3 py-1 rounded-md bg-emerald-600 hover:bg-emerald-500">
+          {t('mic.retry')}
+        </button>
+        {kind === 'not-found' && (
+          <button onClick={onOpenSettings} className="text-slate-300 hover:text-white">{t('mic.openSettings')}</button>
+        )}
+        <button onClick={onDismiss} className="ml-auto text-slate-400 hover:text-white">{t('mic.dismiss')}</button>
+      </div>
+    </div>
+  );
+};
+
+export default MicrophoneErrorNotice;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { StoredSession } from '../utils/historyStore';
+import { sessionTitle } from './HistorySidebar';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface OfflineScreenProps {
+  sessions: StoredSession[];
+  onOpen: (session: StoredSession) => void;
+  onShowAll: () => void;
+}
+
+const RECENT_SESSIONS = 5;
+
+/** Shown instead of the idle visualizer without a connection; saved conversations still open. */
+const OfflineScreen: React.FC<OfflineScreenProps> = ({ sessions, onOpen, onShowAll }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+
+  return (
+    <div className="w-full max-w-md px-6 text-center font-bengali" role="status">
+      <svg xmlns="http://www.w3.org/2000/svg" className="h-12 w-12 mx-auto text-slate-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden="true">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3l18 18M8.111 8.111A9.97 9.97 0 002.05 11.05m19.9 0a10 10 0 00-9.2-3.03M5.636 13.636a6.99 6.99 0 014.243-2.012m8.485 2.012a7 7 0 00-2.1-1.43M8.464 16.464a3 3 0 014.242 0M12 20h.01" />
+      </svg>
+      <h2 className="mt-4 text-lg font-semibold">{t('offline.title')}</h2>
+      <p className="mt-2 text-sm text-slate-400">{t('offline.body')}</p>
+
+      {sessions.length > 0 && (
+        <div className="mt-6 text-left">
+          <h3 className="text-xs uppercase tracking-wide text-slate-400">{t('offline.saved')}</h3>
+          <ul className="mt-2 space-y-1">
+            {sessions.slice(0, RECENT_SESSIONS).map(session => (
+              <li key={session.id}>
+                <button
+                  onClick={() => onOpen(session)}
+                  className="w-full px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 border border-slate-700 text-left"
+                >
+                  <span className="block text-sm truncate">{sessionTitle(session, i18n)}</span>
+                  <span className="block text-xs text-slate-400">{i18n.plural('history.messageCount', session.messages.length)}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          {sessions.length > RECENT_SESSIONS && (
+            <button onClick={onShowAll} className="mt-2 text-sm text-emerald-400 hover:text-emerald-300">
+              {t('offline.showAll')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OfflineScreen;
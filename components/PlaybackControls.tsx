@@ -0,0 +1,95 @@
+import React from 'react';
+import { PlaybackState } from '../types';
+import { shortcutKeys } from '../utils/shortcuts';
+import { TextKey } from '../i18n/translator';
+import { useI18n } from '../i18n/I18nProvider';
+
+const STATE_LABELS: Record<PlaybackState, TextKey> = {
+  idle: 'playback.idle',
+  thinking: 'playback.thinking',
+  speaking: 'playback.speaking',
+  paused: 'playback.paused',
+};
+
+const RATE_OPTIONS = [0.75, 1, 1.25, 1.5];
+
+interface PlaybackControlsProps {
+  state: PlaybackState;
+  volume: number;
+  rate: number;
+  onVolumeChange: (volume: number) => void;
+  onRateChange: (rate: number) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onSkip: () => void;
+}
+
+const iconButtonClass = 'p-1.5 rounded-md text-slate-300 hover:text-white hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent';
+
+/** Bondhu's playback state with pause, skip, volume and speed controls. */
+const PlaybackControls: React.FC<PlaybackControlsProps> = ({
+  state,
+  volume,
+  rate,
+  onVolumeChange,
+  onRateChange,
+  onPause,
+  onResume,
+  onSkip,
+}) => {
+  const { t, formatNumber } = useI18n();
+  return (
+    <div className="flex items-center gap-3 px-3 py-1.5 rounded-full bg-slate-800/90 border border-slate-700 text-xs">
+      <span className={`w-16 font-bengali ${state === 'thinking' ? 'text-amber-300 animate-pulse' : state === 'speaking' ? 'text-emerald-300' : 'text-slate-400'}`}>
+        {t(STATE_LABELS[state])}
+      </span>
+
+      {state === 'paused' ? (
+        <button onClick={onResume} className={iconButtonClass} aria-label={t('playback.resume')}>
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M8 5v14l11-7z" />
+          </svg>
+        </button>
+      ) : (
+        <button onClick={onPause} className={iconButtonClass} aria-label={t('playback.pause')}>
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M6 5h4v14H6zM14 5h4v14h-4z" />
+          </svg>
+        </button>
+      )}
+      <button
+        onClick={onSkip}
+        disabled={state === 'idle' || state === 'paused'}
+        className={iconButtonClass}
+        aria-label={t('playback.skip')}
+        aria-keyshortcuts={shortcutKeys('stopSpeaking')}
+        title={`${t('playback.skip')} (${shortcutKeys('stopSpeaking')})`}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="currentColor" viewBox="0 0 24 24">
+          <path d="M5 5v14l9-7zM16 5h3v14h-3z" />
+        </svg>
+      </button>
+
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.05}
+        value={volume}
+        onChange={e => onVolumeChange(Number(e.target.value))}
+        className="w-20 accent-emerald-500"
+        aria-label={t('playback.volume')}
+      />
+      <select
+        value={rate}
+        onChange={e => onRateChange(Number(e.target.value))}
+        className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 focus:outline-none focus:border-emerald-500"
+        aria-label={t('playback.speed')}
+      >
+        {RATE_OPTIONS.map(option => <option key={option} value={option}>{formatNumber(option)}×</option>)}
+      </select>
+    </div>
+  );
+};
+
+export default PlaybackControls;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Message } from '../types';
+import { SessionRecorder } from '../utils/sessionRecorder';
+import { messagesToCues, toPlainText, toSrt, toTranscriptJson, toWebVtt } from '../utils/subtitles';
+import { downloadFile, fileStamp } from '../utils/download';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface RecordingExportProps {
+  recording: SessionRecorder;
+  /** Transcript of the recorded conversation. */
+  messages: Message[];
+  onDismiss: () => void;
+}
+
+const formatDuration = (seconds: number, formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string) =>
+  `${formatNumber(Math.floor(seconds / 60))}:${formatNumber(Math.floor(seconds % 60), { minimumIntegerDigits: 2 })}`;
+
+const RecordingExport: React.FC<RecordingExportProps> = ({ recording, messages, onDismiss }) => {
+  const { t, formatNumber } = useI18n();
+  const base = fileStamp(recording.startedAt);
+  const cues = () => messagesToCues(messages, recording.startedAt);
+
+  const exports = [
+    { label: 'WAV', run: () => downloadFile(recording.toWav(), `${base}.wav`, 'audio/wav') },
+    {
+      label: 'JSON',
+      run: () => downloadFile(
+        toTranscriptJson(messages, { startedAt: recording.startedAt, durationSeconds: recording.durationSeconds }),
+        `${base}.json`,
+        'application/json',
+      ),
+    },
+    { label: 'SRT', run: () => downloadFile(toSrt(cues()), `${base}.srt`, 'application/x-subrip') },
+    { label: 'VTT', run: () => downloadFile(toWebVtt(cues()), `${base}.vtt`, 'text/vtt') },
+    { label: 'TXT', run: () => downloadFile(toPlainText(messages), `${base}.txt`, 'text/plain;charset=utf-8') },
+  ];
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-2 rounded-2xl bg-slate-800/95 border border-slate-700 shadow-xl text-sm">
+      <span className="font-bengali text-slate-300">
+        {t('recording.label', { duration: formatDuration(recording.durationSeconds, formatNumber) })}
+      </span>
+      <div className="flex gap-1">
+        {exports.map(({ label, run }) => (
+          <button
+            key={label}
+            onClick={run}
+            className="px-2 py-1 rounded-md bg-slate-700 hover:bg-emerald-600 text-xs font-mono"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <button onClick={onDismiss} className="text-slate-400 hover:text-white" aria-label={t('recording.dismiss')}>
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  );
+};
+
+export default RecordingExport;
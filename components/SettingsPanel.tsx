@@ -0,0 +1,522 @@
+import React, { useId, useState } from 'react';
+import { ConversationMode, Formality, InputMode, LiveSessionConfig, PersonaPreset, ResponseLanguage, VisualizerMode } from '../types';
+import { BUILTIN_PRESETS, MODELS, VOICES } from '../utils/persona';
+import { ENROLLMENT_SAMPLES } from '../utils/wakeWord';
+import { SHORTCUT_ACTIONS, shortcutKeys } from '../utils/shortcuts';
+import InputLevelMeter from './InputLevelMeter';
+import { LanguagePairControl } from './InterpreterControls';
+import { useDialogFocus } from '../hooks/useDialogFocus';
+import { LOCALES, TextKey } from '../i18n/translator';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface SettingsPanelProps {
+  settings: LiveSessionConfig;
+  onChange: (update: Partial<LiveSessionConfig>) => void;
+  onClose: () => void;
+  /** Shows a note that changes apply from the next connection. */
+  isSessionActive: boolean;
+  inputDevices: MediaDeviceInfo[];
+  /** Live microphone signal for the level meter, while a conversation runs. */
+  inputAnalyser: AnalyserNode | null;
+  /** Stored recordings of the hands-free wake phrase. */
+  wakeWordSamples: number;
+  isRecordingWakeWord: boolean;
+  /** Records one more sample; resolves false if nothing usable was heard. */
+  onRecordWakeWord: () => Promise<boolean>;
+  onClearWakeWord: () => void;
+}
+
+const PROCESSING_OPTIONS: ('echoCancellation' | 'noiseSuppression' | 'autoGainControl')[] = [
+  'echoCancellation',
+  'noiseSuppression',
+  'autoGainControl',
+];
+
+const CONVERSATION_MODE_OPTIONS: { value: ConversationMode; label: TextKey }[] = [
+  { value: 'companion', label: 'settings.conversationMode.companion' },
+  { value: 'interpreter', label: 'settings.conversationMode.interpreter' },
+];
+
+const LANGUAGE_OPTIONS: { value: ResponseLanguage; label: TextKey }[] = [
+  { value: 'bangla', label: 'settings.responseLanguage.bangla' },
+  { value: 'banglish', label: 'settings.responseLanguage.banglish' },
+  { value: 'code-switch', label: 'settings.responseLanguage.code-switch' },
+];
+
+// The pronouns themselves, so they read the same in every UI language
+const FORMALITY_OPTIONS: { value: Formality; label: string }[] = [
+  { value: 'apni', label: 'আপনি' },
+  { value: 'tumi', label: 'তুমি' },
+];
+
+const CAMERA_FACING_OPTIONS: { value: LiveSessionConfig['cameraFacing']; label: TextKey }[] = [
+  { value: 'environment', label: 'settings.cameraFacing.environment' },
+  { value: 'user', label: 'settings.cameraFacing.user' },
+];
+
+const CAMERA_FRAME_RATES = [0.5, 1, 2];
+
+const VISUALIZER_OPTIONS: { value: VisualizerMode; label: TextKey }[] = [
+  { value: 'dual-ring', label: 'settings.visualizer.dual-ring' },
+  { value: 'radial', label: 'settings.visualizer.radial' },
+  { value: 'waveform', label: 'settings.visualizer.waveform' },
+];
+
+const INPUT_MODE_OPTIONS: { value: InputMode; label: TextKey }[] = [
+  { value: 'continuous', label: 'inputMode.continuous' },
+  { value: 'push-to-talk', label: 'inputMode.push-to-talk' },
+  { value: 'vad', label: 'inputMode.vad' },
+];
+
+const selectClass = 'w-full px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-sm focus:outline-none focus:border-emerald-500';
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="space-y-2">
+    <h3 className="text-xs uppercase tracking-wide text-slate-400 font-bengali">{title}</h3>
+    {children}
+  </section>
+);
+
+const SegmentedControl = <T extends string>({
+  value,
+  options,
+  onChange,
+}: {
+  value: T;
+  options: { value: T; label: string }[];
+  onChange: (value: T) => void;
+}) => (
+  <div className="flex rounded-lg bg-slate-800 border border-slate-700 p-1">
+    {options.map(option => (
+      <button
+        key={option.value}
+        onClick={() => onChange(option.value)}
+        className={`flex-1 px-2 py-1.5 rounded-md text-sm font-bengali ${
+          value === option.value ? 'bg-emerald-600 text-white' : 'text-slate-300 hover:text-white'
+        }`}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  settings,
+  onChange,
+  onClose,
+  isSessionActive,
+  inputDevices,
+  inputAnalyser,
+  wakeWordSamples,
+  isRecordingWakeWord,
+  onRecordWakeWord,
+  onClearWakeWord,
+}) => {
+  const { t, locale, setLocale, formatNumber } = useI18n();
+  const dialog = useDialogFocus<HTMLElement>(onClose);
+  const titleId = useId();
+  const translated = <T extends string>(options: { value: T; label: TextKey }[]) =>
+    options.map(option => ({ ...option, label: t(option.label) }));
+  // Preset being created or edited; null when the editor is closed
+  const [draft, setDraft] = useState<PersonaPreset | null>(null);
+  const [wakeWordMissed, setWakeWordMissed] = useState(false);
+  const wakeWordEnrolled = wakeWordSamples >= ENROLLMENT_SAMPLES;
+  const customPresets = settings.customPresets;
+  const selectedCustom = customPresets.find(p => p.id === settings.presetId);
+
+  const saveDraft = () => {
+    if (!draft || !draft.name.trim() || !draft.instruction.trim()) return;
+    const exists = customPresets.some(p => p.id === draft.id);
+    onChange({
+      customPresets: exists
+        ? customPresets.map(p => (p.id === draft.id ? draft : p))
+        : [...customPresets, draft],
+      presetId: draft.id,
+    });
+    setDraft(null);
+  };
+
+  const recordWakeWord = async () => {
+    setWakeWordMissed(false);
+    setWakeWordMissed(!(await onRecordWakeWord()));
+  };
+
+  const deletePreset = (id: string) => {
+    onChange({
+      customPresets: customPresets.filter(p => p.id !== id),
+      presetId: settings.presetId === id ? BUILTIN_PRESETS[0].id : settings.presetId,
+    });
+  };
+
+  return (
+    <div className="absolute inset-0 z-40 bg-slate-950/60 flex justify-end" onClick={onClose}>
+      <aside
+        {...dialog}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        className="w-96 max-w-full h-full bg-slate-900 border-l border-slate-700 flex flex-col focus:outline-none"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-4 flex items-center justify-between border-b border-slate-700">
+          <h2 id={titleId} className="font-bold font-bengali">{t('settings.title')}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white" aria-label={t('settings.close')}>
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          {isSessionActive && (
+            <p className="text-xs text-amber-300 bg-amber-900/20 border border-amber-500/20 rounded-lg px-3 py-2 font-bengali">
+              {t('settings.activeNote')}
+            </p>
+          )}
+
+          <Section title={t('settings.appLanguage')}>
+            <SegmentedControl value={locale} options={LOCALES} onChange={setLocale} />
+          </Section>
+
+          <Section title={t('settings.conversationMode')}>
+            <SegmentedControl
+              value={settings.conversationMode}
+              options={translated(CONVERSATION_MODE_OPTIONS)}
+              onChange={conversationMode => onChange({ conversationMode })}
+            />
+            {settings.conversationMode === 'interpreter' && (
+              <>
+                <LanguagePairControl settings={settings} onChange={onChange} />
+                <p className="text-xs text-slate-400">{t('settings.interpreterHint')}</p>
+              </>
+            )}
+          </Section>
+
+          <Section title={t('settings.persona')}>
+            <select
+              value={settings.presetId}
+              onChange={e => onChange({ presetId: e.target.value })}
+              className={`${selectClass} font-bengali`}
+            >
+              {[...BUILTIN_PRESETS, ...customPresets].map(preset => (
+                <option key={preset.id} value={preset.id}>{preset.name}</option>
+              ))}
+            </select>
+            <div className="flex gap-3 text-xs">
+              <button
+                onClick={() => setDraft({ id: `custom-${Date.now()}`, name: '', instruction: '' })}
+                className="text-emerald-400 hover:text-emerald-300"
+              >
+                {t('settings.newPreset')}
+              </button>
+              {selectedCustom && (
+                <>
+                  <button onClick={() => setDraft(selectedCustom)} className="text-slate-300 hover:text-white">{t('settings.edit')}</button>
+                  <button onClick={() => deletePreset(selectedCustom.id)} className="text-red-400 hover:text-red-300">{t('settings.delete')}</button>
+                </>
+              )}
+            </div>
+            {draft && (
+              <div className="space-y-2 p-3 rounded-lg bg-slate-800/60 border border-slate-700">
+                <input
+                  value={draft.name}
+                  onChange={e => setDraft({ ...draft, name: e.target.value })}
+                  placeholder={t('settings.presetName')}
+                  className={`${selectClass} font-bengali`}
+                />
+                <textarea
+                  value={draft.instruction}
+                  onChange={e => setDraft({ ...draft, instruction: e.target.value })}
+                  placeholder={t('settings.presetInstruction')}
+                  rows={5}
+                  className={`${selectClass} font-bengali`}
+                />
+                <div className="flex justify-end gap-2 text-sm">
+                  <button onClick={() => setDraft(null)} className="px-3 py-1 text-slate-300 hover:text-white">{t('settings.cancel')}</button>
+                  <button onClick={saveDraft} className="px-3 py-1 rounded-md bg-emerald-600 hover:bg-emerald-500">{t('settings.save')}</button>
+                </div>
+              </div>
+            )}
+          </Section>
+
+          <Section title={t('settings.responseLanguage')}>
+            <SegmentedControl
+              value={settings.responseLanguage}
+              options={translated(LANGUAGE_OPTIONS)}
+              onChange={responseLanguage => onChange({ responseLanguage })}
+            />
+          </Section>
+
+          <Section title={t('settings.formality')}>
+            <SegmentedControl
+              value={settings.formality}
+              options={FORMALITY_OPTIONS}
+              onChange={formality => onChange({ formality })}
+            />
+          </Section>
+
+          <Section title={t('settings.microphone')}>
+            <select
+              value={settings.inputDeviceId}
+              onChange={e => onChange({ inputDeviceId: e.target.value })}
+              className={selectClass}
+            >
+              <option value="">{t('settings.defaultMicrophone')}</option>
+              {inputDevices.map((device, i) => (
+                <option key={device.deviceId} value={device.deviceId}>
+                  {device.label || t('settings.microphoneN', { n: i + 1 })}
+                </option>
+              ))}
+            </select>
+            {isSessionActive && <InputLevelMeter analyser={inputAnalyser} className="w-full" />}
+            <div className="space-y-1 pt-1">
+              {PROCESSING_OPTIONS.map(key => (
+                <label key={key} className="flex items-center gap-3 text-sm text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={settings[key]}
+                    onChange={e => onChange({ [key]: e.target.checked })}
+                    className="accent-emerald-500"
+                  />
+                  {t(`settings.${key}`)}
+                </label>
+              ))}
+            </div>
+          </Section>
+
+          <Section title={t('settings.inputMode')}>
+            <SegmentedControl
+              value={settings.inputMode}
+              options={translated(INPUT_MODE_OPTIONS)}
+              onChange={inputMode => onChange({ inputMode })}
+            />
+            {settings.inputMode === 'push-to-talk' && (
+              <p className="text-xs text-slate-400">{t('settings.pushToTalkHint')}</p>
+            )}
+            {settings.inputMode === 'vad' && (
+              <div className="space-y-3 pt-1">
+                <label className="block text-xs text-slate-400">
+                  {t('settings.vadSensitivity', { percent: Math.round(settings.vadSensitivity * 100) })}
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={settings.vadSensitivity}
+                    onChange={e => onChange({ vadSensitivity: Number(e.target.value) })}
+                    className="w-full accent-emerald-500"
+                  />
+                </label>
+                <label className="block text-xs text-slate-400">
+                  {t('settings.vadHangover', { ms: settings.vadHangoverMs })}
+                  <input
+                    type="range"
+                    min={200}
+                    max={2000}
+                    step={100}
+                    value={settings.vadHangoverMs}
+                    onChange={e => onChange({ vadHangoverMs: Number(e.target.value) })}
+                    className="w-full accent-emerald-500"
+                  />
+                </label>
+              </div>
+            )}
+          </Section>
+
+          <Section title={t('settings.bargeIn')}>
+            <label className="flex items-start gap-3 text-sm">
+              <input
+                type="checkbox"
+                checked={settings.localBargeIn}
+                onChange={e => onChange({ localBargeIn: e.target.checked })}
+                className="mt-1 accent-emerald-500"
+              />
+              <span className="text-slate-300">{t('settings.bargeInHint')}</span>
+            </label>
+          </Section>
+
+          <Section title={t('settings.handsFree')}>
+            <label className="flex items-start gap-3 text-sm">
+              <input
+                type="checkbox"
+                checked={settings.handsFree && wakeWordEnrolled}
+                disabled={!wakeWordEnrolled}
+                onChange={e => onChange({ handsFree: e.target.checked })}
+                className="mt-1 accent-emerald-500"
+              />
+              <span className="text-slate-300">{t('settings.handsFreeHint')}</span>
+            </label>
+            <div className="flex items-center gap-3 text-sm">
+              <button
+                onClick={recordWakeWord}
+                disabled={isRecordingWakeWord || isSessionActive}
+                className={`px-3 py-1.5 rounded-md border border-slate-700 font-bengali disabled:opacity-60 ${
+                  isRecordingWakeWord ? 'bg-red-900/30 text-red-200 animate-pulse' : 'bg-slate-800 hover:bg-slate-700'
+                }`}
+              >
+                {isRecordingWakeWord ? t('settings.wakeWord.recording') : t('settings.wakeWord.record')}
+              </button>
+              <span className="text-xs text-slate-400">
+                {t('settings.wakeWord.samples', { count: wakeWordSamples, total: ENROLLMENT_SAMPLES })}
+              </span>
+              {wakeWordSamples > 0 && (
+                <button onClick={onClearWakeWord} className="text-xs text-red-400 hover:text-red-300">{t('settings.wakeWord.clear')}</button>
+              )}
+            </div>
+            {wakeWordMissed && <p className="text-xs text-amber-300">{t('settings.wakeWord.notHeard')}</p>}
+            <p className="text-xs text-slate-400">{t('settings.wakeWord.hint')}</p>
+            {settings.handsFree && wakeWordEnrolled && (
+              <div className="space-y-3 pt-1">
+                <label className="block text-xs text-slate-400">
+                  {t('settings.handsFreeIdle', { seconds: settings.handsFreeIdleSeconds })}
+                  <input
+                    type="range"
+                    min={15}
+                    max={300}
+                    step={15}
+                    value={settings.handsFreeIdleSeconds}
+                    onChange={e => onChange({ handsFreeIdleSeconds: Number(e.target.value) })}
+                    className="w-full accent-emerald-500"
+                  />
+                </label>
+                <label className="block text-xs text-slate-400">
+                  {t('settings.wakeWordSensitivity', { percent: Math.round(settings.wakeWordSensitivity * 100) })}
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={settings.wakeWordSensitivity}
+                    onChange={e => onChange({ wakeWordSensitivity: Number(e.target.value) })}
+                    className="w-full accent-emerald-500"
+                  />
+                </label>
+              </div>
+            )}
+          </Section>
+
+          <Section title={t('settings.searchGrounding')}>
+            <label className="flex items-start gap-3 text-sm">
+              <input
+                type="checkbox"
+                checked={settings.searchGrounding}
+                onChange={e => onChange({ searchGrounding: e.target.checked })}
+                className="mt-1 accent-emerald-500"
+              />
+              <span className="text-slate-300">{t('settings.searchGroundingHint')}</span>
+            </label>
+          </Section>
+
+          <Section title={t('settings.summarize')}>
+            <label className="flex items-start gap-3 text-sm">
+              <input
+                type="checkbox"
+                checked={settings.summarizeSessions}
+                onChange={e => onChange({ summarizeSessions: e.target.checked })}
+                className="mt-1 accent-emerald-500"
+              />
+              <span className="text-slate-300">{t('settings.summarizeHint')}</span>
+            </label>
+          </Section>
+
+          <Section title={t('settings.textOnly')}>
+            <label className="flex items-start gap-3 text-sm">
+              <input
+                type="checkbox"
+                checked={settings.textOnly}
+                onChange={e => onChange({ textOnly: e.target.checked })}
+                className="mt-1 accent-emerald-500"
+              />
+              <span className="text-slate-300">{t('settings.textOnlyHint')}</span>
+            </label>
+          </Section>
+
+          <Section title={t('settings.camera')}>
+            <SegmentedControl
+              value={settings.cameraFacing}
+              options={translated(CAMERA_FACING_OPTIONS)}
+              onChange={cameraFacing => onChange({ cameraFacing })}
+            />
+            <label className="flex items-center justify-between gap-3 text-sm text-slate-300">
+              {t('settings.cameraFrameRate')}
+              <select
+                value={settings.cameraFrameRate}
+                onChange={e => onChange({ cameraFrameRate: Number(e.target.value) })}
+                className="w-24 px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-sm focus:outline-none focus:border-emerald-500"
+              >
+                {CAMERA_FRAME_RATES.map(rate => <option key={rate} value={rate}>{formatNumber(rate)}</option>)}
+              </select>
+            </label>
+            <p className="text-xs text-slate-400">{t('settings.cameraHint')}</p>
+          </Section>
+
+          <Section title={t('settings.visualizer')}>
+            <SegmentedControl
+              value={settings.visualizerMode}
+              options={translated(VISUALIZER_OPTIONS)}
+              onChange={visualizerMode => onChange({ visualizerMode })}
+            />
+            {settings.visualizerMode === 'dual-ring' && (
+              <p className="text-xs text-slate-400">{t('settings.visualizerHint')}</p>
+            )}
+          </Section>
+
+          <Section title={t('settings.accessibility')}>
+            <label className="flex items-start gap-3 text-sm">
+              <input
+                type="checkbox"
+                checked={settings.captions}
+                onChange={e => onChange({ captions: e.target.checked })}
+                className="mt-1 accent-emerald-500"
+              />
+              <span className="text-slate-300">{t('settings.captions')}</span>
+            </label>
+            <label className="flex items-start gap-3 text-sm">
+              <input
+                type="checkbox"
+                checked={settings.announceReplies}
+                onChange={e => onChange({ announceReplies: e.target.checked })}
+                className="mt-1 accent-emerald-500"
+              />
+              <span className="text-slate-300">{t('settings.announceReplies')}</span>
+            </label>
+            <h4 className="text-xs text-slate-400 pt-1">{t('settings.shortcuts')}</h4>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+              {SHORTCUT_ACTIONS.map(action => (
+                <React.Fragment key={action}>
+                  <dt><kbd className="font-mono text-slate-200">{shortcutKeys(action)}</kbd></dt>
+                  <dd className="text-slate-400">{t(`shortcut.${action}`)}</dd>
+                </React.Fragment>
+              ))}
+              <dt><kbd className="font-mono text-slate-200">Space</kbd></dt>
+              <dd className="text-slate-400">{t('shortcut.pushToTalk')}</dd>
+            </dl>
+          </Section>
+
+          <Section title={t('settings.voice')}>
+            <select
+              value={settings.voiceName}
+              onChange={e => onChange({ voiceName: e.target.value })}
+              className={selectClass}
+            >
+              {VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+            </select>
+          </Section>
+
+          <Section title={t('settings.model')}>
+            <select
+              value={settings.model}
+              onChange={e => onChange({ model: e.target.value })}
+              className={selectClass}
+            >
+              {MODELS.map(model => <option key={model.id} value={model.id}>{model.label}</option>)}
+            </select>
+          </Section>
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default SettingsPanel;
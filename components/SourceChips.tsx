@@ -0,0 +1,29 @@
+import React from 'react';
+import { GroundingSource } from '../types';
+import { useI18n } from '../i18n/I18nProvider';
+
+/** The pages a grounded answer cited, as links under its bubble. */
+const SourceChips: React.FC<{ sources: GroundingSource[] }> = ({ sources }) => {
+  const { t } = useI18n();
+  return (
+    <ul className="flex flex-wrap gap-1.5 mt-1.5 max-w-[80%]" aria-label={t('conversation.sources')}>
+      {sources.map((source, i) => (
+        <li key={source.uri}>
+          <a
+            href={source.uri}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={source.domain}
+            aria-label={t('conversation.openSource', { title: source.title })}
+            className="flex items-center gap-1.5 max-w-[14rem] px-2.5 py-1 rounded-full bg-slate-800/80 border border-slate-700 text-xs text-slate-300 hover:text-white hover:border-emerald-500/50"
+          >
+            <span className="shrink-0 text-emerald-400">{i + 1}</span>
+            <span className="truncate">{source.title}</span>
+          </a>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default SourceChips;
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { ActionItem, ActionItemKind } from '../types';
+import { StoredSession } from '../utils/historyStore';
+import { SummaryStatus } from '../hooks/useSessionSummaries';
+import { actionItemText, toIcsEvent, toPlainTextList } from '../utils/actionItems';
+import { downloadFile, fileStamp } from '../utils/download';
+import { TextKey } from '../i18n/translator';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface SummaryCardProps {
+  session: StoredSession;
+  status?: SummaryStatus;
+  onSummarize: () => void;
+}
+
+const KIND_LABELS: Record<ActionItemKind, TextKey> = {
+  reminder: 'summary.kind.reminder',
+  shopping: 'summary.kind.shopping',
+  phone: 'summary.kind.phone',
+  task: 'summary.kind.task',
+};
+
+const buttonClass = 'px-2 py-1 rounded-md bg-slate-700 hover:bg-emerald-600 text-xs';
+
+// Due dates are local wall-clock times
+const dueDate = (due: string) => {
+  const [date, time = '00:00'] = due.split('T');
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(year, month - 1, day, hours, minutes);
+};
+
+const ActionItemRow: React.FC<{ item: ActionItem; index: number; session: StoredSession }> = ({ item, index, session }) => {
+  const { t, formatDate, formatDateTime } = useI18n();
+  const [copied, setCopied] = useState(false);
+  const base = `${fileStamp(session.startedAt)}-${index + 1}`;
+
+  const copy = () => {
+    navigator.clipboard.writeText(actionItemText(item)).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }).catch(err => console.error('Copy failed', err));
+  };
+
+  return (
+    <li className="py-2 border-t border-slate-700/60 first:border-t-0">
+      <div className="flex items-baseline justify-between gap-2">
+        <span className="text-[11px] uppercase tracking-wide text-emerald-400">{t(KIND_LABELS[item.kind])}</span>
+        {item.due && (
+          <time dateTime={item.due} className="text-xs text-slate-400">
+            {item.due.includes('T') ? formatDateTime(dueDate(item.due)) : formatDate(dueDate(item.due))}
+          </time>
+        )}
+      </div>
+      {item.text && <p lang="bn" className="text-slate-100">{item.text}</p>}
+      {item.items && (
+        <ul lang="bn" className="ml-4 list-disc text-slate-200 text-sm">
+          {item.items.map((entry, i) => <li key={i}>{entry}</li>)}
+        </ul>
+      )}
+      {item.phone && <a href={`tel:${item.phone}`} className="text-sm font-mono text-sky-300 hover:underline">{item.phone}</a>}
+      <div className="flex flex-wrap gap-1 mt-1.5">
+        <button onClick={copy} className={buttonClass}>{copied ? t('summary.copied') : t('summary.copy')}</button>
+        <button
+          onClick={() => downloadFile(
+            toIcsEvent(item, { createdAt: session.summary?.generatedAt ?? new Date(), uid: `${session.id}-${index}` }),
+            `${base}.ics`,
+            'text/calendar;charset=utf-8',
+          )}
+          className={buttonClass}
+        >
+          {t('summary.addToCalendar')}
+        </button>
+        <button
+          onClick={() => downloadFile(actionItemText(item) + '\n', `${base}.txt`, 'text/plain;charset=utf-8')}
+          className={buttonClass}
+        >
+          {t('summary.saveText')}
+        </button>
+      </div>
+    </li>
+  );
+};
+
+/** The Bangla summary of a finished conversation and what the user has to do after it. */
+const SummaryCard: React.FC<SummaryCardProps> = ({ session, status, onSummarize }) => {
+  const { t } = useI18n();
+  const { summary } = session;
+  const pending = status === 'pending';
+
+  return (
+    <section className="px-4 py-3 rounded-2xl bg-slate-800/80 border border-slate-700 font-bengali text-sm" aria-label={t('summary.title')}>
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <h2 className="font-semibold text-emerald-300">{t('summary.title')}</h2>
+        <button
+          onClick={onSummarize}
+          disabled={pending}
+          className="text-xs text-emerald-400 hover:text-emerald-300 disabled:opacity-50"
+        >
+          {summary ? t('summary.regenerate') : t('summary.generate')}
+        </button>
+      </div>
+
+      {pending && <p className="text-slate-400 animate-pulse" role="status">{t('summary.pending')}</p>}
+      {status instanceof Error && <p className="text-red-300">{t('summary.failed', { reason: status.message })}</p>}
+
+      {summary && !pending && (
+        <>
+          <p lang="bn" className="text-base text-slate-100 leading-relaxed">{summary.summary}</p>
+          {summary.actionItems.length > 0 && (
+            <div className="mt-3">
+              <div className="flex items-center justify-between gap-2">
+                <h3 className="text-slate-300">{t('summary.actionItems')}</h3>
+                <button
+                  onClick={() => downloadFile(
+                    toPlainTextList(summary.actionItems),
+                    `${fileStamp(session.startedAt)}-todo.txt`,
+                    'text/plain;charset=utf-8',
+                  )}
+                  className={buttonClass}
+                >
+                  {t('summary.exportList')}
+                </button>
+              </div>
+              <ul>
+                {summary.actionItems.map((item, i) => (
+                  <ActionItemRow key={`${summary.generatedAt.getTime()}-${i}`} item={item} index={i} session={session} />
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default SummaryCard;
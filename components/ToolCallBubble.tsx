@@ -0,0 +1,39 @@
+import React from 'react';
+import { ToolCallMessage } from '../types';
+import { TextKey } from '../i18n/translator';
+import { useI18n } from '../i18n/I18nProvider';
+
+const STATUS_STYLES: Record<ToolCallMessage['status'], string> = {
+  running: 'text-amber-300 border-amber-500/30',
+  completed: 'text-sky-300 border-sky-500/30',
+  failed: 'text-red-300 border-red-500/30',
+  cancelled: 'text-slate-400 border-slate-600 line-through',
+};
+
+const STATUS_LABELS: Record<ToolCallMessage['status'], TextKey> = {
+  running: 'tool.running',
+  completed: 'tool.completed',
+  failed: 'tool.failed',
+  cancelled: 'tool.cancelled',
+};
+
+const formatArgs = (args: Record<string, unknown>) =>
+  Object.entries(args).map(([key, value]) => `${key}: ${JSON.stringify(value)}`).join(', ');
+
+const ToolCallBubble: React.FC<{ message: ToolCallMessage }> = ({ message }) => {
+  const { t } = useI18n();
+  return (
+    <div className={`px-3 py-2 rounded-xl text-xs font-mono bg-slate-800/60 border ${STATUS_STYLES[message.status]}`}>
+      <div className="flex items-center gap-2">
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.42 15.17L17.25 21A2.652 2.652 0 0021 17.25l-5.877-5.877M11.42 15.17l2.496-3.03c.317-.384.74-.626 1.208-.766M11.42 15.17l-4.655 5.653a2.548 2.548 0 11-3.586-3.586l6.837-5.63m5.108-.233c.55-.164 1.163-.188 1.743-.14a4.5 4.5 0 004.486-6.336l-3.276 3.277a3.004 3.004 0 01-2.25-2.25l3.276-3.276a4.5 4.5 0 00-6.336 4.486c.091 1.076-.071 2.264-.904 2.95l-.102.085" />
+        </svg>
+        <span>{message.name}({formatArgs(message.args)})</span>
+        <span className="font-bengali">{t(STATUS_LABELS[message.status])}</span>
+      </div>
+      {message.error && <div className="mt-1 text-red-300">{message.error}</div>}
+    </div>
+  );
+};
+
+export default ToolCallBubble;
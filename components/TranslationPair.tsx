@@ -0,0 +1,43 @@
+import React from 'react';
+import { InterpreterLanguage, TextMessage } from '../types';
+import { INTERPRETER_LANGUAGES } from '../utils/interpreter';
+import { useI18n } from '../i18n/I18nProvider';
+
+const LanguageTag: React.FC<{ language?: InterpreterLanguage }> = ({ language }) =>
+  language ? (
+    <span lang={language} className="block mb-1 text-[10px] uppercase tracking-wide opacity-60">
+      {INTERPRETER_LANGUAGES[language].nativeName}
+    </span>
+  ) : null;
+
+/** An interpreted turn: what was said and its translation, side by side. */
+const TranslationPair: React.FC<{ message: TextMessage }> = ({ message }) => {
+  const { t, formatTime } = useI18n();
+  const { translation } = message;
+  const cursor = message.isPartial && <span className="inline-block w-2 h-4 ml-1 bg-current opacity-50 animate-pulse">|</span>;
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <div className="px-4 py-3 rounded-2xl rounded-br-none bg-slate-700 text-slate-100 text-lg font-bengali leading-relaxed shadow-sm">
+        <LanguageTag language={message.language} />
+        <p lang={message.language}>{message.text}</p>
+        <time dateTime={message.timestamp.toISOString()} className="block mt-1 text-xs opacity-50">
+          {formatTime(message.timestamp)}
+        </time>
+      </div>
+      <div
+        className="px-4 py-3 rounded-2xl rounded-bl-none bg-emerald-600/20 text-emerald-100 border border-emerald-500/20 text-lg font-bengali leading-relaxed shadow-sm"
+        aria-label={t('interpreter.translation')}
+      >
+        <LanguageTag language={translation?.language} />
+        <p lang={translation?.language}>
+          {translation?.text}
+          {message.interrupted && <span className="opacity-60"> …</span>}
+          {cursor}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default TranslationPair;
@@ -0,0 +1,16 @@
+import { useState, useCallback } from 'react';
+
+export interface Announcement {
+  /** Changes with every announcement, so the same text can be read twice. */
+  id: number;
+  text: string;
+}
+
+/** Text for a LiveRegion to read out. */
+export const useAnnouncer = () => {
+  const [announcement, setAnnouncement] = useState<Announcement | null>(null);
+  const announce = useCallback((text: string) => {
+    setAnnouncement(current => ({ id: (current?.id ?? 0) + 1, text }));
+  }, []);
+  return { announcement, announce };
+};
@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from 'react';
+import { listInputDevices } from '../utils/microphone';
+
+/**
+ * Available microphones, kept current as devices are plugged in or removed.
+ * Browsers hide device labels until microphone access has been granted, so
+ * pass `hasPermission` to re-read them once a conversation has started.
+ */
+export const useAudioInputDevices = (hasPermission: boolean) => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  const refresh = useCallback(() => {
+    listInputDevices()
+      .then(setDevices)
+      .catch((err) => console.error('Failed to list microphones', err));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, hasPermission]);
+
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices?.addEventListener) return;
+    mediaDevices.addEventListener('devicechange', refresh);
+    return () => mediaDevices.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  return devices;
+};
@@ -0,0 +1,54 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, describe, expect, it } from 'vitest';
+import { useConversationHistory } from './useConversationHistory';
+import { deleteSession, listSessions } from '../utils/historyStore';
+import { TextMessage } from '../types';
+
+const turn = (id: string, text: string, isPartial: boolean): TextMessage => ({
+  id,
+  role: 'user',
+  text,
+  timestamp: new Date(1000),
+  isPartial,
+});
+
+afterEach(async () => {
+  const sessions = await listSessions();
+  await Promise.all(sessions.map(session => deleteSession(session.id)));
+});
+
+describe('useConversationHistory', () => {
+  it('records only finalized messages', async () => {
+    const { result } = renderHook(() => useConversationHistory());
+
+    act(() => {
+      result.current.startRecording();
+      result.current.record(turn('u1', 'আমি', true));
+      result.current.record(turn('u1', 'আমি ভালো আছি', false));
+      result.current.record(turn('u2', 'তুমি', true));
+      result.current.stopRecording();
+    });
+
+    await waitFor(() => expect(result.current.sessions[0]?.endedAt).toBeDefined());
+    expect(result.current.sessions).toHaveLength(1);
+    expect(result.current.sessions[0].messages).toEqual([expect.objectContaining({ id: 'u1', text: 'আমি ভালো আছি' })]);
+  });
+
+  it('does not keep a session where nothing was finalized', async () => {
+    const { result } = renderHook(() => useConversationHistory());
+
+    act(() => {
+      result.current.startRecording();
+      result.current.record(turn('u1', 'আমি', true));
+    });
+    await waitFor(() => expect(result.current.sessions).toHaveLength(1));
+
+    act(() => {
+      result.current.stopRecording();
+    });
+    await waitFor(() => expect(result.current.sessions).toHaveLength(0));
+    expect(await listSessions()).toEqual([]);
+  });
+});
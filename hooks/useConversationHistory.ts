@@ -0,0 +1,91 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { Message, SessionSummary } from '../types';
+import {
+  StoredSession,
+  appendMessage,
+  createSession,
+  deleteSession,
+  endSession,
+  listSessions,
+  renameSession,
+  saveSummary,
+} from '../utils/historyStore';
+
+const reportError = (err: unknown) => console.error('History store error', err);
+
+/**
+ * Records finalized transcript messages of live sessions into IndexedDB and
+ * exposes the stored sessions for browsing.
+ */
+export const useConversationHistory = () => {
+  const [sessions, setSessions] = useState<StoredSession[]>([]);
+  // Resolves to the id of the session being recorded, if any
+  const activeSessionRef = useRef<Promise<string | null> | null>(null);
+
+  const refresh = useCallback(() => listSessions().then(setSessions).catch(reportError), []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const startRecording = useCallback(() => {
+    activeSessionRef.current = createSession()
+      .then(session => {
+        refresh();
+        return session.id;
+      })
+      .catch(err => {
+        reportError(err);
+        return null;
+      });
+  }, [refresh]);
+
+  const record = useCallback((message: Message) => {
+    if (message.isPartial || !activeSessionRef.current) return;
+    // Chain onto the active promise so writes land in arrival order
+    activeSessionRef.current = activeSessionRef.current.then(async id => {
+      if (id) await appendMessage(id, message).catch(reportError);
+      return id;
+    });
+  }, []);
+
+  /** Resolves to the session that was kept, if anything was said in it. */
+  const stopRecording = useCallback((): Promise<StoredSession | null> => {
+    const active = activeSessionRef.current;
+    activeSessionRef.current = null;
+    if (!active) return Promise.resolve(null);
+    return active.then(async id => {
+      if (!id) return null;
+      const session = await endSession(id);
+      // Don't keep sessions where nothing was said
+      if (session.messages.length > 0) return session;
+      await deleteSession(id);
+      return null;
+    }).catch(err => {
+      reportError(err);
+      return null;
+    }).finally(refresh);
+  }, [refresh]);
+
+  const rename = useCallback((id: string, title: string) => {
+    renameSession(id, title).catch(reportError).finally(refresh);
+  }, [refresh]);
+
+  /** Resolves once the session list shows the summary. */
+  const attachSummary = useCallback((id: string, summary: SessionSummary) =>
+    saveSummary(id, summary).catch(reportError).then(refresh), [refresh]);
+
+  const remove = useCallback((id: string) => {
+    deleteSession(id).catch(reportError).finally(refresh);
+  }, [refresh]);
+
+  return {
+    sessions,
+    startRecording,
+    record,
+    stopRecording,
+    rename,
+    attachSummary,
+    remove,
+  };
+};
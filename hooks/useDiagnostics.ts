@@ -0,0 +1,21 @@
+import { useCallback, useMemo, useState } from 'react';
+import { DiagnosticsEvent } from '../types';
+import { summarizeDiagnostics } from '../utils/diagnostics';
+
+// Plenty for a bug report without growing for the lifetime of the tab
+const MAX_EVENTS = 500;
+
+/** Diagnostics events from every conversation since the page loaded. Not persisted. */
+export const useDiagnostics = () => {
+  const [events, setEvents] = useState<DiagnosticsEvent[]>([]);
+
+  const record = useCallback((event: DiagnosticsEvent) => {
+    setEvents(prev => [...prev.slice(-(MAX_EVENTS - 1)), event]);
+  }, []);
+
+  const clear = useCallback(() => setEvents([]), []);
+
+  const summary = useMemo(() => summarizeDiagnostics(events), [events]);
+
+  return { events, summary, record, clear };
+};
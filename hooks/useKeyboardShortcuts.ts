@@ -0,0 +1,21 @@
+import { useEffect, useRef } from 'react';
+import { ShortcutAction, matchShortcut } from '../utils/shortcuts';
+
+/** Runs the handler for each app shortcut pressed anywhere on the page; actions without one are left alone. */
+export const useKeyboardShortcuts = (handlers: Partial<Record<ShortcutAction, () => void>>) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const action = matchShortcut(e);
+      const handler = action && handlersRef.current[action];
+      if (!handler) return;
+      // Also keeps Option+Shift from typing a character on a Mac
+      e.preventDefault();
+      handler();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+};
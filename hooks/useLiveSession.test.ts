@@ -0,0 +1,753 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { Modality } from '@google/genai';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useLiveSession } from './useLiveSession';
+import { AudioTap, DiagnosticsEvent, LiveSessionConfig, Message, TextMessage, ToolCallMessage, ToolDefinition } from '../types';
+import { DEFAULT_SESSION_CONFIG } from '../utils/persona';
+import { transcriptReducer } from '../utils/transcriptReducer';
+import { floatTo16BitPCM } from '../utils/audioUtils';
+import { MicrophoneError } from '../utils/microphone';
+import { LiveSessionError } from '../utils/sessionErrors';
+import { createMemory } from '../utils/memoryStore';
+import { loadImageFile } from '../utils/camera';
+import { FakeLiveTransport, settle } from '../testing/fakeLiveTransport';
+import { installFakeWebAudio } from '../testing/fakeWebAudio';
+import {
+  BARGE_IN,
+  GREETING_EXCHANGE,
+  GROUNDED_ANSWER,
+  LATE_INPUT_TRANSCRIPTION,
+  TOOL_CALL_EXCHANGE,
+  goAway,
+  inputTranscription,
+  modelAudio,
+  modelText,
+  outputTranscription,
+  resumptionUpdate,
+  toolCall,
+  toolCallCancellation,
+  tonePcm,
+  turnComplete,
+  usage,
+} from '../testing/liveMessages';
+
+// jsdom can't decode or draw images
+vi.mock('../utils/camera', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../utils/camera')>(),
+  loadImageFile: vi.fn(),
+}));
+
+const TEXT_ONLY_CONFIG: LiveSessionConfig = { ...DEFAULT_SESSION_CONFIG, textOnly: true };
+const INTERPRETER_CONFIG: LiveSessionConfig = { ...DEFAULT_SESSION_CONFIG, conversationMode: 'interpreter' };
+const FAST_RECONNECT = { maxAttempts: 2, baseDelayMs: 50, maxDelayMs: 50 };
+
+type HookProps = Parameters<typeof useLiveSession>[0];
+
+let audio: ReturnType<typeof installFakeWebAudio>;
+
+beforeEach(() => {
+  audio = installFakeWebAudio();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const setup = (props: Partial<HookProps> = {}) => {
+  const transport = new FakeLiveTransport();
+  let transcript: Message[] = [];
+  const onMessage = vi.fn((message: Message) => {
+    transcript = transcriptReducer(transcript, { type: 'upsert', message });
+  });
+  const onConnect = vi.fn();
+  const onDisconnect = vi.fn();
+  const onError = vi.fn();
+  const hook = renderHook((overrides: Partial<HookProps>) => useLiveSession({
+    onMessage,
+    onConnect,
+    onDisconnect,
+    onError,
+    transport,
+    inputChunkSize: 1600,
+    ...overrides,
+  }), { initialProps: props });
+
+  const connect = async () => {
+    await act(async () => {
+      await hook.result.current.connect();
+      await settle();
+    });
+  };
+
+  return {
+    transport,
+    hook,
+    onMessage,
+    onConnect,
+    onDisconnect,
+    onError,
+    connect,
+    transcript: () => transcript,
+    /** Final text turns as [role, text] pairs. */
+    turns: () => transcript
+      .filter((m): m is TextMessage => m.role !== 'tool')
+      .map(m => [m.role, m.text]),
+  };
+};
+
+describe('useLiveSession', () => {
+  describe('connecting', () => {
+    it('opens an audio session with the configured persona and tools', async () => {
+      const { transport, hook, onConnect, connect } = setup();
+      await connect();
+
+      expect(hook.result.current.connectionState).toBe('open');
+      expect(onConnect).toHaveBeenCalledTimes(1);
+      const { config, model } = transport.current.params;
+      expect(model).toBe(DEFAULT_SESSION_CONFIG.model);
+      expect(config?.responseModalities).toEqual([Modality.AUDIO]);
+      expect(config?.systemInstruction).toContain('Bondhu');
+      expect(config?.tools).toEqual([{ functionDeclarations: expect.arrayContaining([expect.objectContaining({ name: 'convert_units' })]) }]);
+      expect(audio.streams).toHaveLength(1);
+    });
+
+    it('adds remembered facts to the system instruction', async () => {
+      const memories = [createMemory('Lives in Chattogram', 'user'), createMemory('Is vegetarian', 'model')];
+      const { transport, connect } = setup({ memories });
+      await connect();
+
+      const instruction = String(transport.current.params.config?.systemInstruction);
+      expect(instruction).toContain('- Lives in Chattogram');
+      expect(instruction).toContain('- Is vegetarian');
+    });
+
+    it('streams microphone PCM to the session in fixed-size chunks', async () => {
+      const { transport, connect } = setup();
+      await connect();
+
+      const speech = Float32Array.from({ length: 3200 }, (_, i) => Math.sin(i / 10) * 0.5);
+      await act(async () => {
+        audio.speak(speech);
+        await settle();
+      });
+
+      const session = transport.current;
+      expect(session.realtimeInputs).toHaveLength(2);
+      expect(session.realtimeInputs[0].media?.mimeType).toBe('audio/pcm;rate=16000');
+      expect(session.receivedAudio()).toEqual(floatTo16BitPCM(speech));
+    });
+
+    it('reports a failed handshake and gives up', async () => {
+      const { transport, hook, onError, onDisconnect, connect } = setup();
+      transport.failNextConnect(new Error('bad key'));
+      await connect();
+
+      expect(onError).toHaveBeenCalledWith(new LiveSessionError('connect-failed', 'bad key'));
+      expect(onError.mock.calls[0][0].kind).toBe('connect-failed');
+      expect(hook.result.current.connectionState).toBe('failed');
+      expect(onDisconnect).not.toHaveBeenCalled();
+      expect(audio.streams[0].getTracks()[0].readyState).toBe('ended');
+    });
+  });
+
+  describe('microphone', () => {
+    it('opens the configured device with the requested processing', async () => {
+      const config = { ...DEFAULT_SESSION_CONFIG, inputDeviceId: 'usb-mic', noiseSuppression: false };
+      const { connect } = setup({ config });
+      await connect();
+
+      expect(audio.streams[0].constraints.audio).toMatchObject({
+        deviceId: { exact: 'usb-mic' },
+        echoCancellation: true,
+        noiseSuppression: false,
+        autoGainControl: true,
+      });
+    });
+
+    it('switches microphones mid-session without reconnecting', async () => {
+      const { transport, hook, connect } = setup({ config: DEFAULT_SESSION_CONFIG });
+      await connect();
+
+      await act(async () => {
+        hook.rerender({ config: { ...DEFAULT_SESSION_CONFIG, inputDeviceId: 'headset' } });
+        await settle();
+      });
+
+      expect(audio.streams).toHaveLength(2);
+      expect(audio.streams[0].getTracks()[0].readyState).toBe('ended');
+      expect(audio.streams[1].constraints.audio).toMatchObject({ deviceId: { exact: 'headset' } });
+      expect(transport.sessions).toHaveLength(1);
+
+      // Audio from the new microphone still reaches the session
+      await act(async () => {
+        audio.speak(new Float32Array(1600).fill(0.25));
+        await settle();
+      });
+      expect(transport.current.receivedAudio()).toHaveLength(1600);
+    });
+
+    it('sends nothing while muted, including from a newly chosen microphone', async () => {
+      const { transport, hook, connect } = setup({ config: DEFAULT_SESSION_CONFIG });
+      await connect();
+      const speak = async () => {
+        await act(async () => {
+          audio.speak(new Float32Array(1600).fill(0.25));
+          await settle();
+        });
+      };
+
+      act(() => hook.result.current.setMuted(true));
+      await speak();
+      expect(hook.result.current.isMuted).toBe(true);
+      expect(audio.streams[0].getTracks()[0].enabled).toBe(false);
+      expect(transport.current.realtimeInputs).toHaveLength(0);
+
+      await act(async () => {
+        hook.rerender({ config: { ...DEFAULT_SESSION_CONFIG, inputDeviceId: 'headset' } });
+        await settle();
+      });
+      expect(audio.streams[1].getTracks()[0].enabled).toBe(false);
+
+      act(() => hook.result.current.setMuted(false));
+      await speak();
+      expect(audio.streams[1].getTracks()[0].enabled).toBe(true);
+      expect(transport.current.receivedAudio()).toHaveLength(1600);
+    });
+
+    it('reports a denied permission as a MicrophoneError', async () => {
+      const { transport, hook, onError, connect } = setup();
+      audio.failNextGetUserMedia('NotAllowedError');
+      await connect();
+
+      expect(onError).toHaveBeenCalledWith(expect.any(MicrophoneError));
+      expect(onError.mock.calls[0][0].kind).toBe('permission-denied');
+      expect(hook.result.current.connectionState).toBe('failed');
+      expect(transport.sessions).toHaveLength(0);
+    });
+
+    it('falls back to the default microphone when the saved one is gone', async () => {
+      const config = { ...DEFAULT_SESSION_CONFIG, inputDeviceId: 'unplugged' };
+      const { hook, connect } = setup({ config });
+      audio.failNextGetUserMedia('OverconstrainedError');
+      await connect();
+
+      expect(hook.result.current.connectionState).toBe('open');
+      expect(audio.streams[0].constraints.audio).not.toHaveProperty('deviceId');
+    });
+  });
+
+  describe('push-to-talk and voice activity', () => {
+    const speak = async (samples: Float32Array) => {
+      await act(async () => {
+        audio.speak(samples);
+        await settle();
+      });
+    };
+
+    it('sends audio only while the talk button is held, marking activity itself', async () => {
+      const { transport, hook, connect } = setup({ config: { ...DEFAULT_SESSION_CONFIG, inputMode: 'push-to-talk' } });
+      await connect();
+      const session = transport.current;
+      expect(session.config.realtimeInputConfig?.automaticActivityDetection?.disabled).toBe(true);
+
+      await speak(new Float32Array(1600).fill(0.25));
+      expect(session.realtimeInputs).toHaveLength(0);
+
+      await act(async () => {
+        hook.result.current.setPushToTalk(true);
+        await settle();
+      });
+      expect(session.activity()).toEqual(['start']);
+
+      const utterance = Float32Array.from({ length: 2400 }, (_, i) => Math.sin(i / 10) * 0.5);
+      await speak(utterance.subarray(0, 1600));
+      // Half a chunk, still buffered in capture when the button is let go
+      await speak(utterance.subarray(1600));
+      await act(async () => {
+        hook.result.current.setPushToTalk(false);
+        await settle();
+      });
+
+      // The tail is flushed before the turn ends
+      expect(session.activity()).toEqual(['start', 'end']);
+      expect(session.realtimeInputs[session.realtimeInputs.length - 1].activityEnd).toBeDefined();
+      expect(session.receivedAudio()).toEqual(floatTo16BitPCM(utterance));
+      expect(hook.result.current.isUserSpeaking).toBe(false);
+
+      await speak(new Float32Array(1600).fill(0.25));
+      expect(session.receivedAudio()).toHaveLength(2400);
+    });
+
+    it('gates audio on detected speech, including the moments just before it', async () => {
+      const { transport, hook, connect } = setup({ config: { ...DEFAULT_SESSION_CONFIG, inputMode: 'vad' } });
+      await connect();
+      const session = transport.current;
+      expect(session.config.realtimeInputConfig?.automaticActivityDetection?.disabled).toBe(true);
+
+      // Room noise well under the speech threshold, each chunk distinguishable
+      const quiet = [1, 2, 3].map(n => new Float32Array(1600).fill(0.0001 * n));
+      for (const chunk of quiet) await speak(chunk);
+      expect(session.realtimeInputs).toHaveLength(0);
+
+      const speech = Float32Array.from({ length: 1600 }, (_, i) => Math.sin(i / 10) * 0.5);
+      await speak(speech);
+      expect(session.activity()).toEqual(['start']);
+      expect(session.realtimeInputs[0].activityStart).toBeDefined();
+      expect(hook.result.current.isUserSpeaking).toBe(true);
+      // The two chunks before the onset go first, so the first syllable isn't clipped
+      expect(session.receivedAudio()).toEqual(floatTo16BitPCM(Float32Array.from([...quiet[1], ...quiet[2], ...speech])));
+
+      // 100 ms chunks of silence outlast the 800 ms hangover
+      for (let i = 0; i < 10; i++) await speak(new Float32Array(1600));
+      expect(session.activity()).toEqual(['start', 'end']);
+      expect(hook.result.current.isUserSpeaking).toBe(false);
+
+      const sent = session.receivedAudio().length;
+      await speak(new Float32Array(1600));
+      expect(session.receivedAudio()).toHaveLength(sent);
+    });
+  });
+
+  describe('transcripts', () => {
+    it('merges streamed transcription pieces into one final turn per speaker', async () => {
+      const { transport, onMessage, transcript, turns, connect } = setup();
+      await connect();
+      await act(() => transport.current.play(GREETING_EXCHANGE));
+
+      expect(turns()).toEqual([
+        ['user', 'আসসালামু আলাইকুম'],
+        ['model', 'ওয়ালাইকুম আসসালাম!'],
+      ]);
+      expect(transcript().every(m => !m.isPartial)).toBe(true);
+      // Partial updates reused the final ids
+      const ids = new Set(onMessage.mock.calls.map(([m]) => m.id));
+      expect(ids.size).toBe(2);
+    });
+
+    it('keeps the user turn first when its transcription arrives late', async () => {
+      // Everything within one millisecond, so ordering can't lean on the clock
+      vi.useFakeTimers({ toFake: ['Date'] });
+      try {
+        const { transport, turns, connect } = setup();
+        await connect();
+        await act(() => transport.current.play(LATE_INPUT_TRANSCRIPTION));
+
+        expect(turns()).toEqual([
+          ['user', 'কেমন আছেন?'],
+          ['model', 'জি, ভালো আছি।'],
+        ]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('plays model audio chunks back to back', async () => {
+      const { transport, connect } = setup();
+      await connect();
+      await act(() => transport.current.play(GREETING_EXCHANGE));
+
+      const [first, second] = audio.output!.sources;
+      expect(first.startTime).toBe(0);
+      expect(second.startTime).toBeCloseTo(first.endTime);
+    });
+  });
+
+  describe('interruption', () => {
+    it('stops playback and starts a new turn when the user talks over the reply', async () => {
+      const audioTap: AudioTap = {
+        onUserAudio: vi.fn(),
+        onModelAudio: vi.fn(),
+        onPlaybackStopped: vi.fn(),
+        onPlaybackPaused: vi.fn(),
+        onPlaybackResumed: vi.fn(),
+      };
+      const { transport, transcript, turns, connect } = setup({ audioTap });
+      await connect();
+      await act(() => transport.current.play(BARGE_IN));
+
+      expect(audio.output!.sources).toHaveLength(2);
+      expect(audio.output!.activeSources).toHaveLength(0);
+      expect(audioTap.onModelAudio).toHaveBeenCalledTimes(2);
+      expect(audioTap.onPlaybackStopped).toHaveBeenCalled();
+
+      expect(turns()).toEqual([
+        ['user', 'একটা গল্প বলো'],
+        ['model', 'অনেক দিন আগে '],
+        ['user', 'থামো'],
+        ['model', 'ঠিক আছে।'],
+      ]);
+      const interruptedReply = transcript()[1] as TextMessage;
+      expect(interruptedReply.interrupted).toBe(true);
+      expect(interruptedReply.isPartial).toBe(false);
+    });
+  });
+
+  describe('diagnostics', () => {
+    it('reports latency, audio chunks and token usage per turn', async () => {
+      const onDiagnostics = vi.fn();
+      const { transport, connect } = setup({ onDiagnostics });
+      await connect();
+      await act(() => transport.current.play([...BARGE_IN.slice(0, -1), { message: usage(120, 30) }, { message: turnComplete() }]));
+
+      const turns = onDiagnostics.mock.calls
+        .map(([event]: [DiagnosticsEvent]) => event)
+        .flatMap(event => event.type === 'turn' ? [event.metrics] : []);
+      expect(turns).toHaveLength(2);
+      expect(turns[0]).toMatchObject({ endSource: 'transcription', interrupted: true, audioChunks: 2, audioBytes: 2 * 12000 * 2 });
+      expect(turns[0].firstAudioMs).toBeGreaterThanOrEqual(0);
+      expect(turns[0].firstTranscriptionMs).toBeGreaterThanOrEqual(0);
+      expect(turns[1]).toMatchObject({ interrupted: false, audioChunks: 0, usage: { totalTokens: 150 } });
+      expect(turns[1].completeMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('reports connection setup and reconnects', async () => {
+      const onDiagnostics = vi.fn();
+      const { transport, connect } = setup({ onDiagnostics, reconnect: FAST_RECONNECT });
+      await connect();
+      await act(() => transport.current.play([{ close: { code: 1011, reason: 'internal error' } }]));
+      await act(() => new Promise(resolve => setTimeout(resolve, 150)));
+
+      expect(onDiagnostics.mock.calls.map(([event]) => event)).toEqual([
+        expect.objectContaining({ type: 'connected', resumed: false }),
+        expect.objectContaining({ type: 'reconnect', attempt: 1, reason: 'internal error' }),
+        expect.objectContaining({ type: 'connected', resumed: true }),
+      ]);
+    });
+  });
+
+  describe('tool calls', () => {
+    it('runs the tool and sends its result back', async () => {
+      const { transport, transcript, connect } = setup();
+      await connect();
+      await act(() => transport.current.play(TOOL_CALL_EXCHANGE));
+
+      expect(transport.current.toolResponses).toEqual([{
+        functionResponses: { id: 'call-1', name: 'convert_units', response: { output: expect.anything() } },
+      }]);
+      const call = transcript().find((m): m is ToolCallMessage => m.role === 'tool');
+      expect(call).toMatchObject({ callId: 'call-1', status: 'completed', isPartial: false });
+    });
+
+    it('abandons a call the server cancels', async () => {
+      const slowTool: ToolDefinition = {
+        declaration: { name: 'slow' },
+        handler: () => new Promise(() => {}),
+      };
+      const { transport, transcript, connect } = setup({ tools: [slowTool] });
+      await connect();
+      await act(() => transport.current.play([
+        { message: toolCall({ id: 'call-2', name: 'slow', args: {} }) },
+        { message: toolCallCancellation('call-2') },
+      ]));
+
+      expect(transport.current.toolResponses).toEqual([]);
+      expect(transcript()).toEqual([expect.objectContaining({ callId: 'call-2', status: 'cancelled' })]);
+    });
+  });
+
+  describe('search grounding', () => {
+    it('asks for Google Search alongside the local tools when enabled', async () => {
+      const { transport, connect } = setup({ config: { ...DEFAULT_SESSION_CONFIG, searchGrounding: true } });
+      await connect();
+
+      expect(transport.current.params.config?.tools).toEqual([
+        { functionDeclarations: expect.any(Array) },
+        { googleSearch: {} },
+      ]);
+    });
+
+    it('attaches the cited pages to the model turn', async () => {
+      const { transport, turns, transcript, connect } = setup({ config: { ...DEFAULT_SESSION_CONFIG, searchGrounding: true } });
+      await connect();
+      await act(() => transport.current.play(GROUNDED_ANSWER));
+
+      expect(turns()).toEqual([
+        ['user', 'আজ ঢাকায় বৃষ্টি হবে?'],
+        ['model', 'আজ বিকেলে বৃষ্টির সম্ভাবনা আছে।'],
+      ]);
+      const reply = transcript().find((m): m is TextMessage => m.role === 'model');
+      expect(reply?.sources).toEqual([
+        { uri: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/bmd', title: 'bmd.gov.bd', domain: 'bmd.gov.bd' },
+        { uri: 'https://www.accuweather.com/en/bd/dhaka/28143/weather-forecast/28143', title: 'accuweather.com', domain: 'accuweather.com' },
+      ]);
+      expect(transcript().find(m => m.role === 'user')).not.toHaveProperty('sources');
+    });
+  });
+
+  describe('cleanup', () => {
+    it('closes the session and releases audio on disconnect', async () => {
+      const { transport, hook, onDisconnect, onError, transcript, connect } = setup();
+      await connect();
+      await act(() => transport.current.play([{ message: inputTranscription('আমি') }]));
+
+      await act(async () => {
+        hook.result.current.disconnect();
+        await settle();
+      });
+
+      expect(hook.result.current.connectionState).toBe('closed');
+      expect(transport.current.closedByClient).toBe(true);
+      expect(audio.streams[0].getTracks()[0].readyState).toBe('ended');
+      expect(audio.contexts.every(ctx => ctx.state === 'closed')).toBe(true);
+      expect(onDisconnect).toHaveBeenCalledTimes(1);
+      // Our own close is not a drop
+      expect(onError).not.toHaveBeenCalled();
+      expect(transport.sessions).toHaveLength(1);
+      // The half-finished turn was kept as final
+      expect(transcript()).toEqual([expect.objectContaining({ text: 'আমি', isPartial: false })]);
+    });
+
+    it('resumes the conversation after a retriable drop', async () => {
+      const { transport, hook, onConnect, onDisconnect, connect } = setup({ reconnect: FAST_RECONNECT });
+      await connect();
+      await act(() => transport.current.play([
+        { message: resumptionUpdate('handle-1') },
+        { close: { code: 1011, reason: 'internal error' } },
+      ]));
+      expect(hook.result.current.connectionState).toBe('reconnecting');
+
+      await act(() => new Promise(resolve => setTimeout(resolve, 150)));
+
+      expect(transport.sessions).toHaveLength(2);
+      expect(transport.current.config.sessionResumption?.handle).toBe('handle-1');
+      expect(hook.result.current.connectionState).toBe('open');
+      expect(onConnect).toHaveBeenCalledTimes(1);
+      expect(onDisconnect).not.toHaveBeenCalled();
+      // The microphone survives the reconnect
+      expect(audio.streams).toHaveLength(1);
+      expect(audio.streams[0].getTracks()[0].readyState).toBe('live');
+    });
+
+    it('hands over to a resumed connection when the server sends goAway', async () => {
+      const { transport, hook, onError, onDisconnect, connect } = setup();
+      await connect();
+      const original = transport.current;
+      await act(() => original.play([{ message: resumptionUpdate('handle-1') }, { message: goAway() }]));
+      await act(() => settle());
+
+      expect(transport.sessions).toHaveLength(2);
+      expect(transport.current.config.sessionResumption?.handle).toBe('handle-1');
+      // The old connection is closed only once the new one is open
+      expect(original.closedByClient).toBe(true);
+      expect(hook.result.current.connectionState).toBe('open');
+      expect(onError).not.toHaveBeenCalled();
+      expect(onDisconnect).not.toHaveBeenCalled();
+    });
+
+    it('stays on the old connection when a goAway handover fails', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const { transport, hook, onError, connect } = setup({ reconnect: FAST_RECONNECT });
+      await connect();
+      const original = transport.current;
+
+      transport.failNextConnect(new Error('handshake failed'));
+      await act(() => original.play([{ message: goAway() }]));
+      await act(() => settle());
+
+      expect(original.closedByClient).toBe(false);
+      expect(hook.result.current.connectionState).toBe('open');
+      expect(onError).not.toHaveBeenCalled();
+
+      // When the server does close it, the usual reconnect takes over
+      await act(() => original.play([{ close: { code: 1001, reason: 'going away' } }]));
+      expect(hook.result.current.connectionState).toBe('reconnecting');
+      await act(() => new Promise(resolve => setTimeout(resolve, 150)));
+      expect(transport.sessions).toHaveLength(2);
+      expect(hook.result.current.connectionState).toBe('open');
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it('gives up on a fatal close code', async () => {
+      const { transport, hook, onError, onDisconnect, connect } = setup({ reconnect: FAST_RECONNECT });
+      await connect();
+      await act(() => transport.current.play([{ close: { code: 1008, reason: 'API key not valid' } }]));
+
+      expect(onError).toHaveBeenCalledWith(new LiveSessionError('connection-lost', 'API key not valid'));
+      expect(onError.mock.calls[0][0].kind).toBe('connection-lost');
+      expect(hook.result.current.connectionState).toBe('failed');
+      expect(onDisconnect).toHaveBeenCalledTimes(1);
+      expect(transport.sessions).toHaveLength(1);
+      expect(audio.contexts.every(ctx => ctx.state === 'closed')).toBe(true);
+    });
+  });
+
+  describe('idle timeout', () => {
+    it('ends a quiet conversation and resumes it on the next connect', async () => {
+      const { transport, hook, onDisconnect, connect } = setup({ idleTimeoutMs: 100 });
+      await connect();
+      await act(() => transport.current.play([{ message: resumptionUpdate('handle-1') }]));
+
+      await act(() => new Promise(resolve => setTimeout(resolve, 200)));
+      expect(hook.result.current.connectionState).toBe('closed');
+      expect(onDisconnect).toHaveBeenCalledTimes(1);
+      expect(transport.current.closedByClient).toBe(true);
+      expect(audio.streams[0].getTracks()[0].readyState).toBe('ended');
+
+      await connect();
+      expect(transport.sessions).toHaveLength(2);
+      expect(transport.current.config.sessionResumption?.handle).toBe('handle-1');
+    });
+
+    it('stays open while the user keeps talking', async () => {
+      const { transport, hook, connect } = setup({ idleTimeoutMs: 150 });
+      await connect();
+      await act(() => transport.current.play([
+        { waitMs: 100 },
+        { message: inputTranscription('আর একটা কথা') },
+        { waitMs: 100 },
+      ]));
+      expect(hook.result.current.connectionState).toBe('open');
+
+      await act(() => new Promise(resolve => setTimeout(resolve, 200)));
+      expect(hook.result.current.connectionState).toBe('closed');
+    });
+
+    it('starts afresh after the user ends the conversation themselves', async () => {
+      const { transport, hook, connect } = setup({ idleTimeoutMs: 100 });
+      await connect();
+      await act(() => transport.current.play([{ message: resumptionUpdate('handle-1') }]));
+      await act(() => new Promise(resolve => setTimeout(resolve, 200)));
+
+      await connect();
+      await act(async () => {
+        hook.result.current.disconnect();
+        await settle();
+      });
+      await connect();
+      expect(transport.sessions).toHaveLength(3);
+      expect(transport.current.config.sessionResumption?.handle).toBeUndefined();
+    });
+  });
+
+  describe('images', () => {
+    it('sends a photo and its caption as one turn with a thumbnail in the transcript', async () => {
+      vi.mocked(loadImageFile).mockResolvedValueOnce({
+        image: { data: 'SlBFRw==', mimeType: 'image/jpeg', width: 768, height: 576 },
+        thumbnailUrl: 'data:image/jpeg;base64,VEhVTUI=',
+      });
+      const { transport, hook, transcript, connect } = setup();
+      await connect();
+
+      await act(async () => {
+        expect(await hook.result.current.sendImage(new Blob(['photo']), ' এটা কী ওষুধ? ')).toBe(true);
+        await settle();
+      });
+
+      expect(transport.current.clientContents).toEqual([{
+        turns: [{ role: 'user', parts: [{ inlineData: { data: 'SlBFRw==', mimeType: 'image/jpeg' } }, { text: 'এটা কী ওষুধ?' }] }],
+        turnComplete: true,
+      }]);
+      expect(transcript()).toEqual([expect.objectContaining({
+        role: 'user',
+        text: 'এটা কী ওষুধ?',
+        attachments: [{ kind: 'image', thumbnailUrl: 'data:image/jpeg;base64,VEhVTUI=', source: 'upload' }],
+      })]);
+      expect(hook.result.current.playbackState).toBe('thinking');
+    });
+
+    it('reports an image it cannot read without sending anything', async () => {
+      vi.mocked(loadImageFile).mockRejectedValueOnce(new Error('decode failed'));
+      const { transport, hook, onError, transcript, connect } = setup();
+      await connect();
+
+      await act(async () => {
+        expect(await hook.result.current.sendImage(new Blob(['not an image']))).toBe(false);
+      });
+
+      expect(onError).toHaveBeenCalledWith(new LiveSessionError('image-failed', 'decode failed'));
+      expect(transport.current.clientContents).toEqual([]);
+      expect(transcript()).toEqual([]);
+    });
+  });
+
+  describe('text-only mode', () => {
+    it('exchanges text without touching the microphone', async () => {
+      const { transport, hook, turns, connect } = setup({ config: TEXT_ONLY_CONFIG });
+      await connect();
+
+      expect(audio.streams).toHaveLength(0);
+      expect(transport.current.config.responseModalities).toEqual([Modality.TEXT]);
+
+      act(() => {
+        expect(hook.result.current.sendText('  হ্যালো ')).toBe(true);
+      });
+      await act(settle);
+      expect(transport.current.clientContents).toEqual([{
+        turns: [{ role: 'user', parts: [{ text: 'হ্যালো' }] }],
+        turnComplete: true,
+      }]);
+
+      await act(() => transport.current.play([
+        { message: modelText('হাই, ') },
+        { message: modelText('বলুন!') },
+        { message: turnComplete() },
+      ]));
+      expect(turns()).toEqual([
+        ['user', 'হ্যালো'],
+        ['model', 'হাই, বলুন!'],
+      ]);
+    });
+  });
+
+  describe('interpreter mode', () => {
+    it('shows each turn next to its translation, tagged with both languages', async () => {
+      const { transport, transcript, connect } = setup({ config: INTERPRETER_CONFIG });
+      await connect();
+      expect(String(transport.current.config.systemInstruction)).toContain('interpreter');
+      expect(transport.current.config.tools).toBeUndefined();
+
+      await act(() => transport.current.play([
+        { message: inputTranscription('আমার মাথা ') },
+        { message: outputTranscription('I have ') },
+        { message: inputTranscription('ব্যথা করছে') },
+        { message: modelAudio(tonePcm(200)) },
+        { message: outputTranscription('a headache') },
+        { message: turnComplete() },
+        { message: inputTranscription('Since when?') },
+        { message: outputTranscription('কবে থেকে?') },
+        { message: turnComplete() },
+      ]));
+
+      expect(transcript()).toEqual([
+        expect.objectContaining({
+          role: 'user',
+          text: 'আমার মাথা ব্যথা করছে',
+          language: 'bn',
+          translation: { text: 'I have a headache', language: 'en' },
+          isPartial: false,
+        }),
+        expect.objectContaining({
+          role: 'user',
+          text: 'Since when?',
+          language: 'en',
+          translation: { text: 'কবে থেকে?', language: 'bn' },
+          isPartial: false,
+        }),
+      ]);
+    });
+
+    it('keeps a typed turn open for its translation', async () => {
+      const { transport, hook, transcript, connect } = setup({ config: INTERPRETER_CONFIG });
+      await connect();
+
+      act(() => {
+        expect(hook.result.current.sendText('How many tablets a day?')).toBe(true);
+      });
+      await act(() => transport.current.play([
+        { message: outputTranscription('দিনে কয়টা ট্যাবলেট?') },
+        { message: turnComplete() },
+      ]));
+
+      expect(transcript()).toEqual([expect.objectContaining({
+        source: 'typed',
+        text: 'How many tablets a day?',
+        language: 'en',
+        translation: { text: 'দিনে কয়টা ট্যাবলেট?', language: 'bn' },
+        isPartial: false,
+      })]);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { useCallback, useRef, useState } from 'react';
+import { MemoryFact } from '../types';
+import {
+  createMemory,
+  exportMemories,
+  hasMemory,
+  loadMemories,
+  mergeMemories,
+  parseMemoryExport,
+  saveMemories,
+} from '../utils/memoryStore';
+
+/** A fact Bondhu suggested, waiting for the user to accept or dismiss it. */
+export interface MemoryProposal {
+  id: string;
+  text: string;
+}
+
+/**
+ * The user's long-term memory, persisted in localStorage, plus the facts
+ * Bondhu has proposed during the current conversation.
+ */
+export const useMemories = () => {
+  const [facts, setFacts] = useState<MemoryFact[]>(loadMemories);
+  const [proposals, setProposals] = useState<MemoryProposal[]>([]);
+  // Lets `propose` stay stable (it is baked into the tool list) while seeing current facts
+  const factsRef = useRef(facts);
+  factsRef.current = facts;
+
+  const updateFacts = useCallback((update: (prev: MemoryFact[]) => MemoryFact[]) => {
+    setFacts(prev => {
+      const next = update(prev);
+      saveMemories(next);
+      return next;
+    });
+  }, []);
+
+  const add = useCallback((text: string, source: MemoryFact['source'] = 'user') => {
+    if (!text.trim()) return;
+    updateFacts(prev => (hasMemory(prev, text) ? prev : [...prev, createMemory(text, source)]));
+  }, [updateFacts]);
+
+  const edit = useCallback((id: string, text: string) => {
+    if (!text.trim()) return;
+    updateFacts(prev => prev.map(fact => (fact.id === id ? { ...fact, text: text.trim(), updatedAt: Date.now() } : fact)));
+  }, [updateFacts]);
+
+  const remove = useCallback((id: string) => {
+    updateFacts(prev => prev.filter(fact => fact.id !== id));
+  }, [updateFacts]);
+
+  const wipe = useCallback(() => {
+    updateFacts(() => []);
+    setProposals([]);
+  }, [updateFacts]);
+
+  /** Merges an exported file into the store. Returns how many facts were added; throws on a foreign file. */
+  const importFile = useCallback((json: string) => {
+    const imported = parseMemoryExport(json);
+    const added = mergeMemories(facts, imported).length - facts.length;
+    updateFacts(prev => mergeMemories(prev, imported));
+    return added;
+  }, [facts, updateFacts]);
+
+  const exportFile = useCallback(() => exportMemories(facts), [facts]);
+
+  // Called from the propose_memory tool; duplicates of stored or pending facts are dropped
+  const propose = useCallback((text: string) => {
+    setProposals(prev => (hasMemory(factsRef.current, text) || prev.some(p => p.text === text)
+      ? prev
+      : [...prev, { id: `proposal-${Date.now()}-${prev.length}`, text }]));
+  }, []);
+
+  const acceptProposal = useCallback((id: string) => {
+    const proposal = proposals.find(p => p.id === id);
+    if (proposal) add(proposal.text, 'model');
+    setProposals(prev => prev.filter(p => p.id !== id));
+  }, [proposals, add]);
+
+  const dismissProposal = useCallback((id: string) => {
+    setProposals(prev => prev.filter(p => p.id !== id));
+  }, []);
+
+  return {
+    facts,
+    proposals,
+    add,
+    edit,
+    remove,
+    wipe,
+    importFile,
+    exportFile,
+    propose,
+    acceptProposal,
+    dismissProposal,
+  };
+};
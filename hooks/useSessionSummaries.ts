@@ -0,0 +1,42 @@
+import { useState, useRef, useCallback, useMemo } from 'react';
+import { SessionSummary } from '../types';
+import { StoredSession } from '../utils/historyStore';
+import { localDateTime, summaryTurns } from '../utils/summary';
+import { Summarizer, defaultSummarizer } from '../utils/summarizer';
+
+/** A summary being generated, or why the last attempt failed. */
+export type SummaryStatus = 'pending' | Error;
+
+interface UseSessionSummariesOptions {
+  /** Receives each new summary, to be stored with its session. */
+  onSummary: (sessionId: string, summary: SessionSummary) => Promise<void> | void;
+  /** Defaults to the model directly in dev and the Bondhu server otherwise. */
+  summarizer?: Summarizer;
+}
+
+/** Summarizes stored conversations, one request per session at a time. */
+export const useSessionSummaries = ({ onSummary, summarizer }: UseSessionSummariesOptions) => {
+  const [status, setStatus] = useState<Record<string, SummaryStatus>>({});
+  const summarize = useMemo(() => summarizer ?? defaultSummarizer(), [summarizer]);
+  const onSummaryRef = useRef(onSummary);
+  onSummaryRef.current = onSummary;
+  const pendingRef = useRef(new Set<string>());
+
+  const request = useCallback(async (session: StoredSession) => {
+    if (pendingRef.current.has(session.id)) return;
+    pendingRef.current.add(session.id);
+    setStatus(current => ({ ...current, [session.id]: 'pending' }));
+    try {
+      const content = await summarize({ turns: summaryTurns(session.messages), startedAt: localDateTime(session.startedAt) });
+      await onSummaryRef.current(session.id, { ...content, generatedAt: new Date() });
+      setStatus(({ [session.id]: _done, ...rest }) => rest);
+    } catch (err) {
+      console.error('Summary failed', err);
+      setStatus(current => ({ ...current, [session.id]: err instanceof Error ? err : new Error(String(err)) }));
+    } finally {
+      pendingRef.current.delete(session.id);
+    }
+  }, [summarize]);
+
+  return { status, summarize: request };
+};
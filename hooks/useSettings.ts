@@ -0,0 +1,35 @@
+import { useState, useCallback } from 'react';
+import { LiveSessionConfig } from '../types';
+import { DEFAULT_SESSION_CONFIG } from '../utils/persona';
+
+const STORAGE_KEY = 'bondhu-settings';
+
+const load = (): LiveSessionConfig => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    // Merge over defaults so settings saved by older versions pick up new fields
+    return raw ? { ...DEFAULT_SESSION_CONFIG, ...JSON.parse(raw) } : DEFAULT_SESSION_CONFIG;
+  } catch (err) {
+    console.warn('Ignoring unreadable settings', err);
+    return DEFAULT_SESSION_CONFIG;
+  }
+};
+
+/** Session settings persisted in localStorage. */
+export const useSettings = () => {
+  const [settings, setSettings] = useState<LiveSessionConfig>(load);
+
+  const updateSettings = useCallback((update: Partial<LiveSessionConfig>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...update };
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } catch (err) {
+        console.warn('Could not save settings', err);
+      }
+      return next;
+    });
+  }, []);
+
+  return { settings, updateSettings };
+};
@@ -0,0 +1,176 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { LiveSessionConfig } from '../types';
+import { INPUT_SAMPLE_RATE } from '../utils/audioUtils';
+import { startAudioCapture } from '../utils/audioCapture';
+import { MicrophoneError, MicrophoneSettings, microphoneKey, openMicrophone } from '../utils/microphone';
+import {
+  ENROLLMENT_SAMPLES,
+  WakeWordTemplate,
+  createUtteranceSegmenter,
+  createWakeWordDetector,
+  createWakeWordTemplate,
+} from '../utils/wakeWord';
+import { loadWakeWordTemplates, saveWakeWordTemplates } from '../utils/wakeWordStore';
+
+interface UseWakeWordProps {
+  /** Listen for the phrase. Has no effect until it has been recorded ENROLLMENT_SAMPLES times. */
+  enabled: boolean;
+  /** Microphone and wake word sensitivity. */
+  settings: LiveSessionConfig;
+  onWake: () => void;
+  /** Receives a MicrophoneError when the microphone can't be opened. */
+  onError?: (error: Error) => void;
+}
+
+// 100 ms of 16 kHz audio per chunk keeps detection responsive
+const CHUNK_SIZE = 1600;
+// Gives up on a recording if no phrase-length utterance is heard in time
+const RECORD_TIMEOUT_MS = 6000;
+
+/**
+ * Streams the microphone into `onChunk` as 16 kHz PCM, entirely on the
+ * device. Resolves to a function that releases the microphone.
+ */
+const startLocalCapture = async (settings: MicrophoneSettings, onChunk: (pcm: Int16Array) => void) => {
+  const stream = await openMicrophone(settings);
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  const ctx: AudioContext = new AudioContextClass({ sampleRate: INPUT_SAMPLE_RATE });
+  const source = ctx.createMediaStreamSource(stream);
+  const release = () => {
+    source.disconnect();
+    stream.getTracks().forEach(track => track.stop());
+    ctx.close();
+  };
+  try {
+    const capture = await startAudioCapture(ctx, source, { chunkSize: CHUNK_SIZE, onChunk });
+    return () => {
+      capture.stop();
+      release();
+    };
+  } catch (err) {
+    release();
+    throw err;
+  }
+};
+
+/** Records until the user has said one phrase-length utterance; null if they didn't in time. */
+const recordUtterance = (settings: MicrophoneSettings) => new Promise<Int16Array | null>((resolve, reject) => {
+  const segmenter = createUtteranceSegmenter();
+  let stop: (() => void) | null = null;
+  let done = false;
+  const finish = (utterance: Int16Array | null) => {
+    if (done) return;
+    done = true;
+    clearTimeout(timer);
+    stop?.();
+    resolve(utterance);
+  };
+  const timer = setTimeout(() => finish(null), RECORD_TIMEOUT_MS);
+
+  startLocalCapture(settings, pcm => {
+    const [utterance] = segmenter.process(pcm);
+    if (utterance) finish(utterance);
+  }).then((release) => {
+    stop = release;
+    if (done) release();
+  }).catch((err) => {
+    done = true;
+    clearTimeout(timer);
+    reject(err);
+  });
+});
+
+const asMicrophoneError = (err: unknown) => (err instanceof MicrophoneError ? err : new MicrophoneError('unknown', err));
+
+/**
+ * Hands-free wake phrase: recording it, and listening for it while `enabled`.
+ * Listening keeps its own microphone stream and detector on the device;
+ * no audio is sent anywhere until `onWake` starts a conversation.
+ */
+export const useWakeWord = ({ enabled, settings, onWake, onError }: UseWakeWordProps) => {
+  const [templates, setTemplates] = useState<WakeWordTemplate[]>(loadWakeWordTemplates);
+  const [isListening, setIsListening] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  // Lets the listener keep running across renders while calling the current handlers
+  const onWakeRef = useRef(onWake);
+  onWakeRef.current = onWake;
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  const isEnrolled = templates.length >= ENROLLMENT_SAMPLES;
+  const active = enabled && isEnrolled && !isRecording;
+  const micKey = microphoneKey(settings);
+  const sensitivity = settings.wakeWordSensitivity;
+
+  useEffect(() => {
+    if (!active) return;
+    const detector = createWakeWordDetector(templates, { sensitivity });
+    let stop: (() => void) | null = null;
+    let finished = false;
+    const finish = () => {
+      finished = true;
+      stop?.();
+      stop = null;
+      setIsListening(false);
+    };
+
+    startLocalCapture(settings, (pcm) => {
+      if (finished || !detector.process(pcm)) return;
+      // Hand the microphone over before the conversation opens its own
+      finish();
+      onWakeRef.current();
+    }).then((release) => {
+      if (finished) {
+        release();
+        return;
+      }
+      stop = release;
+      setIsListening(true);
+    }).catch((err) => {
+      if (finished) return;
+      console.error('Could not listen for the wake word', err);
+      onErrorRef.current?.(asMicrophoneError(err));
+    });
+
+    return finish;
+  }, [active, templates, sensitivity, micKey]);
+
+  /** Records one more sample of the wake phrase. Resolves false if nothing usable was heard. */
+  const recordSample = useCallback(async () => {
+    setIsRecording(true);
+    try {
+      const utterance = await recordUtterance(settings);
+      const template = utterance && createWakeWordTemplate(utterance);
+      if (!template) return false;
+      setTemplates(prev => {
+        // Only the latest recordings count, so re-recording replaces a poor one
+        const next = [...prev, template].slice(-ENROLLMENT_SAMPLES);
+        saveWakeWordTemplates(next);
+        return next;
+      });
+      return true;
+    } catch (err) {
+      console.error('Could not record the wake word', err);
+      onErrorRef.current?.(asMicrophoneError(err));
+      return false;
+    } finally {
+      setIsRecording(false);
+    }
+  }, [settings]);
+
+  const clearSamples = useCallback(() => {
+    saveWakeWordTemplates([]);
+    setTemplates([]);
+  }, []);
+
+  return {
+    /** How many recordings of the phrase are stored, up to ENROLLMENT_SAMPLES. */
+    sampleCount: templates.length,
+    isEnrolled,
+    /** True while the microphone is open for the wake phrase. */
+    isListening,
+    isRecording,
+    recordSample,
+    clearSamples,
+  };
+};
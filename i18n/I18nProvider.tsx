@@ -0,0 +1,49 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { Locale, Translator, createTranslator } from './translator';
+
+const STORAGE_KEY = 'bondhu-locale';
+
+interface I18nContextValue extends Translator {
+  setLocale: (locale: Locale) => void;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+const loadLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved === 'bn' || saved === 'en') return saved;
+  } catch (err) {
+    console.warn('Could not read the saved language', err);
+  }
+  return 'bn';
+};
+
+/** Holds the UI language, persists it and mirrors it onto `<html lang>` and the page title. */
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(loadLocale);
+  const translator = useMemo(() => createTranslator(locale), [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch (err) {
+      console.warn('Could not save the language', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.title = translator.t('app.documentTitle');
+  }, [locale, translator]);
+
+  const value = useMemo(() => ({ ...translator, setLocale }), [translator, setLocale]);
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextValue => {
+  const value = useContext(I18nContext);
+  if (!value) throw new Error('useI18n must be used inside an I18nProvider');
+  return value;
+};
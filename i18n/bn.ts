@@ -0,0 +1,261 @@
+import type { LocaleCatalog } from './translator';
+
+export const bn: LocaleCatalog = {
+  'app.title': 'বন্ধু AI',
+  'app.subtitle': 'বাংলা লাইভ সহকারী',
+  'app.documentTitle': 'বন্ধু AI · বাংলা লাইভ সহকারী',
+
+  'header.history': 'পুরনো কথোপকথন',
+  'header.diagnostics': 'ডায়াগনস্টিকস',
+  'header.settings': 'সেটিংস',
+  'header.memory': 'বন্ধু যা মনে রাখে',
+  'header.record': 'রেকর্ড',
+  'header.recordHint': 'পরের কথোপকথন রেকর্ড করুন',
+
+  'status.idle': 'বাংলায় কথা বলতে মাইকে চাপ দিন',
+  'status.connecting': 'Gemini-এর সাথে সংযোগ করা হচ্ছে...',
+  'status.thinking': 'ভাবছি...',
+  'status.speaking': 'বলছি...',
+  'status.listening': 'আমি শুনছি...',
+  'status.reconnecting': 'আবার সংযোগ করা হচ্ছে...',
+  'status.wakeListening': 'শুরু করতে আপনার ডাক-বাক্যটি বলুন',
+
+  'conversation.start': 'কথোপকথন শুরু করুন',
+  'conversation.stop': 'কথোপকথন শেষ করুন',
+  'conversation.backToLive': 'লাইভে ফিরুন',
+  'conversation.typed': 'লেখা',
+  'conversation.photo': 'ছবি',
+  'conversation.cameraFrame': 'ক্যামেরার দৃশ্য',
+  'conversation.sources': 'সূত্র',
+  'conversation.openSource': 'নতুন ট্যাবে {title} খুলুন',
+  'conversation.transcript': 'কথোপকথন',
+  'conversation.mute': 'মাইক্রোফোন বন্ধ করুন',
+  'conversation.muted': 'মাইক্রোফোন বন্ধ',
+
+  'error.connect-failed': 'সংযোগ করা যায়নি: {reason}',
+  'error.connection-lost': 'সংযোগ বিচ্ছিন্ন হয়েছে: {reason}',
+  'error.capture-failed': 'মাইক্রোফোন থেকে শব্দ আসা বন্ধ হয়ে গেছে। আবার শুরু করুন।',
+  'error.camera-failed': 'ক্যামেরা চালু করা যায়নি: {reason}',
+  'error.image-failed': 'ছবিটি পড়া যায়নি। JPEG বা PNG ছবি দিয়ে চেষ্টা করুন।',
+  'error.generic': 'কিছু একটা সমস্যা হয়েছে: {reason}',
+
+  'mic.permission-denied.title': 'মাইক্রোফোনের অনুমতি নেই',
+  'mic.permission-denied.step1': 'ঠিকানা বারের বাঁ দিকের লক আইকনে ক্লিক করুন',
+  'mic.permission-denied.step2': 'মাইক্রোফোন "Allow" করুন',
+  'mic.permission-denied.step3': 'তারপর আবার চেষ্টা করুন',
+  'mic.not-found.title': 'কোনো মাইক্রোফোন পাওয়া যায়নি',
+  'mic.not-found.step1': 'মাইক্রোফোন বা হেডসেট লাগান',
+  'mic.not-found.step2': 'অথবা সেটিংসে অন্য মাইক্রোফোন বেছে নিন',
+  'mic.in-use.title': 'মাইক্রোফোন অন্য কোথাও ব্যবহার হচ্ছে',
+  'mic.in-use.step1': 'অন্য অ্যাপ বা ট্যাবের কল বন্ধ করুন',
+  'mic.in-use.step2': 'দরকার হলে মাইক্রোফোন খুলে আবার লাগান',
+  'mic.unknown.title': 'মাইক্রোফোন চালু করা যায়নি',
+  'mic.unknown.step1': 'পেজটি রিলোড করে আবার চেষ্টা করুন',
+  'mic.retry': 'আবার চেষ্টা',
+  'mic.openSettings': 'সেটিংস',
+  'mic.dismiss': 'বন্ধ করুন',
+  'mic.level': 'মাইক্রোফোনের আওয়াজ',
+
+  'inputMode.continuous': 'সবসময়',
+  'inputMode.push-to-talk': 'চেপে বলুন',
+  'inputMode.vad': 'স্বয়ংক্রিয়',
+  'pushToTalk.hold': 'চেপে ধরুন',
+  'pushToTalk.speaking': 'বলছি...',
+
+  'playback.idle': 'শুনছি',
+  'playback.thinking': 'ভাবছি...',
+  'playback.speaking': 'বলছি...',
+  'playback.paused': 'থামানো',
+  'playback.pause': 'থামান',
+  'playback.resume': 'আবার চালান',
+  'playback.skip': 'এই উত্তর বাদ দিন',
+  'playback.volume': 'আওয়াজ',
+  'playback.speed': 'গতি',
+
+  'composer.placeholder': 'লিখে পাঠান...',
+  'composer.send': 'পাঠান',
+  'composer.attachPhoto': 'ছবি যোগ করুন',
+  'composer.cameraOn': 'ক্যামেরা চালু করুন',
+  'composer.cameraOff': 'ক্যামেরা বন্ধ করুন',
+
+  'camera.preview': 'ক্যামেরার প্রিভিউ',
+  'camera.flip': 'ক্যামেরা বদলান',
+
+  'tool.running': 'চলছে...',
+  'tool.completed': 'সম্পন্ন',
+  'tool.failed': 'ব্যর্থ',
+  'tool.cancelled': 'বাতিল',
+
+  'recording.label': 'রেকর্ডিং ({duration})',
+  'recording.dismiss': 'রেকর্ডিং বন্ধ করুন',
+
+  'history.title': 'পুরনো কথোপকথন',
+  'history.close': 'ইতিহাস বন্ধ করুন',
+  'history.search': 'খুঁজুন',
+  'history.empty': 'কিছু পাওয়া যায়নি',
+  'history.rename': 'নাম বদলান',
+  'history.delete': 'মুছুন',
+  'history.confirmDelete': 'এই কথোপকথনটি মুছে ফেলবেন?',
+  // Bengali nouns don't inflect for number; the classifier -টি covers both
+  'history.messageCount': { other: '{count}টি বার্তা' },
+
+  'memory.title': 'স্মৃতি',
+  'memory.close': 'স্মৃতি বন্ধ করুন',
+  'memory.intro': 'প্রতিটি কথোপকথনের শুরুতে বন্ধু এগুলো পড়ে নেয়। এগুলো শুধু এই ডিভাইসেই থাকে।',
+  'memory.count': { other: '{count}টি তথ্য' },
+  'memory.empty': 'এখনো কিছু মনে রাখা হয়নি।',
+  'memory.addPlaceholder': 'যেমন: আমি নিরামিষ খাই',
+  'memory.add': 'যোগ করুন',
+  'memory.edit': 'সম্পাদনা',
+  'memory.save': 'সংরক্ষণ',
+  'memory.cancel': 'বাতিল',
+  'memory.delete': 'মুছুন',
+  'memory.suggested': 'বন্ধুর প্রস্তাব',
+  'memory.export': 'এক্সপোর্ট',
+  'memory.import': 'ইমপোর্ট',
+  'memory.imported': { other: '{count}টি তথ্য ইমপোর্ট হয়েছে' },
+  'memory.importFailed': 'এই ফাইলটি বন্ধুর স্মৃতির এক্সপোর্ট নয়।',
+  'memory.wipe': 'সব ভুলে যান',
+  'memory.confirmWipe': 'বন্ধু আপনার সম্পর্কে যা মনে রেখেছে সব মুছে ফেলবেন? এটি আর ফেরানো যাবে না।',
+  'memory.proposal': 'এটা মনে রাখব?',
+  'memory.accept': 'মনে রাখুন',
+  'memory.dismiss': 'দরকার নেই',
+
+  'diagnostics.title': 'ডায়াগনস্টিকস',
+  'diagnostics.expand': 'বিস্তারিত দেখুন',
+  'diagnostics.collapse': 'বিস্তারিত লুকান',
+  'diagnostics.close': 'ডায়াগনস্টিকস বন্ধ করুন',
+  'diagnostics.export': 'JSON এক্সপোর্ট',
+  'diagnostics.clear': 'মুছুন',
+  'diagnostics.turnCount': { other: '{count}টি পালা' },
+  'diagnostics.empty': 'এখনো কোনো পালা নেই। বন্ধুর সাথে কথা বললে সময়ের হিসাব এখানে দেখাবে।',
+  'diagnostics.firstAudio': 'প্রথম আওয়াজ',
+  'diagnostics.firstTranscription': 'প্রথম লেখা',
+  'diagnostics.complete': 'পালা শেষ',
+  'diagnostics.medianP90': 'মধ্যমা / p90',
+  'diagnostics.ms': '{value} মি.সে.',
+  'diagnostics.kb': '{value} KB',
+  'diagnostics.none': '–',
+  'diagnostics.audioChunks': 'অডিও খণ্ড',
+  'diagnostics.chunkSize': 'গড় খণ্ড',
+  'diagnostics.underruns': 'বাফার ফাঁকা হয়েছে',
+  'diagnostics.interruptions': 'বাধা',
+  'diagnostics.reconnects': 'পুনঃসংযোগ',
+  'diagnostics.setup': 'সংযোগ স্থাপন',
+  'diagnostics.tokens': 'টোকেন',
+  'diagnostics.chart': 'শেষ {count}টি পালার দেরি',
+  'diagnostics.interrupted': 'বাধাপ্রাপ্ত',
+  'diagnostics.approximate': '“সবসময়” মোডে আপনার কথা কখন শেষ হলো তা ট্রান্সক্রিপশন থেকে ধরা হয়, তাই সময়গুলো আনুমানিক।',
+
+  'interpreter.from': 'যে ভাষা থেকে',
+  'interpreter.to': 'যে ভাষায়',
+  'interpreter.swap': 'ভাষা অদলবদল করুন',
+  'interpreter.oneWay': 'শুধু এক দিকে',
+  'interpreter.translation': 'অনুবাদ',
+
+  'announce.connected': 'সংযোগ হয়েছে। বন্ধু শুনছে।',
+  'announce.ended': 'কথোপকথন শেষ হয়েছে।',
+  'announce.unmuted': 'মাইক্রোফোন চালু',
+  'announce.reply': 'বন্ধু: {text}',
+  'announce.captionsOn': 'ক্যাপশন চালু',
+  'announce.captionsOff': 'ক্যাপশন বন্ধ',
+
+  'captions.label': 'লাইভ ক্যাপশন',
+  'captions.you': 'আপনি',
+  'captions.bondhu': 'বন্ধু',
+
+  'widget.idle': 'বন্ধুর সাথে কথা বলুন',
+
+  'shortcut.toggleConversation': 'কথোপকথন শুরু বা শেষ করুন',
+  'shortcut.toggleMute': 'মাইক্রোফোন বন্ধ বা চালু করুন',
+  'shortcut.stopSpeaking': 'বন্ধুর কথা থামান',
+  'shortcut.toggleCaptions': 'ক্যাপশন দেখান বা লুকান',
+  'shortcut.pushToTalk': 'পুশ-টু-টক মোডে চেপে ধরে কথা বলুন',
+
+  'summary.title': 'সারসংক্ষেপ',
+  'summary.generate': 'সারসংক্ষেপ করুন',
+  'summary.regenerate': 'আবার সারসংক্ষেপ করুন',
+  'summary.pending': 'কথোপকথনের সারসংক্ষেপ তৈরি হচ্ছে…',
+  'summary.failed': 'সারসংক্ষেপ করা যায়নি: {reason}',
+  'summary.actionItems': 'করণীয়',
+  'summary.kind.reminder': 'রিমাইন্ডার',
+  'summary.kind.shopping': 'বাজারের তালিকা',
+  'summary.kind.phone': 'ফোন নম্বর',
+  'summary.kind.task': 'কাজ',
+  'summary.copy': 'কপি',
+  'summary.copied': 'কপি হয়েছে',
+  'summary.addToCalendar': 'ক্যালেন্ডারে যোগ করুন',
+  'summary.saveText': 'লেখা হিসেবে সেভ করুন',
+  'summary.exportList': 'তালিকা সেভ করুন',
+
+  'offline.title': 'আপনি অফলাইনে আছেন',
+  'offline.body': 'বন্ধুর সাথে কথা বলতে ইন্টারনেট সংযোগ লাগবে। আপনার সংরক্ষিত কথোপকথনগুলো এখানেই আছে।',
+  'offline.saved': 'সংরক্ষিত কথোপকথন',
+  'offline.showAll': 'সব কথোপকথন',
+
+  'settings.title': 'সেটিংস',
+  'settings.close': 'সেটিংস বন্ধ করুন',
+  'settings.activeNote': 'বেশিরভাগ পরিবর্তন পরের সংযোগে কার্যকর হবে; মাইক্রোফোন ও প্লেব্যাকের পরিবর্তন এখনই।',
+  'settings.appLanguage': 'অ্যাপের ভাষা',
+  'settings.persona': 'ব্যক্তিত্ব',
+  'settings.newPreset': '+ নতুন প্রিসেট',
+  'settings.edit': 'সম্পাদনা',
+  'settings.delete': 'মুছুন',
+  'settings.presetName': 'প্রিসেটের নাম',
+  'settings.presetInstruction': "সিস্টেম নির্দেশনা, যেমন: You are 'Bondhu', a ...",
+  'settings.cancel': 'বাতিল',
+  'settings.save': 'সংরক্ষণ',
+  'settings.responseLanguage': 'উত্তরের ভাষা',
+  'settings.responseLanguage.bangla': 'শুধু বাংলা',
+  'settings.responseLanguage.banglish': 'Banglish',
+  'settings.responseLanguage.code-switch': 'বাংলা + English',
+  'settings.formality': 'সম্বোধন',
+  'settings.microphone': 'মাইক্রোফোন',
+  'settings.defaultMicrophone': 'সিস্টেমের ডিফল্ট',
+  'settings.microphoneN': 'মাইক্রোফোন {n}',
+  'settings.echoCancellation': 'প্রতিধ্বনি কমানো',
+  'settings.noiseSuppression': 'আশেপাশের শব্দ কমানো',
+  'settings.autoGainControl': 'স্বয়ংক্রিয় আওয়াজ',
+  'settings.inputMode': 'মাইক মোড',
+  'settings.pushToTalkHint': 'কথা বলার সময় টক বাটন বা স্পেসবার চেপে ধরে রাখুন।',
+  'settings.vadSensitivity': 'সংবেদনশীলতা: {percent}%',
+  'settings.vadHangover': 'পালা শেষ করার আগে বিরতি: {ms} মিলিসেকেন্ড',
+  'settings.bargeIn': 'বাধা দেওয়া',
+  'settings.bargeInHint': 'আপনি কথা শুরু করলেই বন্ধুর কণ্ঠ থেমে যাবে। স্পিকারের প্রতিধ্বনিতে উত্তর বারবার কেটে গেলে এটি বন্ধ রাখুন।',
+  'settings.searchGrounding': 'ওয়েবে খোঁজা',
+  'settings.searchGroundingHint': 'আবহাওয়া, ট্রেনের সময়, দাম বা খবরের মতো হালনাগাদ তথ্যের জন্য বন্ধুকে Google-এ খুঁজতে দিন। যেসব পাতা থেকে উত্তর এসেছে সেগুলো উত্তরের নিচে দেখাবে।',
+  'settings.summarize': 'কথোপকথনের সারসংক্ষেপ',
+  'settings.summarizeHint': 'কথোপকথন শেষ হলে বন্ধু বাংলায় একটি ছোট সারসংক্ষেপ লিখবে, আর রিমাইন্ডার, বাজারের তালিকা ও ফোন নম্বর আলাদা করে দেখাবে। সংরক্ষিত যেকোনো কথোপকথনের সারসংক্ষেপ তার পাতা থেকেও করা যায়।',
+  'settings.textOnly': 'শুধু লেখা',
+  'settings.textOnlyHint': 'কথা না বলে লিখুন, উত্তরও লেখায় পাবেন। মাইক্রোফোন বন্ধ থাকবে। টেক্সট আউটপুট দিতে পারে এমন মডেল লাগবে, যেমন Gemini Live 2.5 Flash।',
+  'settings.camera': 'ক্যামেরা',
+  'settings.cameraFrameRate': 'প্রতি সেকেন্ডে ছবি',
+  'settings.cameraFacing.environment': 'পেছনের',
+  'settings.cameraFacing.user': 'সামনের',
+  'settings.cameraHint': 'বেশি ছবি চলমান দৃশ্যে কাজে দেয়, তবে ডেটা বেশি খরচ হয়।',
+  'settings.accessibility': 'সহজ ব্যবহার',
+  'settings.captions': 'যা বলা হচ্ছে তা বড়, স্পষ্ট অক্ষরে ক্যাপশন হিসেবে দেখান',
+  'settings.announceReplies': 'স্ক্রিন রিডারে বন্ধুর উত্তর পড়ে শোনান',
+  'settings.shortcuts': 'কিবোর্ড শর্টকাট',
+  'settings.visualizer': 'ভিজুয়ালাইজার',
+  'settings.visualizer.dual-ring': 'দুজনের কণ্ঠ',
+  'settings.visualizer.radial': 'স্পেকট্রাম',
+  'settings.visualizer.waveform': 'তরঙ্গ',
+  'settings.visualizerHint': 'ভেতরের বৃত্ত: আপনার কণ্ঠ। বাইরের বৃত্ত: বন্ধু।',
+  'settings.conversationMode': 'ধরন',
+  'settings.conversationMode.companion': 'সঙ্গী',
+  'settings.conversationMode.interpreter': 'দোভাষী',
+  'settings.interpreterHint': 'বন্ধু প্রতিটি কথা অন্য ভাষায় আবার বলবে, আর কিছু করবে না। পারসোনা, স্মৃতি ও টুল ব্যবহার হবে না।',
+  'settings.handsFree': 'হাত ছাড়াই',
+  'settings.handsFreeHint': 'আপনার ডাক-বাক্য শুনলেই কথোপকথন শুরু হবে। তার আগে মাইকের শব্দ শুধু এই ডিভাইসেই শোনা হয়।',
+  'settings.handsFreeIdle': '{seconds} সেকেন্ড চুপ থাকলে শেষ হবে',
+  'settings.wakeWordSensitivity': 'ডাক-বাক্যের সংবেদনশীলতা: {percent}%',
+  'settings.wakeWord.record': 'ডাক-বাক্য রেকর্ড করুন',
+  'settings.wakeWord.recording': 'এখন বলুন...',
+  'settings.wakeWord.samples': '{total}টির মধ্যে {count}টি রেকর্ডিং',
+  'settings.wakeWord.clear': 'মুছুন',
+  'settings.wakeWord.notHeard': 'ঠিক শোনা যায়নি। বাক্যটি একবার বলে একটু থামুন।',
+  'settings.wakeWord.hint': '“হেই বন্ধু”-র মতো ছোট একটি বাক্য প্রতিবার একইভাবে বলে একটু থামুন। শুধু এর বৈশিষ্ট্যগুলো এই ডিভাইসেই রাখা হয়।',
+  'settings.voice': 'কণ্ঠ',
+  'settings.model': 'মডেল',
+};
@@ -0,0 +1,262 @@
+import type { Catalog } from './translator';
+
+// The reference catalog: every other locale must provide the same keys.
+// `{name}` placeholders are filled in by `t`; plural entries by `plural`.
+export const en = {
+  'app.title': 'Bondhu AI',
+  'app.subtitle': 'Bangla Live Assistant',
+  'app.documentTitle': 'Bondhu AI · Bangla Live Assistant',
+
+  'header.history': 'Conversation history',
+  'header.diagnostics': 'Diagnostics',
+  'header.settings': 'Settings',
+  'header.memory': 'What Bondhu remembers',
+  'header.record': 'REC',
+  'header.recordHint': 'Record the next conversation',
+
+  'status.idle': 'Tap the mic to start speaking Bengali',
+  'status.connecting': 'Connecting to Gemini...',
+  'status.thinking': 'Thinking...',
+  'status.speaking': 'Speaking...',
+  'status.listening': 'Listening...',
+  'status.reconnecting': 'Reconnecting...',
+  'status.wakeListening': 'Say your wake phrase to start',
+
+  'conversation.start': 'Start conversation',
+  'conversation.stop': 'End conversation',
+  'conversation.backToLive': 'Back to live',
+  'conversation.typed': 'Typed',
+  'conversation.photo': 'Photo',
+  'conversation.cameraFrame': 'Camera view',
+  'conversation.sources': 'Sources',
+  'conversation.openSource': 'Open {title} in a new tab',
+  'conversation.transcript': 'Conversation',
+  'conversation.mute': 'Mute microphone',
+  'conversation.muted': 'Microphone off',
+
+  'error.connect-failed': 'Could not connect: {reason}',
+  'error.connection-lost': 'Connection lost: {reason}',
+  'error.capture-failed': 'The microphone stopped sending audio. Please start again.',
+  'error.camera-failed': 'Could not start the camera: {reason}',
+  'error.image-failed': 'Could not read that image. Try a JPEG or PNG photo.',
+  'error.generic': 'Something went wrong: {reason}',
+
+  'mic.permission-denied.title': 'Microphone access blocked',
+  'mic.permission-denied.step1': 'Click the lock icon in the address bar',
+  'mic.permission-denied.step2': 'Set Microphone to Allow',
+  'mic.permission-denied.step3': 'Then try again',
+  'mic.not-found.title': 'No microphone found',
+  'mic.not-found.step1': 'Plug in a microphone or headset',
+  'mic.not-found.step2': 'Or pick another microphone in Settings',
+  'mic.in-use.title': 'Microphone is busy',
+  'mic.in-use.step1': 'Close calls in other apps or tabs',
+  'mic.in-use.step2': 'Replug the microphone if needed',
+  'mic.unknown.title': 'Could not start the microphone',
+  'mic.unknown.step1': 'Reload the page and try again',
+  'mic.retry': 'Try again',
+  'mic.openSettings': 'Settings',
+  'mic.dismiss': 'Dismiss',
+  'mic.level': 'Microphone level',
+
+  'inputMode.continuous': 'Always on',
+  'inputMode.push-to-talk': 'Push to talk',
+  'inputMode.vad': 'Voice detect',
+  'pushToTalk.hold': 'Hold',
+  'pushToTalk.speaking': 'Speaking...',
+
+  'playback.idle': 'Listening',
+  'playback.thinking': 'Thinking...',
+  'playback.speaking': 'Speaking...',
+  'playback.paused': 'Paused',
+  'playback.pause': 'Pause playback',
+  'playback.resume': 'Resume playback',
+  'playback.skip': 'Skip this reply',
+  'playback.volume': 'Volume',
+  'playback.speed': 'Playback speed',
+
+  'composer.placeholder': 'Type a message...',
+  'composer.send': 'Send',
+  'composer.attachPhoto': 'Attach a photo',
+  'composer.cameraOn': 'Turn camera on',
+  'composer.cameraOff': 'Turn camera off',
+
+  'camera.preview': 'Camera preview',
+  'camera.flip': 'Switch camera',
+
+  'tool.running': 'Running...',
+  'tool.completed': 'Done',
+  'tool.failed': 'Failed',
+  'tool.cancelled': 'Cancelled',
+
+  'recording.label': 'Recording ({duration})',
+  'recording.dismiss': 'Dismiss recording',
+
+  'history.title': 'History',
+  'history.close': 'Close history',
+  'history.search': 'Search',
+  'history.empty': 'Nothing found',
+  'history.rename': 'Rename',
+  'history.delete': 'Delete',
+  'history.confirmDelete': 'Delete this conversation?',
+  'history.messageCount': { one: '{count} message', other: '{count} messages' },
+
+  'memory.title': 'Memory',
+  'memory.close': 'Close memory',
+  'memory.intro': 'Bondhu reads these at the start of every conversation. They are stored only on this device.',
+  'memory.count': { one: '{count} fact', other: '{count} facts' },
+  'memory.empty': 'Nothing remembered yet.',
+  'memory.addPlaceholder': 'e.g. I am vegetarian',
+  'memory.add': 'Add',
+  'memory.edit': 'Edit',
+  'memory.save': 'Save',
+  'memory.cancel': 'Cancel',
+  'memory.delete': 'Delete',
+  'memory.suggested': 'Suggested by Bondhu',
+  'memory.export': 'Export',
+  'memory.import': 'Import',
+  'memory.imported': { one: 'Imported {count} fact', other: 'Imported {count} facts' },
+  'memory.importFailed': 'That file is not a Bondhu memory export.',
+  'memory.wipe': 'Forget everything',
+  'memory.confirmWipe': 'Forget everything Bondhu remembers about you? This cannot be undone.',
+  'memory.proposal': 'Remember this?',
+  'memory.accept': 'Remember',
+  'memory.dismiss': 'No thanks',
+
+  'diagnostics.title': 'Diagnostics',
+  'diagnostics.expand': 'Show details',
+  'diagnostics.collapse': 'Hide details',
+  'diagnostics.close': 'Close diagnostics',
+  'diagnostics.export': 'Export JSON',
+  'diagnostics.clear': 'Clear',
+  'diagnostics.turnCount': { one: '{count} turn', other: '{count} turns' },
+  'diagnostics.empty': 'No turns yet. Timings appear here as you talk to Bondhu.',
+  'diagnostics.firstAudio': 'First audio',
+  'diagnostics.firstTranscription': 'First transcript',
+  'diagnostics.complete': 'Turn complete',
+  'diagnostics.medianP90': 'median / p90',
+  'diagnostics.ms': '{value} ms',
+  'diagnostics.kb': '{value} KB',
+  'diagnostics.none': '–',
+  'diagnostics.audioChunks': 'Audio chunks',
+  'diagnostics.chunkSize': 'Average chunk',
+  'diagnostics.underruns': 'Buffer underruns',
+  'diagnostics.interruptions': 'Interruptions',
+  'diagnostics.reconnects': 'Reconnects',
+  'diagnostics.setup': 'Connection setup',
+  'diagnostics.tokens': 'Tokens',
+  'diagnostics.chart': 'Latency of the last {count} turns',
+  'diagnostics.interrupted': 'interrupted',
+  'diagnostics.approximate': 'In "Always on" mode the end of your speech is taken from the transcription, so timings are approximate.',
+
+  'interpreter.from': 'Translate from',
+  'interpreter.to': 'Translate into',
+  'interpreter.swap': 'Swap languages',
+  'interpreter.oneWay': 'One way only',
+  'interpreter.translation': 'Translation',
+
+  'announce.connected': 'Connected. Bondhu is listening.',
+  'announce.ended': 'Conversation ended.',
+  'announce.unmuted': 'Microphone on',
+  'announce.reply': 'Bondhu: {text}',
+  'announce.captionsOn': 'Captions on',
+  'announce.captionsOff': 'Captions off',
+
+  'captions.label': 'Live captions',
+  'captions.you': 'You',
+  'captions.bondhu': 'Bondhu',
+
+  'widget.idle': 'Talk to Bondhu',
+
+  'shortcut.toggleConversation': 'Start or end the conversation',
+  'shortcut.toggleMute': 'Mute or unmute the microphone',
+  'shortcut.stopSpeaking': 'Stop Bondhu speaking',
+  'shortcut.toggleCaptions': 'Show or hide captions',
+  'shortcut.pushToTalk': 'Hold to talk, in push-to-talk mode',
+
+  'summary.title': 'Summary',
+  'summary.generate': 'Summarize',
+  'summary.regenerate': 'Summarize again',
+  'summary.pending': 'Summarizing the conversation…',
+  'summary.failed': 'Could not summarize: {reason}',
+  'summary.actionItems': 'To do',
+  'summary.kind.reminder': 'Reminder',
+  'summary.kind.shopping': 'Shopping list',
+  'summary.kind.phone': 'Phone number',
+  'summary.kind.task': 'Task',
+  'summary.copy': 'Copy',
+  'summary.copied': 'Copied',
+  'summary.addToCalendar': 'Add to calendar',
+  'summary.saveText': 'Save as text',
+  'summary.exportList': 'Save list',
+
+  'offline.title': 'You are offline',
+  'offline.body': 'Bondhu needs an internet connection to talk. Your saved conversations are still here.',
+  'offline.saved': 'Saved conversations',
+  'offline.showAll': 'All conversations',
+
+  'settings.title': 'Settings',
+  'settings.close': 'Close settings',
+  'settings.activeNote': 'Most changes apply on the next connect; microphone and playback changes apply now.',
+  'settings.appLanguage': 'App language',
+  'settings.persona': 'Persona',
+  'settings.newPreset': '+ New preset',
+  'settings.edit': 'Edit',
+  'settings.delete': 'Delete',
+  'settings.presetName': 'Preset name',
+  'settings.presetInstruction': "System instruction, e.g. You are 'Bondhu', a ...",
+  'settings.cancel': 'Cancel',
+  'settings.save': 'Save',
+  'settings.responseLanguage': 'Response language',
+  'settings.responseLanguage.bangla': 'Bangla only',
+  'settings.responseLanguage.banglish': 'Banglish',
+  'settings.responseLanguage.code-switch': 'Bangla + English',
+  'settings.formality': 'Formality',
+  'settings.microphone': 'Microphone',
+  'settings.defaultMicrophone': 'System default',
+  'settings.microphoneN': 'Microphone {n}',
+  'settings.echoCancellation': 'Echo cancellation',
+  'settings.noiseSuppression': 'Noise suppression',
+  'settings.autoGainControl': 'Automatic gain',
+  'settings.inputMode': 'Input mode',
+  'settings.pushToTalkHint': 'Hold the talk button or the spacebar while speaking.',
+  'settings.vadSensitivity': 'Sensitivity: {percent}%',
+  'settings.vadHangover': 'Pause before ending turn: {ms} ms',
+  'settings.bargeIn': 'Barge-in',
+  'settings.bargeInHint': "Stop Bondhu's voice as soon as you start speaking. Turn off if speaker echo keeps cutting replies short.",
+  'settings.searchGrounding': 'Web search',
+  'settings.searchGroundingHint': 'Let Bondhu search Google for current things like weather, train times, prices and news, and show the pages it used under the answer.',
+  'settings.summarize': 'Conversation summary',
+  'settings.summarizeHint': 'When a conversation ends, Bondhu writes a short Bangla summary and picks out reminders, shopping lists and phone numbers. Any saved conversation can also be summarized from its page.',
+  'settings.textOnly': 'Text-only mode',
+  'settings.textOnlyHint': 'Type instead of speaking and get text replies. The microphone stays off. Needs a model with text output, e.g. Gemini Live 2.5 Flash.',
+  'settings.camera': 'Camera',
+  'settings.cameraFrameRate': 'Frames per second',
+  'settings.cameraFacing.environment': 'Back',
+  'settings.cameraFacing.user': 'Front',
+  'settings.cameraHint': 'More frames help with moving scenes but use more data.',
+  'settings.accessibility': 'Accessibility',
+  'settings.captions': 'Show large, high-contrast captions of what is being said',
+  'settings.announceReplies': 'Have screen readers read out Bondhu\'s replies',
+  'settings.shortcuts': 'Keyboard shortcuts',
+  'settings.visualizer': 'Visualizer',
+  'settings.visualizer.dual-ring': 'Both voices',
+  'settings.visualizer.radial': 'Spectrum',
+  'settings.visualizer.waveform': 'Waveform',
+  'settings.visualizerHint': 'Inner ring: your voice. Outer ring: Bondhu.',
+  'settings.conversationMode': 'Mode',
+  'settings.conversationMode.companion': 'Companion',
+  'settings.conversationMode.interpreter': 'Interpreter',
+  'settings.interpreterHint': 'Bondhu speaks every turn again in the other language and does nothing else. Persona, memories and tools are not used.',
+  'settings.handsFree': 'Hands-free',
+  'settings.handsFreeHint': 'Listen for your wake phrase and start talking when you say it. The microphone is only heard on this device until then.',
+  'settings.handsFreeIdle': 'End after {seconds} s of silence',
+  'settings.wakeWordSensitivity': 'Wake phrase sensitivity: {percent}%',
+  'settings.wakeWord.record': 'Record wake phrase',
+  'settings.wakeWord.recording': 'Say it now...',
+  'settings.wakeWord.samples': '{count} of {total} recordings',
+  'settings.wakeWord.clear': 'Clear',
+  'settings.wakeWord.notHeard': "Didn't catch that. Say the phrase once, then pause.",
+  'settings.wakeWord.hint': 'Say a short phrase such as “হেই বন্ধু” the same way each time, then pause. Only its features are kept, on this device.',
+  'settings.voice': 'Voice',
+  'settings.model': 'Model',
+} satisfies Catalog;
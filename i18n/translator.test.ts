@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { createTranslator } from './translator';
+import { en } from './en';
+import { bn } from './bn';
+
+describe('createTranslator', () => {
+  const english = createTranslator('en');
+  const bangla = createTranslator('bn');
+
+  it('looks up messages in the chosen catalog', () => {
+    expect(english.t('status.listening')).toBe('Listening...');
+    expect(bangla.t('status.listening')).toBe('আমি শুনছি...');
+  });
+
+  it('fills placeholders and formats numbers for the locale', () => {
+    expect(english.t('error.connection-lost', { reason: 'timeout' })).toBe('Connection lost: timeout');
+    expect(english.t('settings.vadHangover', { ms: 1200 })).toBe('Pause before ending turn: 1,200 ms');
+    expect(bangla.t('settings.microphoneN', { n: 2 })).toBe('মাইক্রোফোন ২');
+  });
+
+  it('leaves unknown placeholders in place', () => {
+    expect(english.t('error.generic')).toBe('Something went wrong: {reason}');
+  });
+
+  it('picks plural forms by count', () => {
+    expect(english.plural('history.messageCount', 1)).toBe('1 message');
+    expect(english.plural('history.messageCount', 0)).toBe('0 messages');
+    expect(english.plural('history.messageCount', 12)).toBe('12 messages');
+    expect(bangla.plural('history.messageCount', 1)).toBe('১টি বার্তা');
+    expect(bangla.plural('history.messageCount', 12)).toBe('১২টি বার্তা');
+  });
+
+  it('writes Bengali numerals with South Asian grouping', () => {
+    expect(bangla.formatNumber(1234567)).toBe('১২,৩৪,৫৬৭');
+    expect(bangla.formatNumber(7, { minimumIntegerDigits: 2 })).toBe('০৭');
+  });
+
+  it('formats message timestamps in Bengali numerals', () => {
+    const timestamp = new Date(2025, 3, 14, 15, 5);
+    expect(bangla.formatTime(timestamp)).toMatch(/^৩:০৫/);
+    expect(bangla.formatDate(timestamp)).toContain('২০২৫');
+    expect(bangla.formatDateTime(timestamp)).not.toMatch(/[0-9]/);
+    expect(english.formatTime(timestamp)).toMatch(/^3:05\sPM$/);
+  });
+
+  it('keeps the catalogs in step', () => {
+    expect(Object.keys(bn).sort()).toEqual(Object.keys(en).sort());
+  });
+});
@@ -0,0 +1,77 @@
+import { toBanglaDigits } from '../utils/banglaCalendar';
+import { en } from './en';
+import { bn } from './bn';
+
+export type Locale = 'bn' | 'en';
+
+export const LOCALES: { value: Locale; label: string }[] = [
+  { value: 'bn', label: 'বাংলা' },
+  { value: 'en', label: 'English' },
+];
+
+/** Forms of a countable phrase, keyed by Intl.PluralRules category. `other` is the fallback. */
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type Catalog = Record<string, string | PluralForms>;
+
+export type MessageKey = keyof typeof en;
+export type PluralKey = { [K in MessageKey]: (typeof en)[K] extends PluralForms ? K : never }[MessageKey];
+export type TextKey = Exclude<MessageKey, PluralKey>;
+
+/** Shape every non-reference catalog must match, so a missing key fails the type check. */
+export type LocaleCatalog = { [K in MessageKey]: K extends PluralKey ? PluralForms : string };
+
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<Locale, LocaleCatalog> = { en, bn };
+
+const INTL_LOCALES: Record<Locale, string> = { bn: 'bn-BD', en: 'en-US' };
+
+export interface Translator {
+  locale: Locale;
+  /** Looks up `key` and fills its `{name}` placeholders. Numbers are formatted for the locale. */
+  t: (key: TextKey, params?: MessageParams) => string;
+  /** Picks the plural form for `count` and fills `{count}` and any other placeholders. */
+  plural: (key: PluralKey, count: number, params?: MessageParams) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  /** Clock time, e.g. "৩:০৫ PM" or "3:05 PM". */
+  formatTime: (date: Date) => string;
+  formatDate: (date: Date) => string;
+  formatDateTime: (date: Date) => string;
+}
+
+export const createTranslator = (locale: Locale): Translator => {
+  const catalog = CATALOGS[locale];
+  const intlLocale = INTL_LOCALES[locale];
+  // Runtimes without Bengali locale data fall back to Latin digits; convert them
+  const localize = (text: string) => (locale === 'bn' ? toBanglaDigits(text) : text);
+
+  const pluralRules = new Intl.PluralRules(intlLocale);
+  const timeFormat = new Intl.DateTimeFormat(intlLocale, { hour: 'numeric', minute: '2-digit' });
+  const dateFormat = new Intl.DateTimeFormat(intlLocale, { dateStyle: 'medium' });
+  const dateTimeFormat = new Intl.DateTimeFormat(intlLocale, { dateStyle: 'medium', timeStyle: 'short' });
+
+  const formatNumber = (value: number, options?: Intl.NumberFormatOptions) =>
+    localize(new Intl.NumberFormat(intlLocale, options).format(value));
+
+  const interpolate = (template: string, params: MessageParams = {}) =>
+    template.replace(/\{(\w+)\}/g, (match, name: string) => {
+      const value = params[name];
+      if (value === undefined) return match;
+      return typeof value === 'number' ? formatNumber(value) : value;
+    });
+
+  return {
+    locale,
+    t: (key, params) => interpolate(catalog[key] as string, params),
+    plural: (key, count, params) => {
+      const forms = catalog[key] as PluralForms;
+      const form = forms[pluralRules.select(count)] ?? forms.other;
+      return interpolate(form, { ...params, count });
+    },
+    formatNumber,
+    formatTime: date => localize(timeFormat.format(date)),
+    formatDate: date => localize(dateFormat.format(date)),
+    formatDateTime: date => localize(dateTimeFormat.format(date)),
+  };
+};
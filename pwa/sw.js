@@ -0,0 +1,47 @@
+// Service worker that keeps the app shell available offline. Talking to
+// Bondhu still needs the network; this only lets the UI, saved transcripts
+// and settings load without it.
+//
+// pwa/vitePlugin.ts fills in the placeholders below with the build id and
+// the files Vite emitted, and writes the result to dist/sw.js.
+
+const BUILD_ID = __BUILD_ID__;
+const PRECACHE = __PRECACHE__;
+
+const CACHE_PREFIX = 'bondhu-shell-';
+const CACHE = CACHE_PREFIX + BUILD_ID;
+const SHELL = '/index.html';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE)
+      .then((cache) => cache.addAll(PRECACHE))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+// Drop the shells of older builds
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys
+        .filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE)
+        .map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // Tokens and anything cross-origin, like the Live API, always go to the network
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    // Fresh HTML while online so new builds show up; the cached shell otherwise
+    event.respondWith(fetch(request).catch(() => caches.match(SHELL)));
+    return;
+  }
+
+  event.respondWith(caches.match(request).then((cached) => cached ?? fetch(request)));
+});
@@ -0,0 +1,37 @@
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import type { Plugin } from 'vite';
+
+// Files from public/ that the offline shell needs; Vite copies these as-is
+const PUBLIC_FILES = ['/manifest.webmanifest', '/icons/icon-192.png', '/icons/icon-512.png'];
+
+// Source maps aren't needed offline, and every browser we support takes
+// woff2, so the older woff copies of the fonts are skipped
+const isPrecached = (fileName: string) => !fileName.endsWith('.map') && !fileName.endsWith('.woff');
+
+/**
+ * Emits dist/sw.js from pwa/sw.js with the build's files listed for
+ * precaching. The build id changes whenever any emitted file does, which is
+ * what makes browsers install the new worker.
+ */
+export const serviceWorker = (): Plugin => ({
+  name: 'bondhu-service-worker',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    const files = Object.keys(bundle).filter(isPrecached).map(fileName => `/${fileName}`);
+    const precache = [...files, ...PUBLIC_FILES].sort();
+
+    const hash = createHash('sha256');
+    for (const file of Object.values(bundle)) {
+      hash.update(file.fileName);
+      hash.update(file.type === 'chunk' ? file.code : file.source);
+    }
+
+    const source = readFileSync(path.resolve(__dirname, 'sw.js'), 'utf8')
+      .replace('__BUILD_ID__', JSON.stringify(hash.digest('hex').slice(0, 12)))
+      .replace('__PRECACHE__', JSON.stringify(precache, null, 2));
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  },
+});
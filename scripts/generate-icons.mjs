@@ -0,0 +1,123 @@
+// Renders the app icons in public/icons: the header's emerald microphone
+// badge, as PNGs for the web manifest and iOS. No image libraries needed:
+// shapes are signed distance functions, supersampled for anti-aliasing.
+//
+//   node scripts/generate-icons.mjs
+
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { deflateSync } from 'node:zlib';
+
+const OUT_DIR = new URL('../public/icons/', import.meta.url);
+const SUPERSAMPLE = 4;
+// emerald-500 -> teal-400, as in the header logo
+const FROM = [16, 185, 129];
+const TO = [45, 212, 191];
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes) => {
+  let c = 0xffffffff;
+  for (const b of bytes) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+const chunk = (type, data) => {
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+const encodePng = (size, rgba) => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(size, 0);
+  header.writeUInt32BE(size, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // RGBA
+  // Each row starts with filter type 0
+  const raw = Buffer.alloc(size * (size * 4 + 1));
+  for (let y = 0; y < size; y++) {
+    rgba.copy(raw, y * (size * 4 + 1) + 1, y * size * 4, (y + 1) * size * 4);
+  }
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw, { level: 9 })),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+};
+
+// Signed distances in unit coordinates; negative is inside
+const circle = (x, y, cx, cy, r) => Math.hypot(x - cx, y - cy) - r;
+const box = (x, y, cx, cy, hw, hh) => {
+  const dx = Math.abs(x - cx) - hw;
+  const dy = Math.abs(y - cy) - hh;
+  return Math.hypot(Math.max(dx, 0), Math.max(dy, 0)) + Math.min(Math.max(dx, dy), 0);
+};
+const capsule = (x, y, cx, top, bottom, r) => box(x, y, cx, (top + bottom) / 2, 0, (bottom - top) / 2) - r;
+
+/** The microphone glyph, centred in the unit square and scaled by `scale`. */
+const microphone = (px, py, scale) => {
+  const x = 0.5 + (px - 0.5) / scale;
+  const y = 0.5 + (py - 0.5) / scale;
+  const head = capsule(x, y, 0.5, 0.3, 0.47, 0.1);
+  // Lower half of a ring around the head
+  const ring = Math.abs(circle(x, y, 0.5, 0.47, 0.19)) - 0.03;
+  const cradle = y < 0.47 ? Math.max(ring, 0.47 - y) : ring;
+  const stem = box(x, y, 0.5, 0.7, 0.03, 0.05);
+  const base = box(x, y, 0.5, 0.76, 0.12, 0.025) - 0.01;
+  return Math.min(head, cradle, stem, base);
+};
+
+/**
+ * `maskable` fills the square edge to edge and keeps the glyph inside the
+ * 80% safe zone; otherwise the badge is a circle on transparency.
+ */
+const render = (size, maskable) => {
+  const rgba = Buffer.alloc(size * size * 4);
+  const step = 1 / SUPERSAMPLE;
+  for (let py = 0; py < size; py++) {
+    for (let px = 0; px < size; px++) {
+      let badge = 0;
+      let glyph = 0;
+      for (let sy = 0; sy < SUPERSAMPLE; sy++) {
+        for (let sx = 0; sx < SUPERSAMPLE; sx++) {
+          const x = (px + (sx + 0.5) * step) / size;
+          const y = (py + (sy + 0.5) * step) / size;
+          if (maskable || circle(x, y, 0.5, 0.5, 0.48) < 0) badge++;
+          if (microphone(x, y, maskable ? 0.75 : 0.9) < 0) glyph++;
+        }
+      }
+      const samples = SUPERSAMPLE * SUPERSAMPLE;
+      const coverage = glyph / samples;
+      // Emerald at the bottom left to teal at the top right, like `bg-gradient-to-tr`
+      const t = Math.min(1, Math.max(0, (py - px + size) / (2 * size)));
+      const i = (py * size + px) * 4;
+      for (let c = 0; c < 3; c++) {
+        const background = TO[c] + (FROM[c] - TO[c]) * t;
+        rgba[i + c] = Math.round(background + (255 - background) * coverage);
+      }
+      rgba[i + 3] = Math.round((badge / samples) * 255);
+    }
+  }
+  return encodePng(size, rgba);
+};
+
+const ICONS = [
+  ['icon-192.png', 192, false],
+  ['icon-512.png', 512, false],
+  ['icon-maskable-512.png', 512, true],
+  ['apple-touch-icon.png', 180, true],
+];
+
+mkdirSync(OUT_DIR, { recursive: true });
+for (const [name, size, maskable] of ICONS) {
+  writeFileSync(new URL(name, OUT_DIR), render(size, maskable));
+  console.log(`Wrote public/icons/${name}`);
+}
@@ -0,0 +1,145 @@
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AppServerOptions, SUMMARY_PATH, TOKEN_PATH, createAppServer } from './app';
+import { EphemeralToken } from './tokens';
+import { SummaryContent } from '../types';
+
+const TOKEN: EphemeralToken = { token: 'auth_tokens/abc', expiresAt: '2026-03-01T10:30:00.000Z', apiVersion: 'v1alpha' };
+const SUMMARY: SummaryContent = { summary: 'বাজারের তালিকা নিয়ে কথা হলো।', actionItems: [] };
+const WIDGET_ORIGIN = 'https://shop.example';
+
+let server: Server | null = null;
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await new Promise(resolve => server?.close(resolve) ?? resolve(undefined));
+  server = null;
+});
+
+/** Starts the server on a free port and returns its base URL. */
+const start = async (options: Partial<AppServerOptions> = {}) => {
+  server = createAppServer({ mintToken: async () => TOKEN, ...options });
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const postJson = (url: string, body: unknown) =>
+  fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+describe('createAppServer', () => {
+  describe('token endpoint', () => {
+    it('hands out a freshly minted token', async () => {
+      const mintToken = vi.fn(async () => TOKEN);
+      const base = await start({ mintToken });
+
+      const res = await fetch(base + TOKEN_PATH, { method: 'POST' });
+      expect(res.status).toBe(200);
+      expect(res.headers.get('cache-control')).toBe('no-store');
+      expect(await res.json()).toEqual(TOKEN);
+      expect(mintToken).toHaveBeenCalledTimes(1);
+    });
+
+    it('only accepts POST', async () => {
+      const base = await start();
+      const res = await fetch(base + TOKEN_PATH);
+      expect(res.status).toBe(405);
+      expect(res.headers.get('allow')).toBe('POST');
+    });
+
+    it('turns away a client over its limit', async () => {
+      const mintToken = vi.fn(async () => TOKEN);
+      const base = await start({ mintToken, rateLimit: { limit: 2, windowMs: 60_000 } });
+
+      const statuses = [];
+      for (let i = 0; i < 3; i++) statuses.push((await fetch(base + TOKEN_PATH, { method: 'POST' })).status);
+      const denied = await fetch(base + TOKEN_PATH, { method: 'POST' });
+
+      expect(statuses).toEqual([200, 200, 429]);
+      expect(Number(denied.headers.get('retry-after'))).toBeGreaterThan(0);
+      expect(mintToken).toHaveBeenCalledTimes(2);
+    });
+
+    it('reports an upstream failure without details', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const base = await start({ mintToken: async () => { throw new Error('API key not valid'); } });
+
+      const res = await fetch(base + TOKEN_PATH, { method: 'POST' });
+      expect(res.status).toBe(502);
+      expect(JSON.stringify(await res.json())).not.toContain('API key');
+    });
+  });
+
+  describe('widget origins', () => {
+    it('lets listed origins fetch tokens and nobody else', async () => {
+      const base = await start({ widgetOrigins: [WIDGET_ORIGIN] });
+
+      const listed = await fetch(base + TOKEN_PATH, { method: 'POST', headers: { Origin: WIDGET_ORIGIN } });
+      expect(listed.headers.get('access-control-allow-origin')).toBe(WIDGET_ORIGIN);
+      expect(listed.headers.get('vary')).toBe('Origin');
+
+      const other = await fetch(base + TOKEN_PATH, { method: 'POST', headers: { Origin: 'https://evil.example' } });
+      expect(other.headers.get('access-control-allow-origin')).toBeNull();
+    });
+
+    it('opens the widget files to listed origins, but not the rest of the app', async () => {
+      const staticDir = await mkdtemp(path.join(tmpdir(), 'bondhu-app-'));
+      try {
+        await mkdir(path.join(staticDir, 'widget'));
+        await writeFile(path.join(staticDir, 'widget', 'bondhu-assistant.js'), 'export {};');
+        await writeFile(path.join(staticDir, 'index.html'), '<!doctype html>');
+        const base = await start({ staticDir, widgetOrigins: [WIDGET_ORIGIN] });
+        const headers = { Origin: WIDGET_ORIGIN };
+
+        const widget = await fetch(`${base}/widget/bondhu-assistant.js`, { headers });
+        expect(widget.status).toBe(200);
+        expect(widget.headers.get('access-control-allow-origin')).toBe(WIDGET_ORIGIN);
+
+        const app = await fetch(`${base}/index.html`, { headers });
+        expect(app.headers.get('access-control-allow-origin')).toBeNull();
+      } finally {
+        await rm(staticDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('summary endpoint', () => {
+    const request = { startedAt: '2026-03-01T10:00', turns: [{ role: 'user', text: ' কাল বাজারে যেতে হবে ' }, { role: 'tool', text: 'x' }] };
+
+    it('summarizes a validated transcript', async () => {
+      const summarize = vi.fn(async () => SUMMARY);
+      const base = await start({ summarize });
+
+      const res = await postJson(base + SUMMARY_PATH, request);
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual(SUMMARY);
+      expect(summarize).toHaveBeenCalledWith({ startedAt: '2026-03-01T10:00', turns: [{ role: 'user', text: 'কাল বাজারে যেতে হবে' }] });
+    });
+
+    it('rejects a body that is not a transcript, or too large', async () => {
+      const summarize = vi.fn(async () => SUMMARY);
+      const base = await start({ summarize });
+
+      expect((await postJson(base + SUMMARY_PATH, { turns: [] })).status).toBe(400);
+      const huge = { ...request, turns: [{ role: 'user', text: 'ক'.repeat(600 * 1024) }] };
+      expect((await postJson(base + SUMMARY_PATH, huge)).status).toBe(400);
+      expect(summarize).not.toHaveBeenCalled();
+    });
+
+    it('has its own rate limit', async () => {
+      const base = await start({ summarize: async () => SUMMARY, summaryRateLimit: { limit: 1, windowMs: 60_000 } });
+
+      expect((await postJson(base + SUMMARY_PATH, request)).status).toBe(200);
+      expect((await postJson(base + SUMMARY_PATH, request)).status).toBe(429);
+      expect((await fetch(base + TOKEN_PATH, { method: 'POST' })).status).toBe(200);
+    });
+
+    it('is off without a summarizer', async () => {
+      const base = await start();
+      expect((await postJson(base + SUMMARY_PATH, request)).status).toBe(404);
+    });
+  });
+});
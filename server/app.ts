@@ -0,0 +1,154 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { createRateLimiter, RateLimitOptions } from './rateLimit';
+import { serveStatic } from './static';
+import { SummaryGenerator } from './summaries';
+import { TokenMinter } from './tokens';
+import { parseSummaryRequest } from '../utils/summary';
+
+export const TOKEN_PATH = '/api/token';
+export const SUMMARY_PATH = '/api/summary';
+/** Where the widget build (vite.widget.config.ts) ends up under the static directory. */
+export const WIDGET_PATH_PREFIX = '/widget/';
+
+// A long conversation's transcript is well under this
+const MAX_SUMMARY_BODY_BYTES = 512 * 1024;
+
+export interface AppServerOptions {
+  mintToken: TokenMinter;
+  /** Summarizes finished conversations; omit to turn the endpoint off. */
+  summarize?: SummaryGenerator;
+  /** Directory of the built app; omit to serve the API only. */
+  staticDir?: string;
+  /** Token requests per client. */
+  rateLimit?: RateLimitOptions;
+  /** Summary requests per client. */
+  summaryRateLimit?: RateLimitOptions;
+  /** Take the client address from X-Forwarded-For, when running behind a proxy. */
+  trustProxy?: boolean;
+  /** Origins of other sites that embed <bondhu-assistant>; they may load the widget and fetch tokens. */
+  widgetOrigins?: string[];
+}
+
+export const DEFAULT_TOKEN_RATE_LIMIT: RateLimitOptions = { limit: 10, windowMs: 60 * 1000 };
+export const DEFAULT_SUMMARY_RATE_LIMIT: RateLimitOptions = { limit: 5, windowMs: 60 * 1000 };
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+/** Resolves to undefined when the body is larger than `maxBytes` or not JSON. */
+const readJson = (req: IncomingMessage, maxBytes: number) =>
+  new Promise<unknown>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      // Keep draining an oversized body so the client still gets an answer
+      if (size <= maxBytes) chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (size > maxBytes) {
+        resolve(undefined);
+        return;
+      }
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        resolve(undefined);
+      }
+    });
+    req.on('error', reject);
+  });
+
+/**
+ * Serves the app, hands out ephemeral Live API tokens and summarizes
+ * finished conversations; the real key never leaves the server.
+ */
+export const createAppServer = ({
+  mintToken,
+  summarize,
+  staticDir,
+  rateLimit = DEFAULT_TOKEN_RATE_LIMIT,
+  summaryRateLimit = DEFAULT_SUMMARY_RATE_LIMIT,
+  trustProxy = false,
+  widgetOrigins = [],
+}: AppServerOptions): Server => {
+  const limiter = createRateLimiter(rateLimit);
+  const summaryLimiter = createRateLimiter(summaryRateLimit);
+
+  const clientKey = (req: IncomingMessage) => {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (trustProxy && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+    return req.socket.remoteAddress ?? 'unknown';
+  };
+
+  const handleToken = async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: 'Method not allowed' }, { Allow: 'POST' });
+      return;
+    }
+
+    const { allowed, retryAfterMs } = limiter.take(clientKey(req));
+    if (!allowed) {
+      sendJson(res, 429, { error: 'Too many token requests' }, { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) });
+      return;
+    }
+
+    try {
+      sendJson(res, 200, await mintToken());
+    } catch (err) {
+      console.error('Token minting failed', err);
+      sendJson(res, 502, { error: 'Could not create a session token' });
+    }
+  };
+
+  const handleSummary = async (req: IncomingMessage, res: ServerResponse, generate: SummaryGenerator) => {
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: 'Method not allowed' }, { Allow: 'POST' });
+      return;
+    }
+
+    const { allowed, retryAfterMs } = summaryLimiter.take(clientKey(req));
+    if (!allowed) {
+      sendJson(res, 429, { error: 'Too many summary requests' }, { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) });
+      return;
+    }
+
+    const request = parseSummaryRequest(await readJson(req, MAX_SUMMARY_BODY_BYTES));
+    if (!request) {
+      sendJson(res, 400, { error: 'Expected a transcript to summarize' });
+      return;
+    }
+
+    try {
+      sendJson(res, 200, await generate(request));
+    } catch (err) {
+      console.error('Summary failed', err);
+      sendJson(res, 502, { error: 'Could not summarize the conversation' });
+    }
+  };
+
+  return createServer((req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    // A token POST without a body or custom headers needs no preflight, so the header is all CORS needs
+    const origin = req.headers.origin;
+    if ((pathname === TOKEN_PATH || pathname.startsWith(WIDGET_PATH_PREFIX)) && origin && widgetOrigins.includes(origin)) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+    }
+    const handled = pathname === TOKEN_PATH
+      ? handleToken(req, res)
+      : pathname === SUMMARY_PATH && summarize
+        ? handleSummary(req, res, summarize)
+        : staticDir
+        ? serveStatic(staticDir, req, res)
+        : Promise.resolve(sendJson(res, 404, { error: 'Not found' }));
+
+    handled.catch((err) => {
+      console.error('Request failed', err);
+      if (!res.headersSent) sendJson(res, 500, { error: 'Internal error' });
+      else res.destroy();
+    });
+  });
+};
@@ -0,0 +1,43 @@
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createAppServer, DEFAULT_SUMMARY_RATE_LIMIT, DEFAULT_TOKEN_RATE_LIMIT } from './app';
+import { createSummaryGenerator } from './summaries';
+import { createTokenMinter } from './tokens';
+
+// Environment:
+//   GEMINI_API_KEY       required; stays on the server
+//   PORT                 default 8787
+//   GEMINI_API_BASE_URL  alternative upstream, e.g. a local stand-in for tests
+//   TOKEN_RATE_LIMIT     token requests per client per minute (default 10)
+//   SUMMARY_RATE_LIMIT   summary requests per client per minute (default 5)
+//   TRUST_PROXY=1        rate-limit by X-Forwarded-For
+//   WIDGET_ORIGINS       comma-separated origins of other sites embedding <bondhu-assistant>
+
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) {
+  console.error('GEMINI_API_KEY is not set');
+  process.exit(1);
+}
+
+const port = Number(process.env.PORT) || 8787;
+const staticDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../dist');
+
+const server = createAppServer({
+  mintToken: createTokenMinter({ apiKey, baseUrl: process.env.GEMINI_API_BASE_URL }),
+  summarize: createSummaryGenerator({ apiKey, baseUrl: process.env.GEMINI_API_BASE_URL }),
+  staticDir,
+  rateLimit: {
+    ...DEFAULT_TOKEN_RATE_LIMIT,
+    limit: Number(process.env.TOKEN_RATE_LIMIT) || DEFAULT_TOKEN_RATE_LIMIT.limit,
+  },
+  summaryRateLimit: {
+    ...DEFAULT_SUMMARY_RATE_LIMIT,
+    limit: Number(process.env.SUMMARY_RATE_LIMIT) || DEFAULT_SUMMARY_RATE_LIMIT.limit,
+  },
+  trustProxy: process.env.TRUST_PROXY === '1',
+  widgetOrigins: (process.env.WIDGET_ORIGINS ?? '').split(',').map(origin => origin.trim()).filter(Boolean),
+});
+
+server.listen(port, () => {
+  console.log(`Bondhu server listening on http://localhost:${port}`);
+});
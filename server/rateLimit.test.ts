@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from './rateLimit';
+
+describe('createRateLimiter', () => {
+  it('allows up to the limit within the window, per client', () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 1000 });
+
+    expect(limiter.take('a', 0)).toEqual({ allowed: true, retryAfterMs: 0 });
+    expect(limiter.take('a', 100)).toEqual({ allowed: true, retryAfterMs: 0 });
+    expect(limiter.take('b', 100)).toEqual({ allowed: true, retryAfterMs: 0 });
+  });
+
+  it('denies past the limit until the oldest request leaves the window', () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 1000 });
+    limiter.take('a', 0);
+    limiter.take('a', 400);
+
+    expect(limiter.take('a', 600)).toEqual({ allowed: false, retryAfterMs: 400 });
+    // Denied requests don't count against the client
+    expect(limiter.take('a', 999)).toEqual({ allowed: false, retryAfterMs: 1 });
+    expect(limiter.take('a', 1000)).toEqual({ allowed: true, retryAfterMs: 0 });
+    // The window slides: the request at 400 still counts
+    expect(limiter.take('a', 1200)).toEqual({ allowed: false, retryAfterMs: 200 });
+  });
+
+  it('starts a quiet client afresh once its window has passed', () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 1000 });
+    limiter.take('a', 0);
+    expect(limiter.take('a', 500).allowed).toBe(false);
+
+    expect(limiter.take('b', 5000).allowed).toBe(true);
+    expect(limiter.take('a', 5000)).toEqual({ allowed: true, retryAfterMs: 0 });
+  });
+});
@@ -0,0 +1,44 @@
+export interface RateLimitOptions {
+  /** Requests allowed per key within the window. */
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** When the next request would be allowed; 0 if it already is. */
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  take: (key: string, now?: number) => RateLimitResult;
+}
+
+/** Sliding-window limiter keyed by client, e.g. IP address. */
+export const createRateLimiter = ({ limit, windowMs }: RateLimitOptions): RateLimiter => {
+  const hits = new Map<string, number[]>();
+  let lastSweep = 0;
+
+  // Forget clients that have gone quiet so the map doesn't grow forever
+  const sweep = (now: number) => {
+    if (now - lastSweep < windowMs) return;
+    lastSweep = now;
+    hits.forEach((times, key) => {
+      if (times[times.length - 1] <= now - windowMs) hits.delete(key);
+    });
+  };
+
+  return {
+    take: (key, now = Date.now()) => {
+      sweep(now);
+      const recent = (hits.get(key) ?? []).filter(time => time > now - windowMs);
+      if (recent.length >= limit) {
+        hits.set(key, recent);
+        return { allowed: false, retryAfterMs: recent[0] + windowMs - now };
+      }
+      recent.push(now);
+      hits.set(key, recent);
+      return { allowed: true, retryAfterMs: 0 };
+    },
+  };
+};
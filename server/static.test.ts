@@ -0,0 +1,84 @@
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { createServer, request, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { serveStatic } from './static';
+
+let dir: string;
+let server: Server;
+
+beforeAll(async () => {
+  // The app lives in dist/; a secret sits next to it
+  dir = await mkdtemp(path.join(tmpdir(), 'bondhu-static-'));
+  await mkdir(path.join(dir, 'dist', 'assets'), { recursive: true });
+  await writeFile(path.join(dir, 'dist', 'index.html'), '<!doctype html><title>Bondhu</title>');
+  await writeFile(path.join(dir, 'dist', 'assets', 'index-abc123.js'), 'console.log(1);');
+  await writeFile(path.join(dir, 'secret.txt'), 'GEMINI_API_KEY=top-secret');
+
+  server = createServer((req, res) => serveStatic(path.join(dir, 'dist'), req, res));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  await rm(dir, { recursive: true, force: true });
+});
+
+/** GETs `rawPath` exactly as written; fetch would normalize away the dot segments. */
+const get = (rawPath: string) =>
+  new Promise<{ status: number; headers: Record<string, unknown>; body: string }>((resolve, reject) => {
+    const { port } = server.address() as AddressInfo;
+    request({ host: '127.0.0.1', port, path: rawPath }, res => {
+      let body = '';
+      res.setEncoding('utf8');
+      res.on('data', chunk => { body += chunk; });
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body }));
+    }).on('error', reject).end();
+  });
+
+describe('serveStatic', () => {
+  it('serves built files, caching fingerprinted assets for good', async () => {
+    const asset = await get('/assets/index-abc123.js');
+    expect(asset.status).toBe(200);
+    expect(asset.headers['content-type']).toBe('text/javascript; charset=utf-8');
+    expect(asset.headers['cache-control']).toContain('immutable');
+
+    const index = await get('/index.html');
+    expect(index.headers['cache-control']).toBe('no-cache');
+  });
+
+  it('falls back to index.html for client-side routes, but not for missing files', async () => {
+    const route = await get('/history/42');
+    expect(route.status).toBe(200);
+    expect(route.body).toContain('<title>Bondhu</title>');
+
+    expect((await get('/assets/missing.js')).status).toBe(404);
+  });
+
+  it.each([
+    '/../secret.txt',
+    '/assets/../../secret.txt',
+    '/%2e%2e/secret.txt',
+    '/..%2fsecret.txt',
+    '/assets/..%2F..%2Fsecret.txt',
+  ])('never serves files outside the root: %s', async (rawPath) => {
+    const res = await get(rawPath);
+    expect(res.body).not.toContain('top-secret');
+    expect(res.status).toBe(404);
+  });
+
+  it('rejects malformed escapes and methods other than GET and HEAD', async () => {
+    expect((await get('/%E0%A4%A')).status).toBe(400);
+
+    const { port } = server.address() as AddressInfo;
+    const status = await new Promise<number>((resolve, reject) => {
+      request({ host: '127.0.0.1', port, path: '/index.html', method: 'DELETE' }, res => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      }).on('error', reject).end();
+    });
+    expect(status).toBe(405);
+  });
+});
@@ -0,0 +1,79 @@
+import { createReadStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import { IncomingMessage, ServerResponse } from 'node:http';
+import path from 'node:path';
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.webmanifest': 'application/manifest+json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+  '.wasm': 'application/wasm',
+  '.map': 'application/json; charset=utf-8',
+};
+
+const isFile = async (file: string) => {
+  try {
+    return (await stat(file)).isFile();
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Serves the built app from `root`. Unknown paths without an extension fall
+ * back to index.html so client-side routes still load.
+ */
+export const serveStatic = async (root: string, req: IncomingMessage, res: ServerResponse) => {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    res.writeHead(405, { Allow: 'GET, HEAD' }).end();
+    return;
+  }
+
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  let relative: string;
+  try {
+    relative = decodeURIComponent(pathname);
+  } catch {
+    res.writeHead(400).end();
+    return;
+  }
+
+  // Resolve inside root; anything escaping it is treated as not found
+  const base = path.resolve(root);
+  let file = path.join(base, path.normalize(relative));
+  if (file !== base && !file.startsWith(base + path.sep)) {
+    res.writeHead(404).end();
+    return;
+  }
+  if (!(await isFile(file))) {
+    if (path.extname(file)) {
+      res.writeHead(404).end();
+      return;
+    }
+    file = path.join(base, 'index.html');
+    if (!(await isFile(file))) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' }).end('App not built. Run `npm run build` first.');
+      return;
+    }
+  }
+
+  const ext = path.extname(file);
+  res.writeHead(200, {
+    'Content-Type': MIME_TYPES[ext] ?? 'application/octet-stream',
+    // Vite fingerprints everything under assets/
+    'Cache-Control': relative.startsWith('/assets/') ? 'public, max-age=31536000, immutable' : 'no-cache',
+  });
+  if (req.method === 'HEAD') {
+    res.end();
+    return;
+  }
+  createReadStream(file).pipe(res);
+};
@@ -0,0 +1,18 @@
+import { GoogleGenAI } from '@google/genai';
+import { SummaryContent } from '../types';
+import { SummaryRequest } from '../utils/summary';
+import { generateSummary } from '../utils/summarizer';
+
+export type SummaryGenerator = (request: SummaryRequest) => Promise<SummaryContent>;
+
+interface SummaryGeneratorOptions {
+  apiKey: string;
+  /** Overrides the Gemini API endpoint, e.g. to point at a local stand-in. */
+  baseUrl?: string;
+}
+
+/** Summarizes conversations with the real key, for browsers that only hold Live tokens. */
+export const createSummaryGenerator = ({ apiKey, baseUrl }: SummaryGeneratorOptions): SummaryGenerator => {
+  const ai = new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined });
+  return request => generateSummary(ai, request);
+};
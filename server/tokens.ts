@@ -0,0 +1,52 @@
+import { GoogleGenAI } from '@google/genai';
+
+/** What the browser needs to open one Live session. */
+export interface EphemeralToken {
+  token: string;
+  /** Sessions using the token are closed after this time. */
+  expiresAt: string;
+  /** API version the token is valid for. */
+  apiVersion: string;
+}
+
+export type TokenMinter = () => Promise<EphemeralToken>;
+
+interface TokenMinterOptions {
+  apiKey: string;
+  /** Overrides the Gemini API endpoint, e.g. to point at a local stand-in. */
+  baseUrl?: string;
+  /** How long a session opened with the token may run. */
+  sessionTtlMs?: number;
+  /** How long the token may be used to start a session. */
+  startTtlMs?: number;
+}
+
+// Ephemeral tokens are only available on v1alpha
+const TOKEN_API_VERSION = 'v1alpha';
+
+/** Mints single-use ephemeral Live API tokens with the real key. */
+export const createTokenMinter = ({
+  apiKey,
+  baseUrl,
+  sessionTtlMs = 30 * 60 * 1000,
+  startTtlMs = 60 * 1000,
+}: TokenMinterOptions): TokenMinter => {
+  const ai = new GoogleGenAI({
+    apiKey,
+    httpOptions: { apiVersion: TOKEN_API_VERSION, ...(baseUrl ? { baseUrl } : {}) },
+  });
+
+  return async () => {
+    const now = Date.now();
+    const expiresAt = new Date(now + sessionTtlMs).toISOString();
+    const token = await ai.authTokens.create({
+      config: {
+        uses: 1,
+        expireTime: expiresAt,
+        newSessionExpireTime: new Date(now + startTtlMs).toISOString(),
+      },
+    });
+    if (!token.name) throw new Error('Upstream returned no token');
+    return { token: token.name, expiresAt, apiVersion: TOKEN_API_VERSION };
+  };
+};
@@ -0,0 +1,12 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './*.tsx', './components/**/*.tsx', './hooks/**/*.ts', './utils/**/*.ts'],
+  theme: {
+    extend: {
+      fontFamily: {
+        bengali: ['"Noto Sans Bengali"', 'sans-serif'],
+      },
+    },
+  },
+  plugins: [],
+};
@@ -0,0 +1,151 @@
+import {
+  LiveCallbacks,
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from '@google/genai';
+import { LiveSessionHandle, LiveTransport } from '../types';
+import { base64ToBytes } from '../utils/audioUtils';
+
+/** One step of a scripted server: a message, a pause, or the server closing the socket. */
+export type ScriptStep =
+  | { message: LiveServerMessage }
+  | { waitMs: number }
+  | { close: { code: number; reason?: string } };
+
+/** Lets pending promise callbacks and zero-delay timers run, e.g. the hook's async message handling. */
+export const settle = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * Server side of one fake Live session. Records everything the client sends
+ * and lets the test push server messages or drop the connection.
+ */
+export class FakeLiveSession implements LiveSessionHandle {
+  readonly realtimeInputs: LiveSendRealtimeInputParameters[] = [];
+  readonly clientContents: LiveSendClientContentParameters[] = [];
+  readonly toolResponses: LiveSendToolResponseParameters[] = [];
+  closed = false;
+  /** True when the client called close(), as opposed to a server-side drop. */
+  closedByClient = false;
+
+  constructor(readonly params: LiveConnectParameters) {}
+
+  get config() {
+    return this.params.config ?? {};
+  }
+
+  private get callbacks(): LiveCallbacks {
+    return this.params.callbacks;
+  }
+
+  // Client -> server
+
+  sendRealtimeInput = (params: LiveSendRealtimeInputParameters) => {
+    if (!this.closed) this.realtimeInputs.push(params);
+  };
+
+  sendClientContent = (params: LiveSendClientContentParameters) => {
+    if (!this.closed) this.clientContents.push(params);
+  };
+
+  sendToolResponse = (params: LiveSendToolResponseParameters) => {
+    if (!this.closed) this.toolResponses.push(params);
+  };
+
+  close = () => {
+    if (this.closed) return;
+    this.closed = true;
+    this.closedByClient = true;
+    // Like a real WebSocket, the close callback fires asynchronously
+    setTimeout(() => this.callbacks.onclose?.({ code: 1000, reason: '' } as CloseEvent), 0);
+  };
+
+  /** All microphone audio received so far, decoded back to PCM16. */
+  receivedAudio(): Int16Array {
+    const chunks = this.realtimeInputs
+      .map(input => input.media ?? input.audio)
+      .filter((blob): blob is NonNullable<typeof blob> => !!blob?.data)
+      .map(blob => {
+        const bytes = base64ToBytes(blob.data!);
+        return new Int16Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 2);
+      });
+    const total = new Int16Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    chunks.forEach(chunk => {
+      total.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return total;
+  }
+
+  /** activityStart/activityEnd markers in the order they were sent. */
+  activity(): ('start' | 'end')[] {
+    return this.realtimeInputs.flatMap(input =>
+      input.activityStart ? ['start' as const] : input.activityEnd ? ['end' as const] : []
+    );
+  }
+
+  // Server -> client
+
+  emit(...messages: LiveServerMessage[]) {
+    messages.forEach(message => {
+      if (!this.closed) this.callbacks.onmessage(message);
+    });
+  }
+
+  /** The server closes the connection, e.g. 1011 for an internal error or 1008 for a bad key. */
+  drop(code: number, reason = '') {
+    if (this.closed) return;
+    this.closed = true;
+    this.callbacks.onerror?.({ message: reason } as ErrorEvent);
+    this.callbacks.onclose?.({ code, reason } as CloseEvent);
+  }
+
+  /** Plays a recorded sequence, awaiting the client's async handling after each step. */
+  async play(script: ScriptStep[]) {
+    for (const step of script) {
+      if ('message' in step) this.emit(step.message);
+      else if ('waitMs' in step) await new Promise(resolve => setTimeout(resolve, step.waitMs));
+      else this.drop(step.close.code, step.close.reason);
+      await settle();
+    }
+  }
+}
+
+/**
+ * In-process stand-in for the Gemini Live API. Each connect opens a new
+ * FakeLiveSession; `onSession` can script it as soon as it opens.
+ */
+export class FakeLiveTransport implements LiveTransport {
+  readonly sessions: FakeLiveSession[] = [];
+  private readonly failures: Error[] = [];
+
+  constructor(private readonly onSession?: (session: FakeLiveSession) => void) {}
+
+  /** The most recently opened session. */
+  get current(): FakeLiveSession {
+    const session = this.sessions[this.sessions.length - 1];
+    if (!session) throw new Error('No session has been opened');
+    return session;
+  }
+
+  /** Makes the next connect attempt reject, e.g. a failed handshake. */
+  failNextConnect(error = new Error('connection refused')) {
+    this.failures.push(error);
+  }
+
+  connect = async (params: LiveConnectParameters): Promise<LiveSessionHandle> => {
+    await Promise.resolve();
+    const failure = this.failures.shift();
+    if (failure) throw failure;
+
+    const session = new FakeLiveSession(params);
+    this.sessions.push(session);
+    // The real SDK runs onopen before resolving the session
+    params.callbacks.onopen?.();
+    this.onSession?.(session);
+    return session;
+  };
+}
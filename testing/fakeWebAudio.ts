@@ -0,0 +1,228 @@
+// Just enough of the Web Audio and getUserMedia APIs for useLiveSession to
+// run under jsdom. Time only moves when a test calls `advance()`.
+
+class FakeAudioNode {
+  readonly connections = new Set<FakeAudioNode>();
+  constructor(readonly context: FakeAudioContext) {}
+  connect(destination: FakeAudioNode) {
+    this.connections.add(destination);
+    return destination;
+  }
+  disconnect(destination?: FakeAudioNode) {
+    if (destination) this.connections.delete(destination);
+    else this.connections.clear();
+  }
+}
+
+class FakeAudioParam {
+  constructor(public value: number) {}
+  setTargetAtTime(target: number) {
+    this.value = target;
+  }
+}
+
+class FakeAnalyserNode extends FakeAudioNode {
+  fftSize = 2048;
+  get frequencyBinCount() {
+    return this.fftSize / 2;
+  }
+  getByteFrequencyData(array: Uint8Array) {
+    array.fill(0);
+  }
+  getByteTimeDomainData(array: Uint8Array) {
+    array.fill(128);
+  }
+  getFloatTimeDomainData(array: Float32Array) {
+    array.fill(0);
+  }
+}
+
+class FakeGainNode extends FakeAudioNode {
+  readonly gain = new FakeAudioParam(1);
+}
+
+export class FakeAudioBuffer {
+  private readonly channels: Float32Array[];
+  constructor(numberOfChannels: number, readonly length: number, readonly sampleRate: number) {
+    this.channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+  }
+  get numberOfChannels() {
+    return this.channels.length;
+  }
+  get duration() {
+    return this.length / this.sampleRate;
+  }
+  getChannelData(channel: number) {
+    return this.channels[channel];
+  }
+}
+
+export class FakeBufferSourceNode extends FakeAudioNode {
+  buffer: FakeAudioBuffer | null = null;
+  readonly playbackRate = new FakeAudioParam(1);
+  startTime: number | null = null;
+  stopped = false;
+  private readonly endedListeners: (() => void)[] = [];
+
+  addEventListener(type: string, listener: () => void) {
+    if (type === 'ended') this.endedListeners.push(listener);
+  }
+  start(when = 0) {
+    this.startTime = when;
+    this.context.sources.push(this);
+  }
+  stop() {
+    if (this.stopped) return;
+    this.stopped = true;
+    this.endedListeners.forEach(listener => listener());
+  }
+  get endTime() {
+    return (this.startTime ?? 0) + (this.buffer?.duration ?? 0) / this.playbackRate.value;
+  }
+}
+
+export class FakeScriptProcessorNode extends FakeAudioNode {
+  onaudioprocess: ((e: { inputBuffer: { getChannelData: (channel: number) => Float32Array } }) => void) | null = null;
+}
+
+class FakeMediaStreamSourceNode extends FakeAudioNode {
+  constructor(context: FakeAudioContext, readonly mediaStream: FakeMediaStream) {
+    super(context);
+  }
+}
+
+export class FakeAudioContext {
+  readonly sampleRate: number;
+  currentTime = 0;
+  state: 'running' | 'suspended' | 'closed' = 'running';
+  readonly destination: FakeAudioNode;
+  /** Every buffer source started on this context. */
+  readonly sources: FakeBufferSourceNode[] = [];
+  readonly processors: FakeScriptProcessorNode[] = [];
+  // No audioWorklet, so capture takes the ScriptProcessor path
+  readonly audioWorklet = undefined;
+
+  constructor(options: { sampleRate?: number } = {}) {
+    this.sampleRate = options.sampleRate ?? 48000;
+    this.destination = new FakeAudioNode(this);
+    fakeAudio.contexts.push(this);
+  }
+
+  createAnalyser() {
+    return new FakeAnalyserNode(this);
+  }
+  createGain() {
+    return new FakeGainNode(this);
+  }
+  createBuffer(numberOfChannels: number, length: number, sampleRate: number) {
+    return new FakeAudioBuffer(numberOfChannels, length, sampleRate);
+  }
+  createBufferSource() {
+    return new FakeBufferSourceNode(this);
+  }
+  createScriptProcessor() {
+    const processor = new FakeScriptProcessorNode(this);
+    this.processors.push(processor);
+    return processor;
+  }
+  createMediaStreamSource(stream: FakeMediaStream) {
+    return new FakeMediaStreamSourceNode(this, stream);
+  }
+  async suspend() {
+    this.state = 'suspended';
+  }
+  async resume() {
+    this.state = 'running';
+  }
+  async close() {
+    this.state = 'closed';
+  }
+
+  /** Moves the clock forward, ending any sources that finish in the meantime. */
+  advance(seconds: number) {
+    if (this.state !== 'running') return;
+    this.currentTime += seconds;
+    this.sources
+      .filter(source => !source.stopped && source.endTime <= this.currentTime)
+      .forEach(source => source.stop());
+  }
+
+  /** Sources still scheduled or playing. */
+  get activeSources() {
+    return this.sources.filter(source => !source.stopped);
+  }
+}
+
+class FakeMediaStreamTrack {
+  readyState: 'live' | 'ended' = 'live';
+  enabled = true;
+  stop() {
+    this.readyState = 'ended';
+  }
+}
+
+class FakeMediaStream {
+  private readonly tracks = [new FakeMediaStreamTrack()];
+  constructor(readonly constraints: MediaStreamConstraints) {}
+  getTracks() {
+    return this.tracks;
+  }
+  getAudioTracks() {
+    return this.tracks;
+  }
+}
+
+const fakeAudio = {
+  contexts: [] as FakeAudioContext[],
+  streams: [] as FakeMediaStream[],
+  // DOMException names getUserMedia should reject with, in order
+  failures: [] as string[],
+};
+
+/**
+ * Installs the fakes on `window` and `navigator`. Returns the contexts and
+ * microphone streams the code under test created, plus a way to speak into
+ * the microphone.
+ */
+export const installFakeWebAudio = () => {
+  fakeAudio.contexts.length = 0;
+  fakeAudio.streams.length = 0;
+  fakeAudio.failures.length = 0;
+
+  Object.assign(window, { AudioContext: FakeAudioContext });
+  Object.defineProperty(navigator, 'mediaDevices', {
+    configurable: true,
+    value: {
+      getUserMedia: async (constraints: MediaStreamConstraints) => {
+        const failure = fakeAudio.failures.shift();
+        if (failure) throw new DOMException('getUserMedia failed', failure);
+        const stream = new FakeMediaStream(constraints);
+        fakeAudio.streams.push(stream);
+        return stream;
+      },
+    },
+  });
+
+  return {
+    contexts: fakeAudio.contexts,
+    streams: fakeAudio.streams,
+    /** The 16 kHz capture context, i.e. the first one created with that rate. */
+    get input() {
+      return fakeAudio.contexts.find(ctx => ctx.sampleRate === 16000);
+    },
+    get output() {
+      return fakeAudio.contexts.find(ctx => ctx.sampleRate !== 16000);
+    },
+    /** Makes the next getUserMedia call fail, e.g. with 'NotAllowedError'. */
+    failNextGetUserMedia(name: string) {
+      fakeAudio.failures.push(name);
+    },
+    /** Feeds samples through every live capture processor, as if the user spoke them. */
+    speak(samples: Float32Array) {
+      fakeAudio.contexts
+        .filter(ctx => ctx.state !== 'closed')
+        .flatMap(ctx => ctx.processors)
+        .forEach(processor => processor.onaudioprocess?.({ inputBuffer: { getChannelData: () => samples } }));
+    },
+  };
+};
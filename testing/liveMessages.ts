@@ -0,0 +1,125 @@
+import { FunctionCall, GroundingChunkWeb, LiveServerMessage } from '@google/genai';
+import { OUTPUT_SAMPLE_RATE, bytesToBase64, floatTo16BitPCM } from '../utils/audioUtils';
+import { ScriptStep } from './fakeLiveTransport';
+
+// Builders for the server messages the hook reacts to. The SDK hands
+// callbacks LiveServerMessage instances, so these do too.
+const serverMessage = (fields: Partial<LiveServerMessage>): LiveServerMessage =>
+  Object.assign(new LiveServerMessage(), fields);
+
+export const modelAudio = (pcm: Int16Array) => serverMessage({
+  serverContent: {
+    modelTurn: {
+      parts: [{
+        inlineData: {
+          mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`,
+          data: bytesToBase64(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
+        },
+      }],
+    },
+  },
+});
+
+export const modelText = (text: string) => serverMessage({
+  serverContent: { modelTurn: { parts: [{ text }] } },
+});
+
+export const inputTranscription = (text: string) => serverMessage({
+  serverContent: { inputTranscription: { text } },
+});
+
+export const outputTranscription = (text: string) => serverMessage({
+  serverContent: { outputTranscription: { text } },
+});
+
+export const grounding = (...pages: GroundingChunkWeb[]) => serverMessage({
+  serverContent: {
+    groundingMetadata: {
+      webSearchQueries: ['search'],
+      groundingChunks: pages.map(web => ({ web })),
+    },
+  },
+});
+
+export const interrupted = () => serverMessage({ serverContent: { interrupted: true } });
+
+export const turnComplete = () => serverMessage({ serverContent: { turnComplete: true } });
+
+export const usage = (promptTokenCount: number, responseTokenCount: number) => serverMessage({
+  usageMetadata: { promptTokenCount, responseTokenCount, totalTokenCount: promptTokenCount + responseTokenCount },
+});
+
+export const toolCall = (...functionCalls: FunctionCall[]) => serverMessage({ toolCall: { functionCalls } });
+
+export const toolCallCancellation = (...ids: string[]) => serverMessage({ toolCallCancellation: { ids } });
+
+export const resumptionUpdate = (newHandle: string) => serverMessage({
+  sessionResumptionUpdate: { newHandle, resumable: true },
+});
+
+export const goAway = (timeLeft = '10s') => serverMessage({ goAway: { timeLeft } });
+
+/** A sine tone as PCM16, e.g. for model audio or microphone input. */
+export const tonePcm = (durationMs: number, sampleRate = OUTPUT_SAMPLE_RATE, frequency = 440, amplitude = 0.5) => {
+  const samples = new Float32Array(Math.round((durationMs / 1000) * sampleRate));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  }
+  return floatTo16BitPCM(samples);
+};
+
+const steps = (...messages: LiveServerMessage[]): ScriptStep[] => messages.map(message => ({ message }));
+
+// Recorded sequences, trimmed to the messages the client sees
+
+/** A greeting and reply, with transcriptions streamed in pieces alongside the audio. */
+export const GREETING_EXCHANGE: ScriptStep[] = steps(
+  inputTranscription('আসসালামু '),
+  inputTranscription('আলাইকুম'),
+  outputTranscription('ওয়ালাইকুম '),
+  modelAudio(tonePcm(200)),
+  outputTranscription('আসসালাম!'),
+  modelAudio(tonePcm(200)),
+  turnComplete(),
+);
+
+/** The user's transcription only arrives after the model has started replying. */
+export const LATE_INPUT_TRANSCRIPTION: ScriptStep[] = steps(
+  outputTranscription('জি, '),
+  modelAudio(tonePcm(200)),
+  inputTranscription('কেমন আছেন?'),
+  outputTranscription('ভালো আছি।'),
+  turnComplete(),
+);
+
+/** The user talks over the reply; the server interrupts it and answers the new turn. */
+export const BARGE_IN: ScriptStep[] = steps(
+  inputTranscription('একটা গল্প বলো'),
+  outputTranscription('অনেক দিন আগে '),
+  modelAudio(tonePcm(500)),
+  modelAudio(tonePcm(500)),
+  interrupted(),
+  inputTranscription('থামো'),
+  outputTranscription('ঠিক আছে।'),
+  turnComplete(),
+);
+
+/** The model calls a local tool and waits for its response. */
+export const TOOL_CALL_EXCHANGE: ScriptStep[] = steps(
+  inputTranscription('এক বিঘা কত শতক?'),
+  toolCall({ id: 'call-1', name: 'convert_units', args: { value: 1, from: 'bigha', to: 'decimal' } }),
+);
+
+/** A search-grounded answer; the sources arrive part way through the reply, with a repeat at the end. */
+export const GROUNDED_ANSWER: ScriptStep[] = steps(
+  inputTranscription('আজ ঢাকায় বৃষ্টি হবে?'),
+  outputTranscription('আজ বিকেলে '),
+  modelAudio(tonePcm(200)),
+  grounding(
+    { uri: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/bmd', title: 'bmd.gov.bd', domain: 'bmd.gov.bd' },
+    { uri: 'https://www.accuweather.com/en/bd/dhaka/28143/weather-forecast/28143' },
+  ),
+  outputTranscription('বৃষ্টির সম্ভাবনা আছে।'),
+  grounding({ uri: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/bmd', title: 'bmd.gov.bd', domain: 'bmd.gov.bd' }),
+  turnComplete(),
+);
@@ -0,0 +1,103 @@
+import { INPUT_SAMPLE_RATE, floatTo16BitPCM } from '../utils/audioUtils';
+import { WakeWordDetector } from '../utils/wakeWord';
+
+// Stand-ins for recorded microphone PCM: phrases synthesized from voiced
+// syllables (a buzz at the pitch shaped by two formants), so a phrase said
+// faster, higher or louder keeps its spectral shape the way speech does.
+
+export interface Syllable {
+  /** First and second formant in Hz. */
+  f1: number;
+  f2: number;
+  ms: number;
+}
+
+/** Four syllables, roughly "hey bon-dhu". */
+export const WAKE_PHRASE: Syllable[] = [
+  { f1: 550, f2: 1900, ms: 180 },
+  { f1: 600, f2: 1000, ms: 160 },
+  { f1: 450, f2: 1100, ms: 140 },
+  { f1: 320, f2: 800, ms: 200 },
+];
+
+/** Different vowels at a similar length. */
+export const OTHER_PHRASE: Syllable[] = [
+  { f1: 300, f2: 2300, ms: 170 },
+  { f1: 700, f2: 1200, ms: 190 },
+  { f1: 350, f2: 2000, ms: 150 },
+  { f1: 650, f2: 1700, ms: 170 },
+];
+
+export interface Delivery {
+  /** Speaking speed; 1.2 is 20% faster. */
+  rate?: number;
+  /** Pitch in Hz. */
+  pitch?: number;
+  /** Peak amplitude, 0 to 1. */
+  gain?: number;
+  /** Seeds the background noise. */
+  seed?: number;
+}
+
+// Deterministic noise so fixtures are identical on every run
+const random = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const GAP_MS = 30;
+const NOISE_AMPLITUDE = 0.002;
+
+/** `syllables` spoken once as 16 kHz PCM, over faint noise. */
+export const speakPhrase = (syllables: Syllable[], { rate = 1, pitch = 130, gain = 0.3, seed = 1 }: Delivery = {}) => {
+  const noise = random(seed);
+  const samples: number[] = [];
+  syllables.forEach(({ f1, f2, ms }) => {
+    const length = Math.round((ms / rate / 1000) * INPUT_SAMPLE_RATE);
+    for (let i = 0; i < length; i++) {
+      const t = i / INPUT_SAMPLE_RATE;
+      // Harmonics of the pitch, weighted by their closeness to each formant
+      let sample = 0;
+      for (let h = 1; h * pitch < 4000; h++) {
+        const f = h * pitch;
+        const weight = Math.exp(-(((f - f1) / 120) ** 2)) + 0.6 * Math.exp(-(((f - f2) / 160) ** 2)) + 0.05;
+        sample += weight * Math.sin(2 * Math.PI * f * t);
+      }
+      const envelope = Math.sin((Math.PI * i) / length);
+      samples.push(gain * 0.4 * envelope * sample + NOISE_AMPLITUDE * (noise() * 2 - 1));
+    }
+    for (let i = 0; i < (GAP_MS / 1000) * INPUT_SAMPLE_RATE; i++) samples.push(NOISE_AMPLITUDE * (noise() * 2 - 1));
+  });
+  return floatTo16BitPCM(Float32Array.from(samples, s => Math.max(-1, Math.min(1, s))));
+};
+
+/** Background noise alone, e.g. the pause around a phrase. */
+export const quietPcm = (ms: number, seed = 2, amplitude = NOISE_AMPLITUDE) => {
+  const noise = random(seed);
+  return floatTo16BitPCM(Float32Array.from({ length: Math.round((ms / 1000) * INPUT_SAMPLE_RATE) }, () => amplitude * (noise() * 2 - 1)));
+};
+
+export const concatPcm = (...parts: Int16Array[]) => {
+  const out = new Int16Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    out.set(part, offset);
+    offset += part.length;
+  });
+  return out;
+};
+
+/**
+ * Streams `pcm` through `detector` the way the microphone would deliver it,
+ * returning the times, in ms from the start, of the chunks it triggered on.
+ */
+export const spotWakeWord = (detector: WakeWordDetector, pcm: Int16Array, chunkSize = 1600): number[] => {
+  const triggers: number[] = [];
+  for (let offset = 0; offset < pcm.length; offset += chunkSize) {
+    const chunk = pcm.subarray(offset, offset + chunkSize);
+    if (detector.process(chunk)) triggers.push(Math.round(((offset + chunk.length) / INPUT_SAMPLE_RATE) * 1000));
+  }
+  return triggers;
+};
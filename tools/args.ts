@@ -0,0 +1,24 @@
+import { ToolArgs } from '../types';
+
+// Models don't always follow the declared schema, so handlers check the
+// arguments they use. The errors go back to the model, which can retry.
+
+/** A number, or a numeric string; models sometimes quote numbers. */
+export const numberArg = (args: ToolArgs, name: string): number => {
+  const value = args[name];
+  const number = typeof value === 'number'
+    ? value
+    : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  if (Number.isNaN(number)) throw new Error(`${name} must be a number`);
+  return number;
+};
+
+export const stringArg = (args: ToolArgs, name: string): string => {
+  const value = args[name];
+  if (typeof value !== 'string') throw new Error(`${name} must be a string`);
+  return value;
+};
+
+/** Like stringArg, but missing (or null) is allowed. */
+export const optionalStringArg = (args: ToolArgs, name: string): string | undefined =>
+  args[name] === undefined || args[name] === null ? undefined : stringArg(args, name);
@@ -0,0 +1,27 @@
+import { Type } from '@google/genai';
+import { ToolDefinition } from '../types';
+import { toBanglaDate } from '../utils/banglaCalendar';
+import { optionalStringArg } from './args';
+
+export const banglaDateTool: ToolDefinition = {
+  declaration: {
+    name: 'get_bangla_date',
+    description: 'Get the Bangla calendar (বঙ্গাব্দ) date, weekday and season for today or a given Gregorian date.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        date: { type: Type.STRING, description: 'Gregorian date as YYYY-MM-DD. Defaults to today.' },
+      },
+    },
+  },
+  handler: (args) => {
+    const date = optionalStringArg(args, 'date');
+    let target = new Date();
+    if (date) {
+      const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+      if (!match) throw new Error(`Invalid date "${date}", expected YYYY-MM-DD`);
+      target = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    }
+    return { gregorian: target.toDateString(), ...toBanglaDate(target) };
+  },
+};
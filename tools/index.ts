@@ -0,0 +1,15 @@
+import { ToolDefinition } from '../types';
+import { banglaDateTool } from './banglaDate';
+import { timerTools } from './timers';
+import { unitConversionTool } from './unitConversion';
+
+export { createToolRegistry, ToolCancelledError } from './registry';
+export { createProposeMemoryTool } from './memory';
+export type { ToolRegistry } from './registry';
+
+/** Local tools every Bondhu session is offered unless overridden. */
+export const defaultTools: ToolDefinition[] = [
+  ...timerTools,
+  banglaDateTool,
+  unitConversionTool,
+];
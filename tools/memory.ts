@@ -0,0 +1,31 @@
+import { Type } from '@google/genai';
+import { ToolDefinition } from '../types';
+import { stringArg } from './args';
+
+/**
+ * Lets the model suggest a fact worth remembering. Nothing is stored until
+ * the user confirms it, so the handler only hands the text to `propose`.
+ */
+export const createProposeMemoryTool = (
+  propose: (fact: string) => void,
+): ToolDefinition => ({
+  declaration: {
+    name: 'propose_memory',
+    description: 'Suggest saving a lasting fact about the user (diet, home town, family, important dates) so '
+      + 'you remember it in future conversations. The user is asked to confirm; do not call it for passing '
+      + 'details or things already in your instructions.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        fact: { type: Type.STRING, description: 'One short self-contained statement, e.g. "Is vegetarian"' },
+      },
+      required: ['fact'],
+    },
+  },
+  handler: (args) => {
+    const text = stringArg(args, 'fact').trim();
+    if (!text) throw new Error('fact must not be empty');
+    propose(text);
+    return { status: 'awaiting_user_confirmation' };
+  },
+});
@@ -0,0 +1,50 @@
+import { Type } from '@google/genai';
+import { describe, expect, it } from 'vitest';
+import { ToolCancelledError, createToolRegistry } from './registry';
+import { numberArg } from './args';
+import { ToolDefinition } from '../types';
+
+const doubleTool: ToolDefinition = {
+  declaration: {
+    name: 'double',
+    parameters: { type: Type.OBJECT, properties: { n: { type: Type.NUMBER } }, required: ['n'] },
+  },
+  handler: async (args) => numberArg(args, 'n') * 2,
+};
+
+const neverTool: ToolDefinition = {
+  declaration: { name: 'never' },
+  handler: () => new Promise(() => {}),
+};
+
+const context = (signal = new AbortController().signal) => ({ signal, announce: () => {} });
+
+describe('createToolRegistry', () => {
+  const registry = createToolRegistry([doubleTool, neverTool]);
+
+  it('declares every tool', () => {
+    expect(registry.declarations.map(declaration => declaration.name)).toEqual(['double', 'never']);
+  });
+
+  it('wraps a handler result as the response output', async () => {
+    await expect(registry.dispatch({ id: 'c1', name: 'double', args: { n: 21 } }, context()))
+      .resolves.toEqual({ id: 'c1', name: 'double', response: { output: 42 } });
+  });
+
+  it('reports unknown tools and failing handlers to the model instead of throwing', async () => {
+    await expect(registry.dispatch({ id: 'c2', name: 'triple', args: {} }, context()))
+      .resolves.toEqual({ id: 'c2', name: 'triple', response: { error: 'Unknown tool: triple' } });
+    await expect(registry.dispatch({ id: 'c3', name: 'double', args: { n: 'many' } }, context()))
+      .resolves.toEqual({ id: 'c3', name: 'double', response: { error: 'n must be a number' } });
+  });
+
+  it('rejects a cancelled call so no response is sent', async () => {
+    const controller = new AbortController();
+    const pending = registry.dispatch({ id: 'c4', name: 'never' }, context(controller.signal));
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(ToolCancelledError);
+
+    await expect(registry.dispatch({ id: 'c5', name: 'double', args: { n: 1 } }, context(controller.signal)))
+      .rejects.toBeInstanceOf(ToolCancelledError);
+  });
+});
@@ -0,0 +1,59 @@
+import type { FunctionCall, FunctionDeclaration, FunctionResponse } from '@google/genai';
+import { ToolContext, ToolDefinition } from '../types';
+
+export class ToolCancelledError extends Error {
+  constructor(name: string) {
+    super(`Tool call "${name}" was cancelled`);
+    this.name = 'ToolCancelledError';
+  }
+}
+
+export interface ToolRegistry {
+  declarations: FunctionDeclaration[];
+  /**
+   * Runs the handler matching `call` and wraps the outcome as a
+   * FunctionResponse. Unknown tools and handler errors are reported back to
+   * the model in the `error` key rather than thrown; cancellation rejects
+   * with ToolCancelledError so no response is sent.
+   */
+  dispatch: (call: FunctionCall, context: ToolContext) => Promise<FunctionResponse>;
+}
+
+export const createToolRegistry = (tools: ToolDefinition[]): ToolRegistry => {
+  const byName = new Map<string, ToolDefinition>();
+  tools.forEach(tool => byName.set(tool.declaration.name, tool));
+
+  const dispatch = async (call: FunctionCall, context: ToolContext): Promise<FunctionResponse> => {
+    const name = call.name ?? '';
+    const tool = byName.get(name);
+    if (!tool) {
+      return { id: call.id, name, response: { error: `Unknown tool: ${name}` } };
+    }
+
+    // Don't start a handler for a call that was cancelled while queued
+    if (context.signal.aborted) throw new ToolCancelledError(name);
+
+    const cancelled = new Promise<never>((_, reject) => {
+      context.signal.addEventListener('abort', () => reject(new ToolCancelledError(name)), { once: true });
+    });
+    // Only observed through the race below; avoid unhandled rejections later
+    cancelled.catch(() => {});
+
+    try {
+      const output = await Promise.race([
+        Promise.resolve(tool.handler(call.args ?? {}, context)),
+        cancelled,
+      ]);
+      return { id: call.id, name, response: { output } };
+    } catch (err) {
+      if (err instanceof ToolCancelledError) throw err;
+      const message = err instanceof Error ? err.message : String(err);
+      return { id: call.id, name, response: { error: message } };
+    }
+  };
+
+  return {
+    declarations: tools.map(tool => tool.declaration),
+    dispatch,
+  };
+};
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cancelTimerTool, listTimersTool, nextOccurrence, setAlarmTool, setTimerTool } from './timers';
+import { ToolContext } from '../types';
+
+const context = (): ToolContext => ({ signal: new AbortController().signal, announce: vi.fn() });
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date(2026, 2, 1, 21, 30));
+});
+
+afterEach(() => {
+  // Timers are module state; leave none running for the next test
+  const { timers } = listTimersTool.handler({}, context()) as { timers: { id: string }[] };
+  timers.forEach(({ id }) => cancelTimerTool.handler({ id }, context()));
+  vi.useRealTimers();
+});
+
+describe('nextOccurrence', () => {
+  const now = new Date(2026, 2, 1, 21, 30);
+
+  it('picks today if the time is still ahead, otherwise tomorrow', () => {
+    expect(nextOccurrence('22:15', now)).toEqual(new Date(2026, 2, 1, 22, 15));
+    expect(nextOccurrence(' 6:05 ', now)).toEqual(new Date(2026, 2, 2, 6, 5));
+    // Right now has already passed
+    expect(nextOccurrence('21:30', now)).toEqual(new Date(2026, 2, 2, 21, 30));
+  });
+
+  it.each(['24:00', '12:60', '7.30', '7:5', 'noon', ''])('rejects "%s"', (time) => {
+    expect(() => nextOccurrence(time, now)).toThrow(/Invalid time/);
+  });
+});
+
+describe('set_timer', () => {
+  it('announces when the countdown ends', () => {
+    const ctx = context();
+    const timer = setTimerTool.handler({ seconds: 90, label: 'ভাত' }, ctx);
+    expect(timer).toMatchObject({ label: 'ভাত', secondsLeft: 90 });
+
+    vi.advanceTimersByTime(89_000);
+    expect(ctx.announce).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1000);
+    expect(ctx.announce).toHaveBeenCalledWith(expect.stringContaining('"ভাত"'));
+  });
+
+  it.each([0, -5, NaN, Infinity, 'soon', undefined])('rejects %s seconds', (seconds) => {
+    expect(() => setTimerTool.handler({ seconds }, context())).toThrow('seconds must be');
+  });
+
+  it('allows a day at most, pointing longer waits to set_alarm', () => {
+    expect(setTimerTool.handler({ seconds: 24 * 60 * 60 }, context())).toMatchObject({ label: 'timer' });
+    // Past 2^31 - 1 ms, setTimeout would fire at once
+    expect(() => setTimerTool.handler({ seconds: 30 * 24 * 60 * 60 }, context())).toThrow(/at most 24 hours.*set_alarm/);
+  });
+});
+
+describe('set_alarm and cancel_timer', () => {
+  it('schedules for the next occurrence and can be cancelled', () => {
+    const ctx = context();
+    const alarm = setAlarmTool.handler({ time: '06:00' }, ctx) as { id: string; firesAt: string };
+    expect(new Date(alarm.firesAt)).toEqual(new Date(2026, 2, 2, 6, 0));
+
+    expect(cancelTimerTool.handler({ id: alarm.id }, ctx)).toEqual({ cancelled: alarm.id });
+    vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+    expect(ctx.announce).not.toHaveBeenCalled();
+    expect(() => cancelTimerTool.handler({ id: alarm.id }, ctx)).toThrow(`No timer with id ${alarm.id}`);
+  });
+});
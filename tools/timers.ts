@@ -0,0 +1,126 @@
+import { Type } from '@google/genai';
+import { ToolDefinition } from '../types';
+import { numberArg, optionalStringArg, stringArg } from './args';
+
+interface ActiveTimer {
+  id: string;
+  label: string;
+  firesAt: Date;
+  handle: ReturnType<typeof setTimeout>;
+}
+
+// Timers outlive individual live sessions, so they are kept per module
+const timers = new Map<string, ActiveTimer>();
+let nextTimerId = 1;
+
+/** Longest countdown accepted; setTimeout itself overflows at ~24.8 days and fires at once. */
+const MAX_TIMER_SECONDS = 24 * 60 * 60;
+
+const describe = (timer: ActiveTimer) => ({
+  id: timer.id,
+  label: timer.label,
+  firesAt: timer.firesAt.toISOString(),
+  secondsLeft: Math.max(0, Math.round((timer.firesAt.getTime() - Date.now()) / 1000)),
+});
+
+const schedule = (
+  delayMs: number,
+  label: string,
+  announce: (text: string) => void,
+) => {
+  const id = String(nextTimerId++);
+  const handle = setTimeout(() => {
+    timers.delete(id);
+    announce(`The timer "${label}" has finished. Let the user know in Bangla.`);
+  }, delayMs);
+  const timer = { id, label, firesAt: new Date(Date.now() + delayMs), handle };
+  timers.set(id, timer);
+  return describe(timer);
+};
+
+/** Next occurrence of HH:MM local time, today or tomorrow. */
+export const nextOccurrence = (time: string, now = new Date()): Date => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) throw new Error(`Invalid time "${time}", expected HH:MM`);
+  const [hours, minutes] = [Number(match[1]), Number(match[2])];
+  if (hours > 23 || minutes > 59) throw new Error(`Invalid time "${time}"`);
+
+  const target = new Date(now);
+  target.setHours(hours, minutes, 0, 0);
+  if (target <= now) target.setDate(target.getDate() + 1);
+  return target;
+};
+
+export const setTimerTool: ToolDefinition = {
+  declaration: {
+    name: 'set_timer',
+    description: 'Start a countdown timer. Bondhu announces when it finishes.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        seconds: { type: Type.NUMBER, description: 'Duration in seconds, at most 24 hours' },
+        label: { type: Type.STRING, description: 'What the timer is for, e.g. "rice"' },
+      },
+      required: ['seconds'],
+    },
+  },
+  handler: (args, { announce }) => {
+    const seconds = numberArg(args, 'seconds');
+    if (!Number.isFinite(seconds) || seconds <= 0) throw new Error('seconds must be a positive number');
+    if (seconds > MAX_TIMER_SECONDS) {
+      throw new Error(`Timers can run for at most 24 hours (${MAX_TIMER_SECONDS} seconds); use set_alarm for a time of day`);
+    }
+    return schedule(seconds * 1000, optionalStringArg(args, 'label') || 'timer', announce);
+  },
+};
+
+export const setAlarmTool: ToolDefinition = {
+  declaration: {
+    name: 'set_alarm',
+    description: 'Set an alarm for a local time of day (24-hour HH:MM). Rolls over to tomorrow if the time has passed.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        time: { type: Type.STRING, description: 'Local time in 24-hour HH:MM format' },
+        label: { type: Type.STRING, description: 'What the alarm is for' },
+      },
+      required: ['time'],
+    },
+  },
+  handler: (args, { announce }) => {
+    const target = nextOccurrence(stringArg(args, 'time'));
+    return schedule(target.getTime() - Date.now(), optionalStringArg(args, 'label') || 'alarm', announce);
+  },
+};
+
+export const listTimersTool: ToolDefinition = {
+  declaration: {
+    name: 'list_timers',
+    description: 'List running timers and alarms.',
+  },
+  handler: () => ({ timers: Array.from(timers.values()).map(describe) }),
+};
+
+export const cancelTimerTool: ToolDefinition = {
+  declaration: {
+    name: 'cancel_timer',
+    description: 'Cancel a running timer or alarm by id.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        id: { type: Type.STRING, description: 'Timer id from set_timer, set_alarm or list_timers' },
+      },
+      required: ['id'],
+    },
+  },
+  handler: (args) => {
+    const id = stringArg(args, 'id');
+    const timer = timers.get(id);
+    if (!timer) throw new Error(`No timer with id ${id}`);
+    clearTimeout(timer.handle);
+    timers.delete(timer.id);
+    return { cancelled: timer.id };
+  },
+};
+
+export const timerTools = [setTimerTool, setAlarmTool, listTimersTool, cancelTimerTool];
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { convertUnits, unitConversionTool } from './unitConversion';
+
+const context = { signal: new AbortController().signal, announce: () => {} };
+
+describe('convertUnits', () => {
+  it('converts within a category, including Bangladeshi units', () => {
+    expect(convertUnits(1, 'bigha', 'katha')).toBeCloseTo(20);
+    expect(convertUnits(1, 'acre', 'decimal')).toBeCloseTo(100);
+    expect(convertUnits(1, 'maund', 'seer')).toBeCloseTo(40);
+    expect(convertUnits(2, ' KM ', 'm')).toBe(2000);
+  });
+
+  it('converts temperatures by offset, not just scale', () => {
+    expect(convertUnits(100, 'celsius', 'fahrenheit')).toBeCloseTo(212);
+    expect(convertUnits(98.6, 'fahrenheit', 'celsius')).toBeCloseTo(37);
+    expect(convertUnits(0, 'kelvin', 'celsius')).toBeCloseTo(-273.15);
+  });
+
+  it('rejects unknown units and units of different kinds', () => {
+    expect(() => convertUnits(1, 'cubit', 'm')).toThrow('Unknown unit: cubit');
+    expect(() => convertUnits(1, 'm', 'furlong')).toThrow('Unknown unit: furlong');
+    expect(() => convertUnits(1, 'kg', 'l')).toThrow('Cannot convert mass (kg) to volume (l)');
+  });
+});
+
+describe('convert_units', () => {
+  it('rounds the result and names its unit', () => {
+    expect(unitConversionTool.handler({ value: 1, from: 'katha', to: 'sqm' }, context)).toEqual({ value: 66.8902, unit: 'sqm' });
+    // Models sometimes quote numbers
+    expect(unitConversionTool.handler({ value: '3', from: 'foot', to: 'inch' }, context)).toEqual({ value: 36, unit: 'inch' });
+  });
+
+  it('rejects arguments of the wrong type', () => {
+    expect(() => unitConversionTool.handler({ value: 'three', from: 'foot', to: 'inch' }, context)).toThrow('value must be a number');
+    expect(() => unitConversionTool.handler({ value: 3, from: 12, to: 'inch' }, context)).toThrow('from must be a string');
+  });
+});
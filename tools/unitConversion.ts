@@ -0,0 +1,94 @@
+import { Type } from '@google/genai';
+import { ToolDefinition } from '../types';
+import { numberArg, stringArg } from './args';
+
+type Category = 'length' | 'area' | 'mass' | 'volume' | 'temperature';
+
+interface UnitSpec {
+  category: Category;
+  /** Multiplier to the category's base unit (m, m², kg, L). Unused for temperature. */
+  factor: number;
+}
+
+// Includes the traditional units still common in Bangladesh (land and gold)
+const UNITS: Record<string, UnitSpec> = {
+  mm: { category: 'length', factor: 0.001 },
+  cm: { category: 'length', factor: 0.01 },
+  m: { category: 'length', factor: 1 },
+  km: { category: 'length', factor: 1000 },
+  inch: { category: 'length', factor: 0.0254 },
+  foot: { category: 'length', factor: 0.3048 },
+  yard: { category: 'length', factor: 0.9144 },
+  mile: { category: 'length', factor: 1609.344 },
+  hat: { category: 'length', factor: 0.4572 }, // হাত, 18 inches
+
+  sqft: { category: 'area', factor: 0.09290304 },
+  sqm: { category: 'area', factor: 1 },
+  acre: { category: 'area', factor: 4046.8564224 },
+  hectare: { category: 'area', factor: 10000 },
+  decimal: { category: 'area', factor: 40.468564224 }, // শতাংশ, 1/100 acre
+  katha: { category: 'area', factor: 720 * 0.09290304 }, // কাঠা, 720 sq ft
+  bigha: { category: 'area', factor: 14400 * 0.09290304 }, // বিঘা, 20 katha
+
+  g: { category: 'mass', factor: 0.001 },
+  kg: { category: 'mass', factor: 1 },
+  pound: { category: 'mass', factor: 0.45359237 },
+  ounce: { category: 'mass', factor: 0.028349523125 },
+  tola: { category: 'mass', factor: 0.0116638038 }, // তোলা
+  vori: { category: 'mass', factor: 0.0116638038 }, // ভরি, same as tola
+  seer: { category: 'mass', factor: 0.933104304 }, // সের, 80 tola
+  maund: { category: 'mass', factor: 37.32417216 }, // মণ, 40 seer
+
+  ml: { category: 'volume', factor: 0.001 },
+  l: { category: 'volume', factor: 1 },
+  cup: { category: 'volume', factor: 0.24 },
+  gallon: { category: 'volume', factor: 3.785411784 },
+
+  celsius: { category: 'temperature', factor: 1 },
+  fahrenheit: { category: 'temperature', factor: 1 },
+  kelvin: { category: 'temperature', factor: 1 },
+};
+
+const toCelsius = (value: number, unit: string) =>
+  unit === 'fahrenheit' ? (value - 32) * 5 / 9 : unit === 'kelvin' ? value - 273.15 : value;
+
+const fromCelsius = (value: number, unit: string) =>
+  unit === 'fahrenheit' ? value * 9 / 5 + 32 : unit === 'kelvin' ? value + 273.15 : value;
+
+export const convertUnits = (value: number, from: string, to: string): number => {
+  const fromKey = from.trim().toLowerCase();
+  const toKey = to.trim().toLowerCase();
+  const fromSpec = UNITS[fromKey];
+  const toSpec = UNITS[toKey];
+  if (!fromSpec) throw new Error(`Unknown unit: ${from}`);
+  if (!toSpec) throw new Error(`Unknown unit: ${to}`);
+  if (fromSpec.category !== toSpec.category) {
+    throw new Error(`Cannot convert ${fromSpec.category} (${from}) to ${toSpec.category} (${to})`);
+  }
+
+  if (fromSpec.category === 'temperature') {
+    return fromCelsius(toCelsius(value, fromKey), toKey);
+  }
+  return (value * fromSpec.factor) / toSpec.factor;
+};
+
+export const unitConversionTool: ToolDefinition = {
+  declaration: {
+    name: 'convert_units',
+    description: 'Convert a quantity between units, including Bangladeshi units like katha, bigha, decimal (শতাংশ), tola, vori, seer, maund and hat.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        value: { type: Type.NUMBER },
+        from: { type: Type.STRING, enum: Object.keys(UNITS), format: 'enum' },
+        to: { type: Type.STRING, enum: Object.keys(UNITS), format: 'enum' },
+      },
+      required: ['value', 'from', 'to'],
+    },
+  },
+  handler: (args) => {
+    const to = stringArg(args, 'to');
+    const result = convertUnits(numberArg(args, 'value'), stringArg(args, 'from'), to);
+    return { value: Number(result.toPrecision(6)), unit: to };
+  },
+};
@@ -1,17 +1,306 @@
-export interface Message {
+import type { FunctionDeclaration, LiveConnectParameters, Session } from '@google/genai';
+
+/** A photo or camera frame shown with a user turn. */
+export interface ImageAttachment {
+  kind: 'image';
+  /** Small JPEG data URL; the full-size frame is only sent to the model. */
+  thumbnailUrl: string;
+  source: 'camera' | 'upload';
+}
+
+export type MessageAttachment = ImageAttachment;
+
+export interface TextMessage {
+  /** Assigned once per turn by useLiveSession; partial and final updates share it. */
   id: string;
   role: 'user' | 'model';
   text: string;
+  /** When the turn started. */
+  timestamp: Date;
+  /** When the turn was finalized; unset while partial. */
+  endedAt?: Date;
+  /** Set on model turns, or interpreted user turns, whose reply was cut short by barge-in. */
+  interrupted?: boolean;
+  /** How a user turn was entered: spoken (and transcribed) or typed in the composer. */
+  source?: 'transcribed' | 'typed';
+  /** Images the user showed Bondhu with this turn. */
+  attachments?: MessageAttachment[];
+  /** Language of `text`, in interpreter mode. */
+  language?: InterpreterLanguage;
+  /** Interpreter mode: Bondhu's rendering of this user turn in the other language; empty until it arrives. */
+  translation?: Translation;
+  /** Web pages a search-grounded model turn drew on. */
+  sources?: GroundingSource[];
+  isPartial?: boolean;
+}
+
+/** A page cited by a grounded answer. */
+export interface GroundingSource {
+  uri: string;
+  title: string;
+  domain?: string;
+}
+
+/** What Bondhu said for a user turn in interpreter mode. */
+export interface Translation {
+  text: string;
+  language?: InterpreterLanguage;
+}
+
+export type ToolCallStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+/** A function call made by the model, shown inline in the transcript. */
+export interface ToolCallMessage {
+  id: string;
+  role: 'tool';
+  callId: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: ToolCallStatus;
+  result?: unknown;
+  error?: string;
   timestamp: Date;
   isPartial?: boolean;
 }
 
+export type Message = TextMessage | ToolCallMessage;
+
+/**
+ * Lifecycle of the live connection. 'reconnecting' keeps the microphone and
+ * audio contexts alive while a dropped session is re-established.
+ */
+export type ConnectionState = 'connecting' | 'open' | 'reconnecting' | 'closed' | 'failed';
+
+/** 'dual-ring' shows the user (inner ring) and Bondhu (outer ring) at once. */
+export type VisualizerMode = 'radial' | 'waveform' | 'dual-ring';
+
 export interface AudioVisualizerProps {
-  analyser: AnalyserNode | null;
+  /** The user's microphone. */
+  inputAnalyser: AnalyserNode | null;
+  /** Bondhu's voice. */
+  outputAnalyser: AnalyserNode | null;
   isActive: boolean;
+  mode?: VisualizerMode;
+  /** Bondhu's color; the user is drawn in `userColor`. */
   accentColor?: string;
+  userColor?: string;
+}
+
+export type ResponseLanguage = 'bangla' | 'banglish' | 'code-switch';
+
+/** 'interpreter' turns Bondhu into a live translator between two languages. */
+export type ConversationMode = 'companion' | 'interpreter';
+
+/** Languages interpreter mode translates between, as BCP 47 tags. Each has its own script. */
+export type InterpreterLanguage = 'bn' | 'en' | 'hi' | 'ur';
+
+/** How Bondhu addresses the user: আপনি (formal) or তুমি (familiar). */
+export type Formality = 'apni' | 'tumi';
+
+/**
+ * How microphone audio reaches the server: always streamed, only while a
+ * push-to-talk control is held, or gated by on-device voice activity detection.
+ */
+export type InputMode = 'continuous' | 'push-to-talk' | 'vad';
+
+export interface PersonaPreset {
+  id: string;
+  name: string;
+  instruction: string;
+}
+
+/** Something Bondhu remembers about the user across conversations. */
+export interface MemoryFact {
+  id: string;
+  /** One self-contained statement, e.g. "Lives in Chattogram". */
+  text: string;
+  /** Epoch milliseconds; the store is plain JSON. */
+  createdAt: number;
+  updatedAt: number;
+  /** 'model' for facts Bondhu proposed and the user confirmed. */
+  source: 'user' | 'model';
+}
+
+export type ActionItemKind = 'reminder' | 'shopping' | 'phone' | 'task';
+
+/** Something the user needs to do or keep, picked out of a finished conversation. */
+export interface ActionItem {
+  kind: ActionItemKind;
+  /** One line in Bengali, e.g. "আম্মাকে ফোন করা". */
+  text: string;
+  /** Local date ('YYYY-MM-DD') or date and time ('YYYY-MM-DDTHH:mm'), when the conversation gave one. */
+  due?: string;
+  /** Shopping list entries. */
+  items?: string[];
+  /** A phone number that was mentioned, in ASCII digits. */
+  phone?: string;
+}
+
+/** What the summary model returns for a conversation. */
+export interface SummaryContent {
+  /** A few sentences in Bengali. */
+  summary: string;
+  actionItems: ActionItem[];
 }
 
+/** A summary stored with its session; regenerating replaces it. */
+export interface SessionSummary extends SummaryContent {
+  generatedAt: Date;
+}
+
+/** User-adjustable session settings; read by useLiveSession on each connect. */
 export interface LiveSessionConfig {
+  /** Prebuilt voice, e.g. 'Kore'. */
   voiceName: string;
+  model: string;
+  responseLanguage: ResponseLanguage;
+  formality: Formality;
+  /** Id of a built-in or custom persona preset. */
+  presetId: string;
+  customPresets: PersonaPreset[];
+  /** Opens the session with TEXT responses and no microphone. Needs a model that supports text output. */
+  textOnly: boolean;
+  /** Lets the model search Google for current facts and cite the pages it used. */
+  searchGrounding: boolean;
+  inputMode: InputMode;
+  /** Client VAD sensitivity, 0 to 1. */
+  vadSensitivity: number;
+  /** Client VAD hangover in ms. */
+  vadHangoverMs: number;
+  /** Output gain, 0 to 1. Applies immediately. */
+  outputVolume: number;
+  /** Playback speed of Bondhu's voice (pitch shifts with it). Applies immediately. */
+  playbackRate: number;
+  /** Stop Bondhu's playback locally as soon as the user starts speaking. */
+  localBargeIn: boolean;
+  /** Microphone deviceId; empty for the system default. Applies immediately. */
+  inputDeviceId: string;
+  /** Browser audio processing for the microphone. Applies immediately. */
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  /** Camera frames sent to the model per second while the camera is on. Applies immediately. */
+  cameraFrameRate: number;
+  /** Which camera to open; 'environment' is the back camera on phones. */
+  cameraFacing: 'user' | 'environment';
+  /** How the conversation is visualized. Display only. */
+  visualizerMode: VisualizerMode;
+  /** Large high-contrast captions of the turn in progress. Display only. */
+  captions: boolean;
+  /** Read finished replies out through screen readers' live regions. */
+  announceReplies: boolean;
+  /** Listen on the device for the recorded wake phrase and start a conversation when it is heard. */
+  handsFree: boolean;
+  /** In hands-free mode, a conversation with nothing said for this long is ended until the next wake phrase. */
+  handsFreeIdleSeconds: number;
+  /** Wake phrase matching, 0 (strict) to 1 (lenient). */
+  wakeWordSensitivity: number;
+  conversationMode: ConversationMode;
+  /** Interpreter mode translates from this language... */
+  interpreterFrom: InterpreterLanguage;
+  /** ...into this one, and back again unless `interpreterOneWay` is set. */
+  interpreterTo: InterpreterLanguage;
+  interpreterOneWay: boolean;
+  /** Summarize each conversation when it ends, picking out reminders, lists and phone numbers. */
+  summarizeSessions: boolean;
+}
+
+/**
+ * What the model's audio output is doing: 'thinking' while a reply is
+ * expected but nothing is queued, 'speaking' while audio plays.
+ */
+export type PlaybackState = 'idle' | 'thinking' | 'speaking' | 'paused';
+
+/** Options for the GoogleGenAI client that opens one Live session. */
+export interface LiveCredentials {
+  /** A real API key in dev mode, otherwise an ephemeral token. */
+  apiKey: string;
+  /** Ephemeral tokens only work on v1alpha. */
+  apiVersion?: string;
+  /** Alternative API endpoint, e.g. a local stand-in. */
+  baseUrl?: string;
+}
+
+/** Called before every connection attempt, including reconnects. */
+export type CredentialProvider = () => Promise<LiveCredentials>;
+
+/** The parts of a Live session the app uses. */
+export type LiveSessionHandle = Pick<Session, 'sendRealtimeInput' | 'sendClientContent' | 'sendToolResponse' | 'close'>;
+
+/** Opens Live sessions: the Gemini API in the app, a scripted fake in tests. */
+export interface LiveTransport {
+  connect: (params: LiveConnectParameters) => Promise<LiveSessionHandle>;
+}
+
+/** Observes the audio of a live session, e.g. to record it. */
+export interface AudioTap {
+  /** Captured microphone audio at 16 kHz, before any push-to-talk or VAD gating. */
+  onUserAudio: (pcm: Int16Array) => void;
+  /**
+   * Model audio scheduled to start `delaySeconds` from now on the output
+   * clock, played `playbackRate` times faster than recorded.
+   */
+  onModelAudio: (samples: Float32Array, sampleRate: number, delaySeconds: number, playbackRate: number) => void;
+  /** Playback was cut off now; anything scheduled after this moment never played. */
+  onPlaybackStopped: () => void;
+  /** The output clock stopped now; scheduled audio waits until it resumes. */
+  onPlaybackPaused: () => void;
+  onPlaybackResumed: () => void;
+}
+
+/** How the end of the user's turn was detected, which bounds how precise its latencies are. */
+export type TurnEndSource = 'activity-end' | 'transcription' | 'typed';
+
+/** Timings and audio stats for one model reply, measured by useLiveSession. */
+export interface TurnMetrics {
+  /** Wall-clock start of the turn, in ms since the epoch. */
+  startedAt: number;
+  /**
+   * Missing when the model spoke unprompted, e.g. a timer announcement.
+   * 'transcription' is approximate: with server-side turn detection the
+   * last transcribed words are our best marker for the end of speech.
+   */
+  endSource?: TurnEndSource;
+  /** Milliseconds from the end of the user's turn to the first model audio chunk. */
+  firstAudioMs?: number;
+  /** ...to the first transcription (or text part) of the reply. */
+  firstTranscriptionMs?: number;
+  /** ...to turnComplete, or to the interruption. */
+  completeMs?: number;
+  audioChunks: number;
+  audioBytes: number;
+  /** Times playback ran dry mid-reply. */
+  underruns: number;
+  interrupted: boolean;
+  /** Token counts from the last usageMetadata the server sent during the turn. */
+  usage?: TokenUsage;
+}
+
+export interface TokenUsage {
+  promptTokens?: number;
+  responseTokens?: number;
+  totalTokens?: number;
+}
+
+/** Structured diagnostics from useLiveSession, for the diagnostics panel and bug reports. */
+export type DiagnosticsEvent =
+  | { type: 'turn'; metrics: TurnMetrics }
+  /** `setupMs` runs from opening the connection to the server accepting it. */
+  | { type: 'connected'; at: number; setupMs: number; resumed: boolean }
+  | { type: 'reconnect'; at: number; attempt: number; reason: string };
+
+/** Services the live session exposes to tool handlers. */
+export interface ToolContext {
+  /** Aborted when the server cancels the call or the session ends. */
+  signal: AbortSignal;
+  /** Speaks `text` to the user through the model, if a session is open. */
+  announce: (text: string) => void;
+}
+
+/** Arguments exactly as the model sent them; each handler checks the ones it uses. */
+export type ToolArgs = Record<string, unknown>;
+
+export interface ToolDefinition {
+  declaration: FunctionDeclaration & { name: string };
+  handler: (args: ToolArgs, context: ToolContext) => unknown | Promise<unknown>;
 }
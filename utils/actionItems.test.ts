@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { actionItemText, toIcsEvent, toPlainTextList } from './actionItems';
+import { ActionItem } from '../types';
+
+const createdAt = new Date(Date.UTC(2025, 3, 14, 12, 30));
+
+const SHOPPING: ActionItem = { kind: 'shopping', text: 'বাজার', items: ['চাল', 'ডাল'] };
+const CALL: ActionItem = { kind: 'phone', text: 'রহিম ভাই', phone: '01711234567' };
+
+describe('actionItems', () => {
+  it('copies an item with its list entries, number and date', () => {
+    expect(actionItemText(SHOPPING)).toBe('বাজার\n- চাল\n- ডাল');
+    expect(actionItemText({ kind: 'reminder', text: 'ওষুধ খাওয়া', due: '2025-04-15T21:00' })).toBe('ওষুধ খাওয়া\n2025-04-15 21:00');
+    expect(toPlainTextList([SHOPPING, CALL])).toBe('* বাজার\n  - চাল\n  - ডাল\n* রহিম ভাই\n  01711234567\n');
+  });
+
+  it('makes a timed reminder a half-hour event with an alarm', () => {
+    const ics = toIcsEvent({ kind: 'reminder', text: 'ডাক্তার, সকাল ৯টা', due: '2025-04-15T23:45' }, { createdAt, uid: 's1-0' });
+    const lines = ics.split('\r\n');
+    expect(lines).toContain('UID:s1-0@bondhu');
+    expect(lines).toContain('DTSTAMP:20250414T123000Z');
+    expect(lines).toContain('DTSTART:20250415T234500');
+    // Runs past midnight
+    expect(lines).toContain('DTEND:20250416T001500');
+    expect(lines).toContain('SUMMARY:ডাক্তার\\, সকাল ৯টা');
+    expect(lines).toContain('TRIGGER:-PT15M');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('puts an undated item on the following day, all day', () => {
+    const lines = toIcsEvent(SHOPPING, { createdAt: new Date(2025, 3, 30, 20, 0), uid: 's1-1' }).split('\r\n');
+    expect(lines).toContain('DTSTART;VALUE=DATE:20250501');
+    expect(lines).toContain('DTEND;VALUE=DATE:20250502');
+    expect(lines).toContain('DESCRIPTION:- চাল\\n- ডাল');
+    expect(lines.some(line => line.startsWith('BEGIN:VALARM'))).toBe(false);
+  });
+
+  it('folds long lines at 75 bytes without splitting a letter', () => {
+    const text = 'আগামী সপ্তাহে গ্রামের বাড়িতে যাওয়ার আগে সবার জন্য উপহার কিনে রাখতে হবে';
+    const ics = toIcsEvent({ kind: 'task', text }, { createdAt, uid: 's1-2' });
+    const encoder = new TextEncoder();
+    ics.split('\r\n').forEach(line => expect(encoder.encode(line).length).toBeLessThanOrEqual(75));
+    const unfolded = ics.replace(/\r\n /g, '');
+    expect(unfolded).toContain(`SUMMARY:${text}`);
+  });
+});
@@ -0,0 +1,102 @@
+import { ActionItem } from '../types';
+
+/** An action item as it is copied to the clipboard: its line, then any list entries or number. */
+export const actionItemText = (item: ActionItem): string =>
+  [
+    item.text,
+    ...(item.items ?? []).map(entry => `- ${entry}`),
+    item.phone,
+    item.due?.replace('T', ' '),
+  ].filter(Boolean).join('\n');
+
+/** All action items of a summary as one plain-text list. */
+export const toPlainTextList = (items: ActionItem[]): string =>
+  items.map(item => `* ${actionItemText(item).replace(/\n/g, '\n  ')}`).join('\n') + '\n';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const icsDate = (year: number, month: number, day: number) => `${year}${pad(month)}${pad(day)}`;
+
+const addDays = (year: number, month: number, day: number, days: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return icsDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+};
+
+const utcStamp = (date: Date) =>
+  `${icsDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const encoder = new TextEncoder();
+
+// RFC 5545 lines are at most 75 octets; Bengali letters take three each, so fold by bytes, never inside a character
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their 75
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+interface IcsOptions {
+  /** When the summary was made; an item without a date goes on the day after. */
+  createdAt: Date;
+  /** Unique per item, so importing the same event twice updates it. */
+  uid: string;
+}
+
+/**
+ * A calendar event for an action item. A due time gives a half-hour event
+ * with a reminder 15 minutes before, in floating local time; a date alone,
+ * or no date, gives an all-day event.
+ */
+export const toIcsEvent = (item: ActionItem, { createdAt, uid }: IcsOptions): string => {
+  const [date, time] = item.due?.split('T') ?? [];
+  const [year, month, day] = date
+    ? date.split('-').map(Number)
+    : [createdAt.getFullYear(), createdAt.getMonth() + 1, createdAt.getDate() + 1];
+
+  let timing: string[];
+  if (time) {
+    const [hours, minutes] = time.split(':').map(Number);
+    const end = new Date(Date.UTC(year, month - 1, day, hours, minutes + 30));
+    timing = [
+      `DTSTART:${icsDate(year, month, day)}T${pad(hours)}${pad(minutes)}00`,
+      `DTEND:${icsDate(end.getUTCFullYear(), end.getUTCMonth() + 1, end.getUTCDate())}T${pad(end.getUTCHours())}${pad(end.getUTCMinutes())}00`,
+    ];
+  } else {
+    timing = [
+      `DTSTART;VALUE=DATE:${addDays(year, month, day, 0)}`,
+      `DTEND;VALUE=DATE:${addDays(year, month, day, 1)}`,
+    ];
+  }
+
+  const details = actionItemText({ ...item, text: '', due: undefined });
+  const title = item.text || details.split('\n')[0];
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Bangla Bondhu AI//Summary//EN',
+    'BEGIN:VEVENT',
+    `UID:${uid}@bondhu`,
+    `DTSTAMP:${utcStamp(createdAt)}`,
+    ...timing,
+    `SUMMARY:${escapeText(title)}`,
+    ...(details ? [`DESCRIPTION:${escapeText(details)}`] : []),
+    ...(time ? ['BEGIN:VALARM', 'ACTION:DISPLAY', 'TRIGGER:-PT15M', `DESCRIPTION:${escapeText(title)}`, 'END:VALARM'] : []),
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ].map(foldLine).join('\r\n') + '\r\n';
+};
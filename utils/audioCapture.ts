@@ -0,0 +1,107 @@
+import { INPUT_SAMPLE_RATE, Pcm16Chunker, StreamingResampler, floatTo16BitPCM } from './audioUtils';
+
+const PROCESSOR_NAME = 'pcm-capture-processor';
+const processorUrl = new URL('../worklets/pcmCaptureProcessor.js', import.meta.url);
+
+// Fallback ScriptProcessor buffer size (in device-rate frames)
+const SCRIPT_PROCESSOR_BUFFER_SIZE = 4096;
+
+export interface AudioCaptureOptions {
+  /** Number of 16 kHz samples per chunk handed to `onChunk`. */
+  chunkSize: number;
+  onChunk: (pcm: Int16Array) => void;
+}
+
+export interface AudioCapture {
+  /** 'worklet' when running on the audio thread, 'script-processor' for the fallback. */
+  readonly kind: 'worklet' | 'script-processor';
+  /** Emits whatever is buffered as a short (possibly empty) chunk. Asynchronous for worklets. */
+  flush: () => void;
+  stop: () => void;
+}
+
+// addModule must only be called once per context
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+const supportsWorklet = (ctx: AudioContext) =>
+  typeof AudioWorkletNode !== 'undefined' && !!ctx.audioWorklet;
+
+async function startWorkletCapture(
+  ctx: AudioContext,
+  source: AudioNode,
+  { chunkSize, onChunk }: AudioCaptureOptions,
+): Promise<AudioCapture> {
+  if (!loadedContexts.has(ctx)) {
+    await ctx.audioWorklet.addModule(processorUrl);
+    loadedContexts.add(ctx);
+  }
+
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { targetSampleRate: INPUT_SAMPLE_RATE, chunkSize },
+  });
+  node.port.onmessage = (e: MessageEvent<Int16Array>) => onChunk(e.data);
+  source.connect(node);
+
+  return {
+    kind: 'worklet',
+    flush: () => node.port.postMessage('flush'),
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect(node);
+      node.disconnect();
+    },
+  };
+}
+
+function startScriptProcessorCapture(
+  ctx: AudioContext,
+  source: AudioNode,
+  { chunkSize, onChunk }: AudioCaptureOptions,
+): AudioCapture {
+  const resampler = new StreamingResampler(ctx.sampleRate, INPUT_SAMPLE_RATE);
+  const chunker = new Pcm16Chunker(chunkSize, onChunk);
+
+  const processor = ctx.createScriptProcessor(SCRIPT_PROCESSOR_BUFFER_SIZE, 1, 1);
+  processor.onaudioprocess = (e) => {
+    const inputData = e.inputBuffer.getChannelData(0);
+    chunker.push(floatTo16BitPCM(resampler.process(inputData)));
+  };
+
+  source.connect(processor);
+  // ScriptProcessor only runs while connected to the destination
+  processor.connect(ctx.destination);
+
+  return {
+    kind: 'script-processor',
+    flush: () => chunker.flush(),
+    stop: () => {
+      processor.onaudioprocess = null;
+      source.disconnect(processor);
+      processor.disconnect();
+    },
+  };
+}
+
+/**
+ * Streams `source` as 16 kHz PCM16 chunks regardless of the context's actual
+ * sample rate. Uses an AudioWorklet when available and falls back to the
+ * main-thread ScriptProcessorNode otherwise.
+ */
+export async function startAudioCapture(
+  ctx: AudioContext,
+  source: AudioNode,
+  options: AudioCaptureOptions,
+): Promise<AudioCapture> {
+  if (supportsWorklet(ctx)) {
+    try {
+      return await startWorkletCapture(ctx, source, options);
+    } catch (err) {
+      console.warn('AudioWorklet capture unavailable, falling back to ScriptProcessor', err);
+    }
+  }
+  return startScriptProcessorCapture(ctx, source, options);
+}
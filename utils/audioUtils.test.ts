@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import {
+  Pcm16Chunker,
+  StreamingResampler,
+  base64ToBytes,
+  bytesToBase64,
+  createBlob,
+  decodeAudioData,
+  floatTo16BitPCM,
+  pcm16ToBlob,
+  pcm16ToFloat32,
+  signalLevel,
+} from './audioUtils';
+import { FakeAudioContext } from '../testing/fakeWebAudio';
+
+describe('base64', () => {
+  it('round-trips every byte value', () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(base64ToBytes(bytesToBase64(bytes))).toEqual(bytes);
+  });
+});
+
+describe('floatTo16BitPCM', () => {
+  it('maps the full range asymmetrically', () => {
+    expect(Array.from(floatTo16BitPCM(Float32Array.from([-1, 0, 1])))).toEqual([-32768, 0, 32767]);
+  });
+
+  it('clamps out-of-range samples', () => {
+    expect(Array.from(floatTo16BitPCM(Float32Array.from([-2, 2])))).toEqual([-32768, 32767]);
+  });
+
+  it('is inverted by pcm16ToFloat32 to within one step', () => {
+    const samples = Float32Array.from([-0.75, -0.1, 0, 0.1, 0.5, 0.99]);
+    const roundTrip = pcm16ToFloat32(floatTo16BitPCM(samples));
+    roundTrip.forEach((value, i) => expect(value).toBeCloseTo(samples[i], 4));
+  });
+});
+
+describe('pcm16ToBlob', () => {
+  it('encodes little-endian PCM with the sample rate in the mime type', () => {
+    const blob = pcm16ToBlob(Int16Array.from([1, -2]), 16000);
+    expect(blob.mimeType).toBe('audio/pcm;rate=16000');
+    expect(Array.from(base64ToBytes(blob.data!))).toEqual([1, 0, 0xfe, 0xff]);
+  });
+
+  it('only encodes the viewed part of a subarray', () => {
+    const pcm = Int16Array.from([1, 2, 3, 4]).subarray(1, 3);
+    const bytes = base64ToBytes(pcm16ToBlob(pcm).data!);
+    expect(Array.from(new Int16Array(bytes.buffer))).toEqual([2, 3]);
+  });
+
+  it('createBlob converts floats first', () => {
+    expect(createBlob(Float32Array.from([1]), 24000)).toEqual(pcm16ToBlob(Int16Array.from([32767]), 24000));
+  });
+});
+
+describe('decodeAudioData', () => {
+  it('de-interleaves PCM16 into float channels', async () => {
+    const ctx = new FakeAudioContext({ sampleRate: 24000 });
+    const pcm = Int16Array.from([16384, -16384, 0, 32767]);
+    const buffer = await decodeAudioData(new Uint8Array(pcm.buffer), ctx as unknown as AudioContext, 24000, 2);
+    expect(buffer.length).toBe(2);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5, 0]);
+    expect(Array.from(buffer.getChannelData(1))).toEqual([-0.5, 32767 / 32768]);
+  });
+});
+
+describe('StreamingResampler', () => {
+  it('passes audio through unchanged at equal rates', () => {
+    const input = Float32Array.from([0.1, 0.2, 0.3]);
+    const output = new StreamingResampler(16000, 16000).process(input);
+    expect(output).toEqual(input);
+    expect(output).not.toBe(input);
+  });
+
+  it('downsamples 48 kHz to 16 kHz at a steady 3:1 ratio across calls', () => {
+    const resampler = new StreamingResampler(48000, 16000);
+    let total = 0;
+    for (let i = 0; i < 10; i++) total += resampler.process(new Float32Array(480)).length;
+    expect(total).toBeGreaterThanOrEqual(1599);
+    expect(total).toBeLessThanOrEqual(1600);
+  });
+
+  it('joins consecutive buffers without a discontinuity', () => {
+    const ramp = Float32Array.from({ length: 96 }, (_, i) => i / 96);
+    const whole = new StreamingResampler(48000, 16000).process(ramp);
+    const resampler = new StreamingResampler(48000, 16000);
+    const split = [...resampler.process(ramp.subarray(0, 47)), ...resampler.process(ramp.subarray(47))];
+    expect(split).toHaveLength(whole.length);
+    split.forEach((sample, i) => expect(sample).toBeCloseTo(whole[i], 6));
+  });
+
+  it('filters out what would alias into the speech band when downsampling', () => {
+    const rms = (samples: Float32Array) => Math.sqrt(samples.reduce((sum, s) => sum + s * s, 0) / samples.length);
+    const tone = (hz: number) => Float32Array.from({ length: 4800 }, (_, i) => Math.sin((2 * Math.PI * hz * i) / 48000));
+    // Past the filter's settling time
+    const settled = (hz: number) => new StreamingResampler(48000, 16000).process(tone(hz)).subarray(200);
+
+    // 12 kHz cannot exist at 16 kHz; unfiltered it would come back as a 4 kHz tone
+    expect(rms(settled(12000))).toBeLessThan(0.1);
+    expect(rms(settled(1000))).toBeCloseTo(Math.SQRT1_2, 1);
+  });
+
+  it('upsamples 16 kHz to 24 kHz', () => {
+    const output = new StreamingResampler(16000, 24000).process(new Float32Array(160));
+    expect(output.length).toBeGreaterThanOrEqual(238);
+    expect(output.length).toBeLessThanOrEqual(240);
+  });
+});
+
+describe('Pcm16Chunker', () => {
+  it('emits fixed-size chunks regardless of how input is split', () => {
+    const chunks: Int16Array[] = [];
+    const chunker = new Pcm16Chunker(4, chunk => chunks.push(chunk));
+    chunker.push(Int16Array.from([1, 2, 3]));
+    chunker.push(Int16Array.from([4, 5, 6, 7, 8, 9]));
+    expect(chunks.map(chunk => Array.from(chunk))).toEqual([[1, 2, 3, 4], [5, 6, 7, 8]]);
+  });
+
+  it('flushes the remainder, or an empty chunk when nothing is buffered', () => {
+    const chunks: Int16Array[] = [];
+    const chunker = new Pcm16Chunker(4, chunk => chunks.push(chunk));
+    chunker.push(Int16Array.from([1, 2, 3, 4, 5]));
+    chunker.flush();
+    chunker.flush();
+    expect(chunks.map(chunk => Array.from(chunk))).toEqual([[1, 2, 3, 4], [5], []]);
+  });
+});
+
+describe('signalLevel', () => {
+  it('reads silence as 0 and a full-scale square wave as 1', () => {
+    expect(signalLevel(new Float32Array(256))).toBe(0);
+    expect(signalLevel(Float32Array.from({ length: 256 }, (_, i) => (i % 2 ? 1 : -1)))).toBe(1);
+  });
+
+  it('scales linearly in dB above the floor', () => {
+    // -30 dB is halfway between the -60 dB floor and full scale
+    const amplitude = Math.pow(10, -30 / 20);
+    expect(signalLevel(Float32Array.from({ length: 256 }, (_, i) => (i % 2 ? amplitude : -amplitude)))).toBeCloseTo(0.5);
+  });
+});
@@ -38,7 +38,10 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function createBlob(data: Float32Array): Blob {
+export const INPUT_SAMPLE_RATE = 16000;
+export const OUTPUT_SAMPLE_RATE = 24000;
+
+export function floatTo16BitPCM(data: Float32Array): Int16Array {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
@@ -46,8 +49,149 @@ export function createBlob(data: Float32Array): Blob {
     const s = Math.max(-1, Math.min(1, data[i]));
     int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
   }
+  return int16;
+}
+
+export function pcm16ToFloat32(int16: Int16Array): Float32Array {
+  const float32 = new Float32Array(int16.length);
+  for (let i = 0; i < int16.length; i++) {
+    float32[i] = int16[i] / 32768.0;
+  }
+  return float32;
+}
+
+export function pcm16ToBlob(int16: Int16Array, sampleRate: number = INPUT_SAMPLE_RATE): Blob {
   return {
-    data: bytesToBase64(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    data: bytesToBase64(new Uint8Array(int16.buffer, int16.byteOffset, int16.byteLength)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
-}
\ No newline at end of file
+}
+
+// Levels below this read as silence
+const LEVEL_FLOOR_DB = -60;
+
+/** Loudness of float samples on a dB scale from 0 (-60 dB or quieter) to 1 (full scale). */
+export function signalLevel(samples: Float32Array): number {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  const db = 10 * Math.log10(sum / samples.length + 1e-12);
+  return Math.max(0, Math.min(1, (db - LEVEL_FLOOR_DB) / -LEVEL_FLOOR_DB));
+}
+
+export function createBlob(data: Float32Array, sampleRate: number = INPUT_SAMPLE_RATE): Blob {
+  return pcm16ToBlob(floatTo16BitPCM(data), sampleRate);
+}
+
+/** Anti-alias cutoff as a fraction of the target rate: just under its Nyquist frequency. */
+const ANTI_ALIAS_CUTOFF = 0.45;
+/** Q of the two sections of a fourth-order Butterworth low-pass. */
+const BUTTERWORTH_Q = [0.5412, 1.3066];
+
+/** A second-order low-pass section (RBJ cookbook) whose state carries across calls. */
+class LowPassBiquad {
+  private readonly b0: number;
+  private readonly b1: number;
+  private readonly a1: number;
+  private readonly a2: number;
+  private x1 = 0;
+  private x2 = 0;
+  private y1 = 0;
+  private y2 = 0;
+
+  constructor(cutoff: number, sampleRate: number, q: number) {
+    const w0 = (2 * Math.PI * cutoff) / sampleRate;
+    const alpha = Math.sin(w0) / (2 * q);
+    const a0 = 1 + alpha;
+    this.b0 = (1 - Math.cos(w0)) / 2 / a0;
+    this.b1 = (1 - Math.cos(w0)) / a0;
+    this.a1 = (-2 * Math.cos(w0)) / a0;
+    this.a2 = (1 - alpha) / a0;
+  }
+
+  process(x: number) {
+    // b2 equals b0 for a low-pass
+    const y = this.b0 * (x + this.x2) + this.b1 * this.x1 - this.a1 * this.y1 - this.a2 * this.y2;
+    this.x2 = this.x1;
+    this.x1 = x;
+    this.y2 = this.y1;
+    this.y1 = y;
+    return y;
+  }
+}
+
+/**
+ * Streaming linear-interpolation resampler. Keeps the fractional read position
+ * and the last input sample between calls so consecutive buffers join without
+ * clicks. When downsampling, a fourth-order low-pass first removes what the
+ * target rate cannot represent, which would otherwise alias into the speech
+ * band. Mirrors the resampler inside worklets/pcmCaptureProcessor.js, which
+ * cannot import from here.
+ */
+export class StreamingResampler {
+  private readonly ratio: number;
+  private readonly antiAlias: LowPassBiquad[];
+  private position = 0;
+  private lastSample = 0;
+
+  constructor(readonly fromRate: number, readonly toRate: number) {
+    this.ratio = fromRate / toRate;
+    this.antiAlias = fromRate > toRate
+      ? BUTTERWORTH_Q.map(q => new LowPassBiquad(toRate * ANTI_ALIAS_CUTOFF, fromRate, q))
+      : [];
+  }
+
+  process(input: Float32Array): Float32Array {
+    if (this.fromRate === this.toRate) return input.slice();
+    if (this.antiAlias.length > 0) {
+      input = input.map(sample => this.antiAlias.reduce((x, section) => section.process(x), sample));
+    }
+
+    const output: number[] = [];
+    // position is relative to input[0]; -1 refers to the carried-over sample
+    while (this.position < input.length - 1) {
+      const index = Math.floor(this.position);
+      const frac = this.position - index;
+      const a = index < 0 ? this.lastSample : input[index];
+      const b = input[index + 1];
+      output.push(a + (b - a) * frac);
+      this.position += this.ratio;
+    }
+    this.position -= input.length;
+    if (input.length > 0) this.lastSample = input[input.length - 1];
+    return Float32Array.from(output);
+  }
+}
+
+/**
+ * Accumulates PCM16 samples and emits fixed-size chunks.
+ */
+export class Pcm16Chunker {
+  private buffer: Int16Array;
+  private offset = 0;
+
+  constructor(readonly chunkSize: number, private readonly onChunk: (chunk: Int16Array) => void) {
+    this.buffer = new Int16Array(chunkSize);
+  }
+
+  push(samples: Int16Array) {
+    let read = 0;
+    while (read < samples.length) {
+      const count = Math.min(this.chunkSize - this.offset, samples.length - read);
+      this.buffer.set(samples.subarray(read, read + count), this.offset);
+      this.offset += count;
+      read += count;
+      if (this.offset === this.chunkSize) {
+        this.onChunk(this.buffer);
+        this.buffer = new Int16Array(this.chunkSize);
+        this.offset = 0;
+      }
+    }
+  }
+
+  /** Emits whatever is buffered, as an empty chunk if nothing is, so callers can tell the flush completed. */
+  flush() {
+    this.onChunk(this.buffer.slice(0, this.offset));
+    this.offset = 0;
+  }
+}
@@ -0,0 +1,32 @@
+export interface BackoffOptions {
+  /** Attempts allowed before giving up. */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  maxAttempts: 6,
+  baseDelayMs: 500,
+  maxDelayMs: 15000,
+};
+
+/**
+ * Exponential backoff with jitter: the nominal delay doubles per attempt (capped
+ * at maxDelayMs) and the actual delay is drawn from its upper half so clients
+ * that dropped together don't retry in lockstep.
+ */
+export const backoffDelay = (
+  attempt: number,
+  { baseDelayMs, maxDelayMs }: BackoffOptions = DEFAULT_BACKOFF,
+  random: () => number = Math.random,
+): number => {
+  const nominal = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(nominal / 2 + random() * (nominal / 2));
+};
+
+// 1007 (invalid payload) and 1008 (policy violation) are what the Live API
+// uses for bad keys, unknown models and malformed setup; retrying won't help.
+const FATAL_CLOSE_CODES = new Set([1007, 1008]);
+
+export const isRetriableClose = (code?: number) => code === undefined || !FATAL_CLOSE_CODES.has(code);
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { toBanglaDate, toBanglaDigits } from './banglaCalendar';
+
+const bangla = (year: number, month: number, day: number) => {
+  const { year: y, monthName, day: d } = toBanglaDate(new Date(year, month - 1, day));
+  return `${d} ${monthName} ${y}`;
+};
+
+describe('toBanglaDate', () => {
+  it('starts the year on 14 April', () => {
+    expect(toBanglaDate(new Date(2025, 3, 14))).toEqual({
+      year: 1432,
+      month: 0,
+      day: 1,
+      monthName: 'বৈশাখ',
+      weekday: 'সোমবার',
+      season: 'গ্রীষ্ম',
+      formatted: '১ বৈশাখ ১৪৩২ বঙ্গাব্দ',
+    });
+    expect(bangla(2025, 4, 13)).toBe('30 চৈত্র 1431');
+  });
+
+  it('counts Gregorian dates before 14 April in the previous Bangla year', () => {
+    expect(bangla(2025, 1, 1)).toBe('17 পৌষ 1431');
+    expect(bangla(2025, 2, 21)).toBe('8 ফাল্গুন 1431');
+    expect(toBanglaDate(new Date(2025, 0, 1)).season).toBe('শীত');
+  });
+
+  it('gives Falgun a 30th day in Gregorian leap years', () => {
+    expect(bangla(2024, 2, 29)).toBe('16 ফাল্গুন 1430');
+    expect(bangla(2024, 3, 14)).toBe('30 ফাল্গুন 1430');
+    expect(bangla(2023, 3, 14)).toBe('29 ফাল্গুন 1429');
+    // Either way Choitro starts on 15 March
+    expect(bangla(2024, 3, 15)).toBe('1 চৈত্র 1430');
+    expect(bangla(2023, 3, 15)).toBe('1 চৈত্র 1429');
+  });
+
+  it('has 31-day months through Ashwin', () => {
+    expect(bangla(2025, 10, 16)).toBe('31 আশ্বিন 1432');
+    expect(bangla(2025, 10, 17)).toBe('1 কার্তিক 1432');
+  });
+});
+
+describe('toBanglaDigits', () => {
+  it('replaces every Western digit', () => {
+    expect(toBanglaDigits(1432)).toBe('১৪৩২');
+    expect(toBanglaDigits('21-02')).toBe('২১-০২');
+  });
+});
@@ -0,0 +1,72 @@
+// Bangla calendar (বঙ্গাব্দ) as revised by Bangla Academy in 2019 and used
+// officially in Bangladesh: the year starts on 14 April, Boishakh through
+// Ashwin have 31 days, Falgun has 29 days (30 in Gregorian leap years) and
+// every other month has 30.
+
+export const BANGLA_MONTHS = [
+  'বৈশাখ', 'জ্যৈষ্ঠ', 'আষাঢ়', 'শ্রাবণ', 'ভাদ্র', 'আশ্বিন',
+  'কার্তিক', 'অগ্রহায়ণ', 'পৌষ', 'মাঘ', 'ফাল্গুন', 'চৈত্র',
+];
+
+export const BANGLA_WEEKDAYS = [
+  'রবিবার', 'সোমবার', 'মঙ্গলবার', 'বুধবার', 'বৃহস্পতিবার', 'শুক্রবার', 'শনিবার',
+];
+
+export const BANGLA_SEASONS = ['গ্রীষ্ম', 'বর্ষা', 'শরৎ', 'হেমন্ত', 'শীত', 'বসন্ত'];
+
+const BANGLA_DIGITS = ['০', '১', '২', '৩', '৪', '৫', '৬', '৭', '৮', '৯'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BanglaDate {
+  year: number;
+  /** 0-based index into BANGLA_MONTHS */
+  month: number;
+  day: number;
+  monthName: string;
+  weekday: string;
+  season: string;
+  /** e.g. "১ বৈশাখ ১৪৩২ বঙ্গাব্দ" */
+  formatted: string;
+}
+
+export const toBanglaDigits = (value: number | string): string =>
+  String(value).replace(/[0-9]/g, d => BANGLA_DIGITS[Number(d)]);
+
+const isGregorianLeapYear = (year: number) =>
+  (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+
+const monthLengths = (gregorianStartYear: number): number[] => [
+  31, 31, 31, 31, 31, 31, 30, 30, 30, 30,
+  // Falgun falls in February of the following Gregorian year
+  isGregorianLeapYear(gregorianStartYear + 1) ? 30 : 29,
+  30,
+];
+
+/** Converts the local calendar day of `date` to the Bangla calendar. */
+export function toBanglaDate(date: Date): BanglaDate {
+  // Work on calendar days in UTC so DST shifts can't skew the day count
+  const y = date.getFullYear();
+  const today = Date.UTC(y, date.getMonth(), date.getDate());
+  const startYear = today >= Date.UTC(y, 3, 14) ? y : y - 1;
+  let remaining = Math.round((today - Date.UTC(startYear, 3, 14)) / DAY_MS);
+
+  const lengths = monthLengths(startYear);
+  let month = 0;
+  while (remaining >= lengths[month]) {
+    remaining -= lengths[month];
+    month++;
+  }
+
+  const year = startYear - 593;
+  const day = remaining + 1;
+  return {
+    year,
+    month,
+    day,
+    monthName: BANGLA_MONTHS[month],
+    weekday: BANGLA_WEEKDAYS[date.getDay()],
+    season: BANGLA_SEASONS[Math.floor(month / 2)],
+    formatted: `${toBanglaDigits(day)} ${BANGLA_MONTHS[month]} ${toBanglaDigits(year)} বঙ্গাব্দ`,
+  };
+}
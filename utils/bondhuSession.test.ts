@@ -0,0 +1,118 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BondhuSession } from './bondhuSession';
+import { ConnectionState, TextMessage, ToolCallMessage } from '../types';
+import { FakeLiveTransport, settle } from '../testing/fakeLiveTransport';
+import { installFakeWebAudio } from '../testing/fakeWebAudio';
+import { GREETING_EXCHANGE, TOOL_CALL_EXCHANGE, goAway, turnComplete } from '../testing/liveMessages';
+
+beforeEach(() => {
+  installFakeWebAudio();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+const connected = async () => {
+  const transport = new FakeLiveTransport();
+  const session = new BondhuSession({ transport, inputChunkSize: 1600 });
+  await session.connect();
+  await settle();
+  return { transport, session };
+};
+
+describe('BondhuSession', () => {
+  it('reports each connection state and pairs connect with disconnect', async () => {
+    const transport = new FakeLiveTransport();
+    const session = new BondhuSession({ transport });
+    const states: ConnectionState[] = [];
+    const onConnect = vi.fn();
+    const onDisconnect = vi.fn();
+    session.on('state', state => {
+      if (states[states.length - 1] !== state.connection) states.push(state.connection);
+    });
+    session.on('connect', onConnect);
+    session.on('disconnect', onDisconnect);
+
+    await session.connect();
+    await settle();
+    expect(session.state.connection).toBe('open');
+    expect(onConnect).toHaveBeenCalledTimes(1);
+
+    session.disconnect();
+    expect(states).toEqual(['connecting', 'open', 'closed']);
+    expect(onDisconnect).toHaveBeenCalledTimes(1);
+    expect(session.inputAnalyser).toBeNull();
+  });
+
+  it('keeps text turns and tool calls on their own events', async () => {
+    const { transport, session } = await connected();
+    const messages: TextMessage[] = [];
+    const toolCalls: ToolCallMessage[] = [];
+    session.on('message', message => messages.push(message));
+    session.on('toolCall', message => toolCalls.push(message));
+
+    await transport.current.play([...TOOL_CALL_EXCHANGE, { message: turnComplete() }, ...GREETING_EXCHANGE]);
+
+    expect(toolCalls.map(call => call.status)).toEqual(['running', 'completed']);
+    expect(messages.every(message => message.role === 'user' || message.role === 'model')).toBe(true);
+    expect(messages.filter(message => !message.isPartial).map(message => message.text))
+      .toEqual(['এক বিঘা কত শতক?', 'আসসালামু আলাইকুম', 'ওয়ালাইকুম আসসালাম!']);
+  });
+
+  it('stays on the old connection when a goAway handover fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const transport = new FakeLiveTransport();
+    const session = new BondhuSession({ transport, reconnect: { maxAttempts: 2, baseDelayMs: 50, maxDelayMs: 50 } });
+    const onError = vi.fn();
+    session.on('error', onError);
+    await session.connect();
+    await settle();
+    const original = transport.current;
+
+    transport.failNextConnect(new Error('handshake failed'));
+    await original.play([{ message: goAway() }]);
+
+    expect(session.state.connection).toBe('open');
+    expect(onError).not.toHaveBeenCalled();
+    expect(session.sendText('আছো?')).toBe(true);
+    await settle();
+    expect(original.clientContents).toHaveLength(1);
+
+    // When the server does close it, the usual reconnect takes over
+    await original.play([{ close: { code: 1001, reason: 'going away' } }]);
+    expect(session.state.connection).toBe('reconnecting');
+    await new Promise(resolve => setTimeout(resolve, 150));
+    expect(transport.sessions).toHaveLength(2);
+    expect(session.state.connection).toBe('open');
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('measures audio levels only while someone is listening', async () => {
+    const frames = new Map<number, FrameRequestCallback>();
+    let nextFrame = 0;
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+      frames.set(++nextFrame, callback);
+      return nextFrame;
+    });
+    vi.stubGlobal('cancelAnimationFrame', (id: number) => frames.delete(id));
+
+    const { session } = await connected();
+    expect(frames.size).toBe(0);
+
+    const onLevel = vi.fn();
+    const off = session.on('level', onLevel);
+    expect(frames.size).toBe(1);
+    const [[id, frame]] = frames;
+    frames.delete(id);
+    frame(0);
+    expect(onLevel).toHaveBeenCalledWith({ input: 0, output: 0 });
+
+    off();
+    expect(frames.size).toBe(0);
+  });
+});
@@ -0,0 +1,1178 @@
+import { FunctionCall, LiveSendRealtimeInputParameters, LiveServerMessage, Modality, Tool } from '@google/genai';
+import { INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE, base64ToBytes, decodeAudioData, pcm16ToBlob, signalLevel } from './audioUtils';
+import { PlaybackController, PlaybackStats } from './playbackController';
+import { AudioCapture, startAudioCapture } from './audioCapture';
+import { createVad } from './vad';
+import { MicrophoneError, microphoneKey, openMicrophone } from './microphone';
+import { CameraStreamer, loadImageFile } from './camera';
+import { LiveSessionError } from './sessionErrors';
+import { TurnMetricsTracker, tokenUsage } from './diagnostics';
+import { InterpreterSettings, tagLanguages } from './interpreter';
+import { groundingSources, mergeSources } from './grounding';
+import { BackoffOptions, DEFAULT_BACKOFF, backoffDelay, isRetriableClose } from './backoff';
+import { buildSystemInstruction, DEFAULT_SESSION_CONFIG } from './persona';
+import { defaultCredentials } from './credentials';
+import { selectRelevantMemories } from './memoryStore';
+import { createGenAITransport } from './liveTransport';
+import { Emitter } from './emitter';
+import { AudioTap, ConnectionState, CredentialProvider, DiagnosticsEvent, GroundingSource, InputMode, LiveSessionConfig, LiveSessionHandle, LiveTransport, MemoryFact, MessageAttachment, PlaybackState, TextMessage, ToolCallMessage, ToolDefinition } from '../types';
+import { ToolCancelledError, ToolRegistry, createToolRegistry, defaultTools } from '../tools';
+
+export interface BondhuSessionOptions {
+  /** Persona, voice and model. Read when connecting; changes apply on the next connect, except playback, camera and microphone settings. */
+  config?: LiveSessionConfig;
+  /** 16 kHz samples per realtime input chunk (4096 = 256 ms). */
+  inputChunkSize?: number;
+  /** Remembered user facts; the most relevant are added to the system instruction on connect. */
+  memories?: MemoryFact[];
+  /** Local functions the model may call. Defaults to the built-in Bondhu tools. */
+  tools?: ToolDefinition[];
+  /** Receives the audio of both sides, e.g. for recording. */
+  audioTap?: AudioTap;
+  /** Retry policy used when an open session drops. */
+  reconnect?: BackoffOptions;
+  /**
+   * Ends the conversation after this long with nobody speaking, keeping it
+   * resumable: the next connect continues where it left off. Off when unset.
+   */
+  idleTimeoutMs?: number;
+  /** Supplies the key or ephemeral token for each connection attempt. */
+  credentials?: CredentialProvider;
+  /** Opens sessions. Defaults to the Gemini API with `credentials`; tests pass a fake. */
+  transport?: LiveTransport;
+}
+
+/** The options `configure` can change on an existing session. */
+export type BondhuSessionSettings = Omit<BondhuSessionOptions, 'credentials' | 'transport'>;
+
+export interface BondhuSessionState {
+  connection: ConnectionState;
+  playback: PlaybackState;
+  /** The mode of the current conversation; settings changes apply on the next connect. */
+  inputMode: InputMode;
+  userSpeaking: boolean;
+  muted: boolean;
+  /** The live camera feed for a preview, or null while the camera is off. */
+  cameraStream: MediaStream | null;
+}
+
+/** Microphone and Bondhu's voice, each from 0 (silent) to 1 (full scale). */
+export interface AudioLevels {
+  input: number;
+  output: number;
+}
+
+export interface BondhuSessionEvents {
+  /** A user or model turn; partial and final updates of a turn share an id. */
+  message: TextMessage;
+  /** A tool call starting, then finishing, failing or being cancelled, under one id. */
+  toolCall: ToolCallMessage;
+  /** Any change to `state`; the payload is the new state. */
+  state: BondhuSessionState;
+  /** Once per animation frame while audio is live. Only measured while someone listens. */
+  level: AudioLevels;
+  /** A MicrophoneError or a LiveSessionError, which a UI explains by `kind`. */
+  error: Error;
+  /** The conversation opened; reconnects don't repeat it. */
+  connect: void;
+  /** The conversation ended. Pairs with `connect`: one that never opened reports neither. */
+  disconnect: void;
+  /** Per-turn latency metrics, connection setup times and reconnects. */
+  diagnostics: DiagnosticsEvent;
+}
+
+const DEFAULT_INPUT_CHUNK_SIZE = 4096;
+const NO_MEMORIES: MemoryFact[] = [];
+// Chunks kept before VAD triggers so the first syllable isn't clipped (~0.5 s at the default chunk size)
+const VAD_PRE_ROLL_CHUNKS = 2;
+// Gemini honours a resumption handle for two hours after its session ends
+const RESUME_WINDOW_MS = 2 * 60 * 60 * 1000;
+// How often idleness is checked again while Bondhu is replying
+const IDLE_RECHECK_MS = 1000;
+const ANALYSER_FFT_SIZE = 256;
+
+/** A transcription turn that is still receiving text. */
+interface OpenTurn {
+  id: string;
+  text: string;
+  startedAt: Date;
+  interrupted: boolean;
+  /** Camera frame showing what the user was looking at as they spoke. */
+  attachments?: MessageAttachment[];
+  /** Interpreter mode: the model's output for this user turn. */
+  translation?: string;
+  /** A typed turn, kept open in interpreter mode until its translation is complete. */
+  typed?: boolean;
+  /** Pages the model's search grounding cited for this reply. */
+  sources?: GroundingSource[];
+}
+
+let turnCounter = 0;
+const nextTurnId = (role: 'user' | 'model') => `${role}-${Date.now().toString(36)}-${++turnCounter}`;
+
+const openTurn = (role: 'user' | 'model', startedAt = new Date()): OpenTurn => ({
+  id: nextTurnId(role),
+  text: '',
+  startedAt,
+  interrupted: false,
+});
+
+// A turn worth keeping: something was said, or (in interpreter mode) translated
+const hasContent = (turn: OpenTurn | null): turn is OpenTurn => Boolean(turn?.text || turn?.translation);
+
+/** A conversation ended for being idle, which the next connect resumes. */
+interface SuspendedConversation {
+  handle: string;
+  at: number;
+  config: LiveSessionConfig;
+}
+
+/** One `transport.connect` attempt. Retired connections are ignored once superseded. */
+interface LiveConnection {
+  session: Promise<LiveSessionHandle>;
+  retired: boolean;
+}
+
+/**
+ * One Bondhu conversation at a time over the Gemini Live API: microphone
+ * capture and gating, playback, transcription turns, tool calls, camera,
+ * reconnects and idle suspension. Framework-agnostic; useLiveSession adapts
+ * it to React and the <bondhu-assistant> element drives it directly.
+ */
+export class BondhuSession extends Emitter<BondhuSessionEvents> {
+  private currentState: BondhuSessionState = {
+    connection: 'closed',
+    playback: 'idle',
+    inputMode: 'continuous',
+    userSpeaking: false,
+    muted: false,
+    cameraStream: null,
+  };
+
+  private config: LiveSessionConfig;
+  private inputChunkSize: number;
+  private memories: MemoryFact[];
+  private tools: ToolDefinition[];
+  private toolRegistry: ToolRegistry;
+  private audioTap?: AudioTap;
+  private reconnect: BackoffOptions;
+  private idleTimeoutMs?: number;
+  private readonly transport: LiveTransport;
+
+  // Audio contexts and nodes
+  private inputAudioContext: AudioContext | null = null;
+  private outputAudioContext: AudioContext | null = null;
+  private inputAnalyserNode: AnalyserNode | null = null;
+  private outputAnalyserNode: AnalyserNode | null = null;
+  private capture: AudioCapture | null = null;
+  private mediaStream: MediaStream | null = null;
+  private micSource: MediaStreamAudioSourceNode | null = null;
+  // Set up once per conversation; survives microphone switches
+  private chunkHandler: ((pcm: Int16Array) => void) | null = null;
+  // Constraints the current stream was opened with; see microphoneKey
+  private micKey = '';
+  private removeDeviceListener: (() => void) | null = null;
+
+  // Session state
+  private connection: LiveConnection | null = null;
+  // Replaces `connection` after a goAway once it opens; until then the old one carries the conversation
+  private handover: LiveConnection | null = null;
+  private resumptionHandle: string | null = null;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private suspended: SuspendedConversation | null = null;
+  // Last time anyone spoke, typed or a tool ran; see idleTimeoutMs
+  private lastActivity = 0;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private camera: CameraStreamer | null = null;
+
+  // Model audio playback
+  private playback: PlaybackController | null = null;
+  private localBargeIn = false;
+  // Per-turn latency metrics for the current conversation
+  private metrics: TurnMetricsTracker | null = null;
+
+  // True when server-side activity detection is off and we send activityStart/End ourselves
+  private manualActivity = false;
+  // Push-to-talk released; waiting for the capture flush before ending activity
+  private releasePending = false;
+
+  // Transcription turns
+  private inputTurn: OpenTurn | null = null;
+  private outputTurn: OpenTurn | null = null;
+  // When the current user/model exchange began (last turnComplete or connect)
+  private exchangeStartedAt = new Date();
+  // Languages of the current conversation in interpreter mode; null otherwise
+  private interpreter: InterpreterSettings | null = null;
+
+  private readonly pendingToolCalls = new Map<string, { controller: AbortController; message: ToolCallMessage }>();
+
+  private levelFrame: number | null = null;
+  private readonly levelSamples = new Float32Array(ANALYSER_FFT_SIZE);
+
+  constructor(options: BondhuSessionOptions = {}) {
+    super();
+    this.config = options.config ?? DEFAULT_SESSION_CONFIG;
+    this.inputChunkSize = options.inputChunkSize ?? DEFAULT_INPUT_CHUNK_SIZE;
+    this.memories = options.memories ?? NO_MEMORIES;
+    this.tools = options.tools ?? defaultTools;
+    this.toolRegistry = createToolRegistry(this.tools);
+    this.audioTap = options.audioTap;
+    this.reconnect = options.reconnect ?? DEFAULT_BACKOFF;
+    this.idleTimeoutMs = options.idleTimeoutMs;
+    this.transport = options.transport ?? createGenAITransport(options.credentials ?? defaultCredentials());
+  }
+
+  get state(): BondhuSessionState {
+    return this.currentState;
+  }
+
+  /** The microphone's analyser while audio is live, for visualizers. */
+  get inputAnalyser() {
+    return this.inputAnalyserNode;
+  }
+
+  /** Bondhu's voice's analyser while audio is live. */
+  get outputAnalyser() {
+    return this.outputAnalyserNode;
+  }
+
+  /**
+   * Changes options for the next conversation. Volume, speed, camera and
+   * microphone settings, and the idle timeout, also apply to the current one.
+   */
+  configure(settings: BondhuSessionSettings) {
+    if (settings.inputChunkSize) this.inputChunkSize = settings.inputChunkSize;
+    if (settings.memories) this.memories = settings.memories;
+    if (settings.tools && settings.tools !== this.tools) {
+      this.tools = settings.tools;
+      this.toolRegistry = createToolRegistry(settings.tools);
+    }
+    if ('audioTap' in settings) this.audioTap = settings.audioTap;
+    if (settings.reconnect) this.reconnect = settings.reconnect;
+    if ('idleTimeoutMs' in settings && settings.idleTimeoutMs !== this.idleTimeoutMs) {
+      this.idleTimeoutMs = settings.idleTimeoutMs;
+      this.startIdleTimer();
+    }
+    if (settings.config && settings.config !== this.config) this.applyConfig(settings.config);
+  }
+
+  private applyConfig(config: LiveSessionConfig) {
+    const previous = this.config;
+    this.config = config;
+    this.playback?.setVolume(config.outputVolume);
+    this.playback?.setPlaybackRate(config.playbackRate);
+    this.camera?.setFrameRate(config.cameraFrameRate);
+    // Flipping between front and back camera reopens it in place
+    if (config.cameraFacing !== previous.cameraFacing && this.camera) this.startCamera();
+    // Device and processing changes swap the microphone without reconnecting
+    if (this.mediaStream && this.micKey !== microphoneKey(config)) this.reopenMicrophone(config);
+  }
+
+  private setState(update: Partial<BondhuSessionState>) {
+    const changed = (Object.keys(update) as (keyof BondhuSessionState)[])
+      .some(key => update[key] !== this.currentState[key]);
+    if (!changed) return;
+    this.currentState = { ...this.currentState, ...update };
+    this.emit('state', this.currentState);
+  }
+
+  private transition(connection: ConnectionState) {
+    this.setState({ connection });
+    if (connection === 'open') this.startIdleTimer();
+    else this.stopIdleTimer();
+  }
+
+  private emitTurn(role: 'user' | 'model', turn: OpenTurn, isPartial: boolean) {
+    const interpreter = role === 'user' ? this.interpreter : null;
+    const languages = interpreter && tagLanguages(turn.text, turn.translation ?? '', interpreter);
+    this.emit('message', {
+      id: turn.id,
+      role,
+      text: turn.text,
+      timestamp: turn.startedAt,
+      endedAt: isPartial ? undefined : new Date(),
+      interrupted: turn.interrupted || undefined,
+      ...(role === 'user'
+        ? { source: turn.typed ? 'typed' as const : 'transcribed' as const, attachments: turn.attachments }
+        : { sources: turn.sources }),
+      ...(languages ? {
+        language: languages.source,
+        // Present, if still empty, from the start so the turn shows as interpreted
+        translation: { text: turn.translation ?? '', language: languages.target },
+      } : {}),
+      isPartial,
+    });
+  }
+
+  private sendRealtimeInput(params: LiveSendRealtimeInputParameters) {
+    const connection = this.connection;
+    if (!connection || this.currentState.connection !== 'open') return;
+    connection.session.then((session) => {
+      session.sendRealtimeInput(params);
+    }).catch(() => {});
+  }
+
+  private setUserSpeaking(speaking: boolean) {
+    if (this.currentState.userSpeaking === speaking) return;
+    this.setState({ userSpeaking: speaking });
+    this.lastActivity = Date.now();
+    // Cut Bondhu off locally instead of waiting for the server to interrupt
+    if (speaking && this.localBargeIn) this.playback?.skip();
+    if (this.manualActivity) {
+      this.sendRealtimeInput(speaking ? { activityStart: {} } : { activityEnd: {} });
+      // We ended the user's turn ourselves, so a reply is on its way
+      if (!speaking) {
+        this.playback?.expectResponse();
+        this.metrics?.userTurnEnded('activity-end');
+      }
+    }
+  }
+
+  private announce(text: string) {
+    this.connection?.session.then((session) => {
+      session.sendClientContent({ turns: text, turnComplete: true });
+    }).catch(() => {});
+  }
+
+  private async runToolCall(call: FunctionCall, sessionPromise: Promise<LiveSessionHandle>, registry: ToolRegistry) {
+    const callId = call.id ?? `${call.name}-${Date.now()}`;
+    const controller = new AbortController();
+    const message: ToolCallMessage = {
+      id: `tool-${callId}`,
+      role: 'tool',
+      callId,
+      name: call.name ?? 'unknown',
+      args: call.args ?? {},
+      status: 'running',
+      timestamp: new Date(),
+      isPartial: true,
+    };
+    this.pendingToolCalls.set(callId, { controller, message });
+    this.emit('toolCall', message);
+
+    try {
+      const response = await registry.dispatch(call, { signal: controller.signal, announce: text => this.announce(text) });
+      const failed = response.response && 'error' in response.response;
+      this.emit('toolCall', {
+        ...message,
+        status: failed ? 'failed' : 'completed',
+        result: response.response?.output,
+        error: failed ? String(response.response?.error) : undefined,
+        isPartial: false,
+      });
+      const session = await sessionPromise;
+      session.sendToolResponse({ functionResponses: response });
+    } catch (err) {
+      // Cancelled calls get no response; the transcript entry is closed by the canceller
+      if (!(err instanceof ToolCancelledError)) console.error('Tool call failed', err);
+    } finally {
+      this.pendingToolCalls.delete(callId);
+    }
+  }
+
+  private cancelToolCalls(ids: string[]) {
+    ids.forEach(id => {
+      const pending = this.pendingToolCalls.get(id);
+      if (!pending) return;
+      pending.controller.abort();
+      this.emit('toolCall', { ...pending.message, status: 'cancelled', isPartial: false });
+    });
+  }
+
+  // Finalizes any open turns, e.g. on turnComplete or when a session drops mid-turn
+  private flushTranscriptions() {
+    if (hasContent(this.inputTurn)) this.emitTurn('user', this.inputTurn, false);
+    if (this.outputTurn?.text) this.emitTurn('model', this.outputTurn, false);
+    this.inputTurn = null;
+    this.outputTurn = null;
+    this.exchangeStartedAt = new Date();
+  }
+
+  stopCamera() {
+    this.camera?.stop();
+    this.camera = null;
+    this.setState({ cameraStream: null });
+  }
+
+  /** Streams camera frames into the session at `config.cameraFrameRate` until stopped or disconnected. */
+  async startCamera() {
+    const state = this.currentState.connection;
+    if (state !== 'open' && state !== 'reconnecting') return;
+    const camera = this.camera ?? new CameraStreamer({
+      frameRate: this.config.cameraFrameRate,
+      onFrame: (frame) => this.sendRealtimeInput({ video: { data: frame.data, mimeType: frame.mimeType } }),
+    });
+    this.camera = camera;
+    try {
+      const stream = await camera.start(this.config.cameraFacing);
+      // The conversation ended, or the camera was turned off, while it opened
+      if (this.camera !== camera) {
+        camera.stop();
+        return;
+      }
+      this.setState({ cameraStream: stream });
+    } catch (err) {
+      console.error('Could not start the camera', err);
+      if (this.camera === camera) this.stopCamera();
+      this.emit('error', new LiveSessionError('camera-failed', err instanceof Error ? err.message : undefined));
+    }
+  }
+
+  private teardownAudio() {
+    // Stop tracks
+    this.mediaStream?.getTracks().forEach(track => track.stop());
+
+    // Disconnect nodes
+    this.playback?.dispose();
+    this.capture?.stop();
+    this.micSource?.disconnect();
+    this.inputAnalyserNode?.disconnect();
+    this.outputAnalyserNode?.disconnect();
+
+    // Close contexts
+    this.inputAudioContext?.close();
+    this.outputAudioContext?.close();
+    this.removeDeviceListener?.();
+
+    this.mediaStream = null;
+    this.micSource = null;
+    this.chunkHandler = null;
+    this.micKey = '';
+    this.capture = null;
+    this.inputAudioContext = null;
+    this.outputAudioContext = null;
+    this.inputAnalyserNode = null;
+    this.outputAnalyserNode = null;
+    this.playback = null;
+    this.removeDeviceListener = null;
+    this.setState({ playback: 'idle' });
+    this.updateLevelLoop();
+  }
+
+  private closeSession() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    for (const connection of [this.connection, this.handover]) {
+      if (!connection) continue;
+      // Retire first so the close we trigger isn't treated as a drop
+      connection.retired = true;
+      connection.session.then((session) => session.close()).catch(() => {});
+    }
+    this.connection = null;
+    this.handover = null;
+  }
+
+  // Ends the conversation. `finalState` is 'failed' when we gave up reconnecting.
+  private cleanup(finalState: ConnectionState = 'closed') {
+    const wasActive = this.currentState.connection === 'open' || this.currentState.connection === 'reconnecting';
+    this.transition(finalState);
+
+    // Abandon in-flight tool calls
+    this.cancelToolCalls(Array.from(this.pendingToolCalls.keys()));
+    this.flushTranscriptions();
+
+    this.closeSession();
+    this.stopCamera();
+    this.teardownAudio();
+    this.metrics = null;
+    this.releasePending = false;
+    // The next conversation starts with the microphone on
+    this.setState({ userSpeaking: false, muted: false });
+    this.resumptionHandle = null;
+    this.reconnectAttempt = 0;
+
+    if (wasActive) this.emit('disconnect');
+  }
+
+  // Routes `stream` into the input analyser and capture, replacing the previous microphone
+  private attachMicrophone(stream: MediaStream) {
+    const inputCtx = this.inputAudioContext;
+    const onChunk = this.chunkHandler;
+    if (!inputCtx || !onChunk) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    this.capture?.stop();
+    this.capture = null;
+    this.micSource?.disconnect();
+    this.mediaStream?.getTracks().forEach(track => track.stop());
+    this.mediaStream = stream;
+    stream.getAudioTracks().forEach(track => { track.enabled = !this.currentState.muted; });
+    // A push-to-talk release waiting on the old capture's flush would never finish
+    if (this.releasePending) {
+      this.releasePending = false;
+      this.setUserSpeaking(false);
+    }
+
+    const source = inputCtx.createMediaStreamSource(stream);
+    // Connect to analyser for visualization
+    if (this.inputAnalyserNode) source.connect(this.inputAnalyserNode);
+    this.micSource = source;
+
+    // Stream 16 kHz PCM chunks (AudioWorklet, or ScriptProcessor fallback)
+    startAudioCapture(inputCtx, source, { chunkSize: this.inputChunkSize, onChunk }).then((capture) => {
+      // The microphone may have been switched or torn down while the worklet loaded
+      if (this.micSource !== source) {
+        try { capture.stop(); } catch (e) { /* source already disconnected */ }
+        return;
+      }
+      this.capture = capture;
+    }).catch((err) => {
+      console.error('Audio capture failed', err);
+      this.emit('error', new LiveSessionError('capture-failed', err instanceof Error ? err.message : undefined));
+    });
+  }
+
+  // Switches to the microphone described by `settings` without touching the session
+  private async reopenMicrophone(settings: LiveSessionConfig) {
+    if (!this.inputAudioContext) return;
+    const key = microphoneKey(settings);
+    this.micKey = key;
+    try {
+      const stream = await openMicrophone(settings);
+      // Superseded by a newer switch, or the conversation ended meanwhile
+      if (this.micKey !== key || !this.inputAudioContext) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      this.attachMicrophone(stream);
+    } catch (err) {
+      // Keep using the previous microphone
+      console.error('Could not switch microphone', err);
+      this.emit('error', err instanceof MicrophoneError ? err : new MicrophoneError('unknown', err));
+    }
+  }
+
+  // Opens the audio contexts and microphone and starts streaming capture.
+  // Resolves false if the conversation was cancelled in the meantime.
+  private async setupAudio(config: LiveSessionConfig): Promise<boolean> {
+    // Initialize Audio Contexts. The requested input rate is only a hint:
+    // capture resamples from whatever rate the device actually runs at.
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    const inputCtx = new AudioContextClass({ sampleRate: INPUT_SAMPLE_RATE });
+    const outputCtx = new AudioContextClass({ sampleRate: OUTPUT_SAMPLE_RATE });
+
+    this.inputAudioContext = inputCtx;
+    this.outputAudioContext = outputCtx;
+
+    // Setup Analysers for visualization
+    const inAnalyser = inputCtx.createAnalyser();
+    inAnalyser.fftSize = ANALYSER_FFT_SIZE;
+    this.inputAnalyserNode = inAnalyser;
+
+    const outAnalyser = outputCtx.createAnalyser();
+    outAnalyser.fftSize = ANALYSER_FFT_SIZE;
+    this.outputAnalyserNode = outAnalyser;
+    this.updateLevelLoop();
+
+    // Model audio plays through gain -> analyser -> destination
+    const audioTap = this.audioTap;
+    const playback = new PlaybackController(outputCtx, {
+      analyser: outAnalyser,
+      tap: audioTap,
+      onStateChange: (state) => this.setState({ playback: state }),
+    });
+    playback.setVolume(config.outputVolume);
+    playback.setPlaybackRate(config.playbackRate);
+    this.playback = playback;
+
+    // Get Microphone Stream. Throws a MicrophoneError the UI can explain.
+    const stream = await openMicrophone(config);
+    this.micKey = microphoneKey(config);
+
+    // The user may have cancelled while the permission prompt was up
+    if (this.currentState.connection !== 'connecting') {
+      stream.getTracks().forEach(track => track.stop());
+      return false;
+    }
+
+    // Setup Input Processing. Capture runs for the whole conversation and
+    // survives reconnects and microphone switches; chunks are only sent
+    // while a session is open.
+    const sendChunk = (pcm: Int16Array) => {
+      if (pcm.length > 0) this.sendRealtimeInput({ media: pcm16ToBlob(pcm, INPUT_SAMPLE_RATE) });
+    };
+
+    // VAD gates audio in 'vad' mode and drives the speaking indicator in continuous mode
+    const vad = createVad({
+      sampleRate: INPUT_SAMPLE_RATE,
+      sensitivity: config.vadSensitivity,
+      hangoverMs: config.vadHangoverMs,
+    });
+    const preRoll: Int16Array[] = [];
+
+    this.chunkHandler = (pcm) => {
+      if (pcm.length > 0) audioTap?.onUserAudio(pcm);
+      // The disabled track only gives silence, but don't send even that
+      if (this.currentState.muted) return;
+
+      switch (config.inputMode) {
+        case 'push-to-talk':
+          if (!this.currentState.userSpeaking) return;
+          sendChunk(pcm);
+          // This is the flush requested on release
+          if (this.releasePending) {
+            this.releasePending = false;
+            this.setUserSpeaking(false);
+          }
+          return;
+
+        case 'vad': {
+          const result = vad.process(pcm);
+          if (result.started) {
+            this.setUserSpeaking(true);
+            preRoll.splice(0).forEach(sendChunk);
+          }
+          if (result.started || result.speaking || result.ended) {
+            sendChunk(pcm);
+          } else {
+            preRoll.push(pcm);
+            if (preRoll.length > VAD_PRE_ROLL_CHUNKS) preRoll.shift();
+          }
+          if (!result.speaking) this.setUserSpeaking(false);
+          return;
+        }
+
+        default:
+          sendChunk(pcm);
+          this.setUserSpeaking(vad.process(pcm).speaking);
+      }
+    };
+    this.attachMicrophone(stream);
+
+    // If the microphone in use is unplugged, fall back to another one
+    const mediaDevices = navigator.mediaDevices;
+    if (mediaDevices?.addEventListener) {
+      const onDeviceChange = () => {
+        const track = this.mediaStream?.getAudioTracks()[0];
+        if (track?.readyState === 'ended') this.reopenMicrophone(this.config);
+      };
+      mediaDevices.addEventListener('devicechange', onDeviceChange);
+      this.removeDeviceListener = () => mediaDevices.removeEventListener('devicechange', onDeviceChange);
+    }
+
+    return true;
+  }
+
+  async connect() {
+    const state = this.currentState.connection;
+    if (state === 'connecting' || state === 'open' || state === 'reconnecting') return;
+    // Settings and memories are fixed for the conversation, including its reconnects
+    const config = this.config;
+    const toolRegistry = this.toolRegistry;
+    this.setState({ inputMode: config.inputMode });
+    this.transition('connecting');
+    this.inputTurn = null;
+    this.outputTurn = null;
+    this.exchangeStartedAt = new Date();
+    // Pick up a conversation that went idle, unless the settings have changed since
+    const suspended = this.suspended;
+    this.suspended = null;
+    this.resumptionHandle = suspended && suspended.config === config && Date.now() - suspended.at < RESUME_WINDOW_MS
+      ? suspended.handle
+      : null;
+    this.reconnectAttempt = 0;
+    this.localBargeIn = config.localBargeIn;
+    this.interpreter = config.conversationMode === 'interpreter' ? config : null;
+    this.manualActivity = !config.textOnly && config.inputMode !== 'continuous';
+    this.metrics = new TurnMetricsTracker(
+      metrics => this.emit('diagnostics', { type: 'turn', metrics }),
+      { underruns: () => this.playback?.getStats().underruns ?? 0 },
+    );
+
+    try {
+      // Text-only sessions never touch the microphone or speakers
+      if (!config.textOnly && !(await this.setupAudio(config))) return;
+
+      // A spoken turn while the camera is on shows what the user was pointing it at
+      const openUserTurn = (startedAt?: Date) => {
+        const turn = openTurn('user', startedAt);
+        const snapshot = this.camera?.snapshot();
+        if (snapshot) turn.attachments = [{ kind: 'image', thumbnailUrl: snapshot, source: 'camera' }];
+        return turn;
+      };
+
+      // Reserve the user's slot before the reply in case their
+      // transcription arrives after the model has started answering
+      const openModelTurn = () => {
+        if (!this.outputTurn) {
+          this.inputTurn ??= openUserTurn(this.exchangeStartedAt);
+          // Strictly later, or within the same millisecond the transcript couldn't tell which came first
+          this.outputTurn = openTurn('model', new Date(Math.max(Date.now(), this.inputTurn.startedAt.getTime() + 1)));
+        }
+        return this.outputTurn;
+      };
+
+      const handleServerMessage = async (message: LiveServerMessage, connection: LiveConnection) => {
+        // Keep the latest resumable handle so a reconnect picks up the same conversation
+        const resumption = message.sessionResumptionUpdate;
+        if (resumption?.resumable && resumption.newHandle) {
+          this.resumptionHandle = resumption.newHandle;
+        }
+
+        const usage = tokenUsage(message);
+        if (usage) this.metrics?.usage(usage);
+
+        if (message.serverContent || message.toolCall) this.lastActivity = Date.now();
+
+        // Server is about to close this connection: hand over to a resumed one now
+        if (message.goAway && this.connection === connection && !this.handover) {
+          console.log('Received goAway, time left:', message.goAway.timeLeft);
+          openSession();
+        }
+
+        // Handle Tool Calls
+        message.toolCall?.functionCalls?.forEach(call => {
+          this.runToolCall(call, connection.session, toolRegistry);
+        });
+        if (message.toolCallCancellation?.ids) {
+          this.cancelToolCalls(message.toolCallCancellation.ids);
+        }
+
+        // Handle Audio Output
+        const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
+        const playback = this.playback;
+        if (base64Audio && playback && this.outputAudioContext) {
+          const audioBytes = base64ToBytes(base64Audio);
+          this.metrics?.modelAudio(audioBytes.byteLength);
+          const audioBuffer = await decodeAudioData(audioBytes, this.outputAudioContext, OUTPUT_SAMPLE_RATE, 1);
+          // The conversation may have ended while decoding
+          if (this.playback === playback) playback.enqueue(audioBuffer);
+        }
+
+        // Handle Interruption
+        if (message.serverContent?.interrupted) {
+          console.log('Interrupted, clearing audio queue');
+          this.playback?.stop();
+          this.playback?.endResponse();
+          this.metrics?.interrupted();
+
+          if (this.outputTurn) {
+            this.outputTurn.interrupted = true;
+            if (this.outputTurn.text) this.emitTurn('model', this.outputTurn, true);
+          }
+          // An interpreter's translation lives on the user turn it was cut from
+          if (this.inputTurn?.translation) this.inputTurn.interrupted = true;
+          // The barge-in speech belongs to a new user turn
+          if (hasContent(this.inputTurn)) this.emitTurn('user', this.inputTurn, false);
+          this.inputTurn = null;
+        }
+
+        // Handle Transcription. Input and output transcriptions are not ordered
+        // relative to each other, so each keeps its own open turn.
+        const inputText = message.serverContent?.inputTranscription?.text;
+        if (inputText) {
+          // With server-side turn detection, hearing the user is our cue that a reply will follow
+          if (!this.manualActivity) {
+            this.playback?.expectResponse();
+            this.metrics?.userTurnEnded('transcription');
+          }
+          // The reply the user talked over is done; the next one gets its own turn
+          if (this.outputTurn?.interrupted) {
+            if (this.outputTurn.text) this.emitTurn('model', this.outputTurn, false);
+            this.outputTurn = null;
+          }
+          // Speech after an interpreted typed turn is a turn of its own
+          if (this.inputTurn?.typed) {
+            this.emitTurn('user', this.inputTurn, false);
+            this.inputTurn = null;
+          }
+          this.inputTurn ??= openUserTurn();
+          this.inputTurn.text += inputText;
+          this.emitTurn('user', this.inputTurn, true);
+        }
+
+        // Text-only sessions get the reply as text parts instead of a transcription
+        const outputText = config.textOnly
+          ? message.serverContent?.modelTurn?.parts?.filter(part => part.text && !part.thought).map(part => part.text).join('')
+          : message.serverContent?.outputTranscription?.text;
+        if (outputText && this.interpreter) {
+          this.metrics?.modelText();
+          // The translation is shown with what was said, not as a reply
+          this.inputTurn ??= openUserTurn(this.exchangeStartedAt);
+          this.inputTurn.translation = (this.inputTurn.translation ?? '') + outputText;
+          this.emitTurn('user', this.inputTurn, true);
+        } else if (outputText) {
+          this.metrics?.modelText();
+          const turn = openModelTurn();
+          turn.text += outputText;
+          this.emitTurn('model', turn, true);
+        }
+
+        // Search grounding can arrive before, with or after the words it backs up
+        const sources = groundingSources(message.serverContent?.groundingMetadata);
+        if (sources.length > 0 && !this.interpreter) {
+          const turn = openModelTurn();
+          turn.sources = mergeSources(turn.sources, sources);
+          if (turn.text) this.emitTurn('model', turn, true);
+        }
+
+        // Turn Complete (Finalize Transcripts)
+        if (message.serverContent?.turnComplete) {
+          this.flushTranscriptions();
+          this.playback?.endResponse();
+          this.metrics?.turnComplete();
+        }
+      };
+
+      // Called when the current connection closes or fails without us asking
+      const handleDrop = (wasOpen: boolean, reason: string, code?: number) => {
+        const state = this.currentState.connection;
+        if (state === 'closed' || state === 'failed') return;
+
+        this.flushTranscriptions();
+        this.cancelToolCalls(Array.from(this.pendingToolCalls.keys()));
+        // Whatever is buffered plays out, but the rest of the reply is gone
+        this.playback?.endResponse();
+        this.metrics?.abandon();
+
+        const attempt = this.reconnectAttempt;
+        const canRetry = (wasOpen || state === 'reconnecting')
+          && isRetriableClose(code)
+          && attempt < this.reconnect.maxAttempts;
+
+        if (!canRetry) {
+          this.emit('error', new LiveSessionError(state === 'connecting' ? 'connect-failed' : 'connection-lost', reason));
+          this.cleanup('failed');
+          return;
+        }
+
+        const delay = backoffDelay(attempt, this.reconnect);
+        console.log(`Connection dropped (${reason}), reconnecting in ${delay}ms (attempt ${attempt + 1}/${this.reconnect.maxAttempts})`);
+        this.reconnectAttempt = attempt + 1;
+        this.emit('diagnostics', { type: 'reconnect', at: Date.now(), attempt: attempt + 1, reason });
+        this.transition('reconnecting');
+        // A handover still opening is already the resumed connection we would open
+        this.connection = this.handover;
+        this.handover = null;
+        if (this.connection) return;
+        this.reconnectTimer = setTimeout(() => {
+          this.reconnectTimer = null;
+          openSession();
+        }, delay);
+      };
+
+      const systemInstruction = buildSystemInstruction(config, selectRelevantMemories(this.memories).map(fact => fact.text));
+      // An interpreter only translates, so it gets no tools
+      const sessionTools: Tool[] = this.interpreter ? [] : [
+        ...(toolRegistry.declarations.length > 0 ? [{ functionDeclarations: toolRegistry.declarations }] : []),
+        ...(config.searchGrounding ? [{ googleSearch: {} }] : []),
+      ];
+
+      // The old connection keeps going, so a failed handover costs nothing yet;
+      // when it closes, the drop reconnects as usual
+      const abandonHandover = (connection: LiveConnection, reason: string) => {
+        console.warn(`Handover after goAway failed (${reason}), staying on the current connection`);
+        this.handover = null;
+        connection.retired = true;
+        connection.session.then((session) => session.close()).catch(() => {});
+      };
+
+      const openSession = () => {
+        const previous = this.connection;
+        let wasOpen = false;
+        let lastError = '';
+        const openedAt = Date.now();
+
+        const connection: LiveConnection = {
+          retired: false,
+          session: this.transport.connect({
+            model: config.model,
+            callbacks: {
+              onopen: () => {
+                if (connection.retired) return;
+                console.log('Session opened');
+                if (this.handover === connection) {
+                  this.handover = null;
+                  this.connection = connection;
+                }
+                wasOpen = true;
+                this.reconnectAttempt = 0;
+                const firstOpen = this.currentState.connection === 'connecting';
+                this.emit('diagnostics', { type: 'connected', at: Date.now(), setupMs: Date.now() - openedAt, resumed: !firstOpen });
+                this.transition('open');
+                if (firstOpen) this.emit('connect');
+
+                // A resumed session must hear that the user is mid-utterance
+                if (this.manualActivity && this.currentState.userSpeaking) {
+                  this.sendRealtimeInput({ activityStart: {} });
+                }
+
+                // Retire the connection this one replaces (goAway handover)
+                if (previous && previous !== connection) {
+                  previous.retired = true;
+                  previous.session.then((session) => session.close()).catch(() => {});
+                }
+              },
+              onmessage: (message: LiveServerMessage) => {
+                if (connection.retired) return;
+                handleServerMessage(message, connection);
+              },
+              onclose: (e) => {
+                console.log('Session closed', e);
+                if (connection.retired) return;
+                const reason = e.reason || lastError || `code ${e.code}`;
+                if (this.handover === connection) abandonHandover(connection, reason);
+                else if (this.connection === connection) handleDrop(wasOpen, reason, e.code);
+              },
+              onerror: (e) => {
+                console.error('Session error', e);
+                lastError = e.message || 'connection error';
+              }
+            },
+            config: {
+              ...(config.textOnly
+                ? { responseModalities: [Modality.TEXT] }
+                : {
+                    responseModalities: [Modality.AUDIO],
+                    speechConfig: {
+                      voiceConfig: { prebuiltVoiceConfig: { voiceName: config.voiceName } }
+                    },
+                    // Updated transcription config: pass empty objects to enable
+                    inputAudioTranscription: {},
+                    outputAudioTranscription: {},
+                  }),
+              systemInstruction,
+              tools: sessionTools.length > 0 ? sessionTools : undefined,
+              // Push-to-talk and client VAD mark activity explicitly
+              realtimeInputConfig: this.manualActivity
+                ? { automaticActivityDetection: { disabled: true } }
+                : undefined,
+              // Ask for resumption handles; pass the last one to continue the same conversation
+              sessionResumption: { handle: this.resumptionHandle ?? undefined },
+              // Lets long conversations run past the context limit instead of being closed
+              contextWindowCompression: { slidingWindow: {} }
+            }
+          }),
+        };
+
+        connection.session.catch((err) => {
+          if (connection.retired) return;
+          const reason = err instanceof Error ? err.message : String(err);
+          if (this.handover === connection) abandonHandover(connection, reason);
+          else if (this.connection === connection) handleDrop(wasOpen, reason);
+        });
+
+        // Audio keeps flowing over the old connection until the new one opens
+        if (previous) this.handover = connection;
+        else this.connection = connection;
+      };
+
+      openSession();
+
+    } catch (err) {
+      console.error(err);
+      this.emit('error', err instanceof MicrophoneError
+        ? err
+        : new LiveSessionError('connect-failed', err instanceof Error ? err.message : undefined));
+      this.cleanup('failed');
+    }
+  }
+
+  disconnect() {
+    this.suspended = null;
+    this.cleanup();
+  }
+
+  // Ends an idle conversation but keeps its handle for the next connect
+  private suspend() {
+    const handle = this.resumptionHandle;
+    this.cleanup();
+    this.suspended = handle ? { handle, at: Date.now(), config: this.config } : null;
+  }
+
+  private stopIdleTimer() {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = null;
+  }
+
+  private startIdleTimer() {
+    this.stopIdleTimer();
+    const timeout = this.idleTimeoutMs;
+    if (!timeout || this.currentState.connection !== 'open') return;
+    this.lastActivity = Date.now();
+    const check = () => {
+      // Bondhu still talking, or a tool still running, is not idleness. A reply
+      // that is only expected is: if it never comes the conversation must still end.
+      const speaking = this.playback?.getStats().state === 'speaking';
+      if (this.currentState.userSpeaking || speaking || this.pendingToolCalls.size > 0) {
+        this.lastActivity = Date.now();
+      }
+      const remaining = this.lastActivity + timeout - Date.now();
+      if (remaining > 0) {
+        this.idleTimer = setTimeout(check, Math.min(remaining, IDLE_RECHECK_MS));
+        return;
+      }
+      console.log(`No activity for ${timeout}ms, ending the conversation`);
+      this.suspend();
+    };
+    this.idleTimer = setTimeout(check, timeout);
+  }
+
+  /** Turns the microphone off and on without ending the conversation. */
+  setMuted(muted: boolean) {
+    this.setState({ muted });
+    this.mediaStream?.getAudioTracks().forEach(track => { track.enabled = !muted; });
+    if (muted) {
+      this.releasePending = false;
+      this.setUserSpeaking(false);
+    }
+  }
+
+  /** Push-to-talk control: true while the talk button or spacebar is held. */
+  setPushToTalk(pressed: boolean) {
+    if (this.currentState.inputMode !== 'push-to-talk' || this.currentState.connection !== 'open') return;
+    if (pressed) {
+      if (this.currentState.muted) return;
+      this.releasePending = false;
+      this.setUserSpeaking(true);
+      return;
+    }
+    if (!this.currentState.userSpeaking) return;
+    if (this.capture) {
+      // Send the tail of the utterance before ending activity; see chunkHandler
+      this.releasePending = true;
+      this.capture.flush();
+    } else {
+      this.setUserSpeaking(false);
+    }
+  }
+
+  /** Sends a typed user turn into the open session. Returns false if it couldn't be sent. */
+  sendText(text: string) {
+    const connection = this.connection;
+    const trimmed = text.trim();
+    if (!trimmed || !connection || this.currentState.connection !== 'open') return false;
+
+    // A typed turn ends whatever the user was saying aloud
+    if (hasContent(this.inputTurn)) this.emitTurn('user', this.inputTurn, false);
+    this.inputTurn = null;
+
+    const now = new Date();
+    this.exchangeStartedAt = now;
+    if (this.interpreter) {
+      // Stays open to collect its translation
+      this.inputTurn = { ...openTurn('user', now), text: trimmed, typed: true };
+      this.emitTurn('user', this.inputTurn, true);
+    } else {
+      this.emit('message', {
+        id: nextTurnId('user'),
+        role: 'user',
+        text: trimmed,
+        timestamp: now,
+        endedAt: now,
+        source: 'typed',
+        isPartial: false,
+      });
+    }
+
+    this.playback?.expectResponse();
+    this.metrics?.userTurnEnded('typed');
+    this.lastActivity = Date.now();
+    connection.session.then((session) => {
+      session.sendClientContent({ turns: [{ role: 'user', parts: [{ text: trimmed }] }], turnComplete: true });
+    }).catch((err) => console.error('Failed to send text', err));
+    return true;
+  }
+
+  /**
+   * Shows Bondhu a photo, with an optional question, as one complete user
+   * turn. Resolves false if there is no open session or the image can't be read.
+   */
+  async sendImage(file: Blob, caption = '') {
+    if (!this.connection || this.currentState.connection !== 'open') return false;
+    let loaded: Awaited<ReturnType<typeof loadImageFile>>;
+    try {
+      loaded = await loadImageFile(file);
+    } catch (err) {
+      console.error('Could not read the image', err);
+      this.emit('error', new LiveSessionError('image-failed', err instanceof Error ? err.message : undefined));
+      return false;
+    }
+    // The session may have closed while the image was decoding
+    const connection = this.connection;
+    if (!connection || this.currentState.connection !== 'open') return false;
+
+    if (hasContent(this.inputTurn)) this.emitTurn('user', this.inputTurn, false);
+    this.inputTurn = null;
+
+    const text = caption.trim();
+    const now = new Date();
+    this.exchangeStartedAt = now;
+    this.emit('message', {
+      id: nextTurnId('user'),
+      role: 'user',
+      text,
+      timestamp: now,
+      endedAt: now,
+      source: 'typed',
+      attachments: [{ kind: 'image', thumbnailUrl: loaded.thumbnailUrl, source: 'upload' }],
+      isPartial: false,
+    });
+
+    this.playback?.expectResponse();
+    this.metrics?.userTurnEnded('typed');
+    this.lastActivity = Date.now();
+    const { data, mimeType } = loaded.image;
+    connection.session.then((session) => {
+      session.sendClientContent({
+        turns: [{ role: 'user', parts: [{ inlineData: { data, mimeType } }, ...(text ? [{ text }] : [])] }],
+        turnComplete: true,
+      });
+    }).catch((err) => console.error('Failed to send image', err));
+    return true;
+  }
+
+  pausePlayback() {
+    this.playback?.pause().catch((err) => console.error('Failed to pause playback', err));
+  }
+
+  resumePlayback() {
+    this.playback?.resume().catch((err) => console.error('Failed to resume playback', err));
+  }
+
+  /** Stops Bondhu's current reply; the rest of it is dropped as it arrives. */
+  skipResponse() {
+    this.playback?.skip();
+  }
+
+  /** Buffered seconds and underrun count, for diagnostics. */
+  getPlaybackStats(): PlaybackStats | null {
+    return this.playback?.getStats() ?? null;
+  }
+
+  protected listenersChanged(event: keyof BondhuSessionEvents) {
+    if (event === 'level') this.updateLevelLoop();
+  }
+
+  private measure(analyser: AnalyserNode | null) {
+    if (!analyser) return 0;
+    analyser.getFloatTimeDomainData(this.levelSamples);
+    return signalLevel(this.levelSamples);
+  }
+
+  // Measures levels only while there is audio and someone to tell
+  private updateLevelLoop() {
+    const wanted = this.listenerCount('level') > 0 && (this.inputAnalyserNode !== null || this.outputAnalyserNode !== null);
+    if (!wanted) {
+      if (this.levelFrame === null) return;
+      cancelAnimationFrame(this.levelFrame);
+      this.levelFrame = null;
+      // Leave meters at rest rather than on the last frame
+      this.emit('level', { input: 0, output: 0 });
+      return;
+    }
+    if (this.levelFrame !== null) return;
+    const tick = () => {
+      this.levelFrame = requestAnimationFrame(tick);
+      this.emit('level', { input: this.measure(this.inputAnalyserNode), output: this.measure(this.outputAnalyserNode) });
+    };
+    this.levelFrame = requestAnimationFrame(tick);
+  }
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { scaledSize } from './camera';
+
+describe('scaledSize', () => {
+  it('fits the longer side to the limit and keeps the aspect ratio', () => {
+    expect(scaledSize(1920, 1080, 768)).toEqual({ width: 768, height: 432 });
+    expect(scaledSize(1080, 1920, 768)).toEqual({ width: 432, height: 768 });
+  });
+
+  it('never scales up', () => {
+    expect(scaledSize(640, 480, 768)).toEqual({ width: 640, height: 480 });
+  });
+
+  it('keeps at least one pixel on extreme aspect ratios', () => {
+    expect(scaledSize(10000, 1, 768)).toEqual({ width: 768, height: 1 });
+  });
+});
@@ -0,0 +1,139 @@
+import type { LiveSessionConfig } from '../types';
+
+// Camera frames and photos, downscaled and JPEG-encoded for the Live API.
+// Gemini tiles images at 768 px, so anything larger only costs bandwidth.
+
+export const FRAME_MAX_DIMENSION = 768;
+export const THUMBNAIL_MAX_DIMENSION = 160;
+const JPEG_QUALITY = 0.7;
+const THUMBNAIL_QUALITY = 0.6;
+
+export interface EncodedImage {
+  /** Base64 JPEG without the data URL prefix. */
+  data: string;
+  mimeType: 'image/jpeg';
+  width: number;
+  height: number;
+}
+
+/** Fits `width` x `height` inside a `max` square, never scaling up. */
+export const scaledSize = (width: number, height: number, max: number) => {
+  const scale = Math.min(1, max / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+const drawScaled = (source: CanvasImageSource, width: number, height: number, max: number) => {
+  const size = scaledSize(width, height, max);
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is not available');
+  ctx.drawImage(source, 0, 0, size.width, size.height);
+  return canvas;
+};
+
+export const encodeJpeg = (source: CanvasImageSource, width: number, height: number, max = FRAME_MAX_DIMENSION): EncodedImage => {
+  const canvas = drawScaled(source, width, height, max);
+  const dataUrl = canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+  return { data: dataUrl.slice(dataUrl.indexOf(',') + 1), mimeType: 'image/jpeg', width: canvas.width, height: canvas.height };
+};
+
+/** A small JPEG data URL for the transcript and stored history. */
+export const thumbnailDataUrl = (source: CanvasImageSource, width: number, height: number) =>
+  drawScaled(source, width, height, THUMBNAIL_MAX_DIMENSION).toDataURL('image/jpeg', THUMBNAIL_QUALITY);
+
+/** Decodes a picked or captured photo into a frame for the model and a thumbnail for display. */
+export const loadImageFile = async (file: Blob): Promise<{ image: EncodedImage; thumbnailUrl: string }> => {
+  // Honours EXIF orientation, so phone photos aren't sideways
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    return {
+      image: encodeJpeg(bitmap, bitmap.width, bitmap.height),
+      thumbnailUrl: thumbnailDataUrl(bitmap, bitmap.width, bitmap.height),
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+export type CameraFacing = LiveSessionConfig['cameraFacing'];
+
+interface CameraStreamerOptions {
+  /** Frames per second sent to the model. */
+  frameRate: number;
+  onFrame: (frame: EncodedImage) => void;
+}
+
+/**
+ * Opens a camera and samples it at a fixed rate. Frames are drawn from an
+ * offscreen video element so sampling doesn't depend on the preview being
+ * visible.
+ */
+export class CameraStreamer {
+  private video: HTMLVideoElement | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  stream: MediaStream | null = null;
+
+  constructor(private options: CameraStreamerOptions) {}
+
+  async start(facing: CameraFacing): Promise<MediaStream> {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      video: { facingMode: facing, width: { ideal: 1280 }, height: { ideal: 720 } },
+    });
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = stream;
+    try {
+      await video.play();
+    } catch (err) {
+      stream.getTracks().forEach(track => track.stop());
+      throw err;
+    }
+
+    this.stop();
+    this.stream = stream;
+    this.video = video;
+    this.schedule();
+    return stream;
+  }
+
+  setFrameRate(frameRate: number) {
+    this.options.frameRate = frameRate;
+    if (this.timer) this.schedule();
+  }
+
+  /** Thumbnail of the current frame, or null before the camera has produced one. */
+  snapshot(): string | null {
+    const video = this.video;
+    if (!video || !video.videoWidth) return null;
+    try {
+      return thumbnailDataUrl(video, video.videoWidth, video.videoHeight);
+    } catch (err) {
+      console.warn('Could not snapshot the camera', err);
+      return null;
+    }
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    if (this.video) this.video.srcObject = null;
+    this.video = null;
+  }
+
+  private schedule() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = setInterval(() => this.capture(), 1000 / this.options.frameRate);
+  }
+
+  private capture() {
+    const video = this.video;
+    // No frame yet, or the tab is hidden and the browser paused the video
+    if (!video || !video.videoWidth || video.readyState < video.HAVE_CURRENT_DATA) return;
+    this.options.onFrame(encodeJpeg(video, video.videoWidth, video.videoHeight));
+  }
+}
@@ -0,0 +1,22 @@
+import { CredentialProvider } from '../types';
+
+export const TOKEN_ENDPOINT = '/api/token';
+
+/** Dev mode: use the key baked in by Vite. Never use this for a deployed build. */
+export const directKeyCredentials = (apiKey: string): CredentialProvider => async () => ({ apiKey });
+
+/** Fetches a single-use ephemeral token from the Bondhu server (see server/). */
+export const tokenProxyCredentials = (endpoint = TOKEN_ENDPOINT): CredentialProvider => async () => {
+  const response = await fetch(endpoint, { method: 'POST' });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || typeof body.token !== 'string') {
+    throw new Error(body.error ?? `Token request failed (${response.status})`);
+  }
+  return { apiKey: body.token, apiVersion: body.apiVersion };
+};
+
+/** The dev server provides API_KEY; production builds don't, and go through the token proxy. */
+export const defaultCredentials = (): CredentialProvider => {
+  const apiKey = process.env.API_KEY;
+  return apiKey ? directKeyCredentials(apiKey) : tokenProxyCredentials();
+};
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { DiagnosticsEvent, TurnMetrics } from '../types';
+import { TurnMetricsTracker, exportDiagnostics, summarizeDiagnostics } from './diagnostics';
+
+const tracker = () => {
+  let now = 0;
+  let underruns = 0;
+  const turns: TurnMetrics[] = [];
+  const metrics = new TurnMetricsTracker(turn => turns.push(turn), { now: () => now, underruns: () => underruns });
+  return {
+    metrics,
+    turns,
+    at: (ms: number) => { now = ms; },
+    underrun: () => { underruns++; },
+  };
+};
+
+describe('TurnMetricsTracker', () => {
+  it('measures the reply from the end of the user turn', () => {
+    const { metrics, turns, at, underrun } = tracker();
+    at(1000);
+    metrics.userTurnEnded('activity-end');
+    at(1400);
+    metrics.modelText();
+    at(1650);
+    metrics.modelAudio(4800);
+    underrun();
+    metrics.modelAudio(4800);
+    metrics.usage({ totalTokens: 42 });
+    at(3000);
+    metrics.turnComplete();
+
+    expect(turns).toEqual([{
+      startedAt: 1000,
+      endSource: 'activity-end',
+      firstAudioMs: 650,
+      firstTranscriptionMs: 400,
+      completeMs: 2000,
+      audioChunks: 2,
+      audioBytes: 9600,
+      underruns: 1,
+      interrupted: false,
+      usage: { totalTokens: 42 },
+    }]);
+  });
+
+  it('moves a transcription mark until the reply starts but keeps an exact one', () => {
+    const { metrics, turns, at } = tracker();
+    at(100);
+    metrics.userTurnEnded('transcription');
+    at(300);
+    metrics.userTurnEnded('transcription');
+    at(500);
+    metrics.modelAudio(100);
+    // Late words of the same turn
+    metrics.userTurnEnded('transcription');
+    metrics.turnComplete();
+    expect(turns[0]).toMatchObject({ startedAt: 300, firstAudioMs: 200 });
+
+    metrics.userTurnEnded('activity-end');
+    at(600);
+    metrics.userTurnEnded('transcription');
+    metrics.turnComplete();
+    expect(turns[1]).toMatchObject({ startedAt: 500, endSource: 'activity-end' });
+  });
+
+  it('closes an interrupted reply and starts the next turn fresh', () => {
+    const { metrics, turns, at, underrun } = tracker();
+    underrun();
+    metrics.userTurnEnded('typed');
+    metrics.modelAudio(100);
+    at(200);
+    metrics.interrupted();
+    metrics.userTurnEnded('transcription');
+    metrics.turnComplete();
+
+    expect(turns.map(turn => [turn.interrupted, turn.audioChunks, turn.underruns])).toEqual([[true, 1, 1], [false, 0, 0]]);
+  });
+
+  it('leaves latencies out when the model speaks unprompted', () => {
+    const { metrics, turns } = tracker();
+    metrics.modelAudio(100);
+    metrics.turnComplete();
+    expect(turns[0].endSource).toBeUndefined();
+    expect(turns[0].firstAudioMs).toBeUndefined();
+    expect(turns[0].completeMs).toBeUndefined();
+  });
+});
+
+describe('diagnostics summary', () => {
+  const turn = (firstAudioMs: number, overrides: Partial<TurnMetrics> = {}): DiagnosticsEvent => ({
+    type: 'turn',
+    metrics: { startedAt: 0, firstAudioMs, audioChunks: 2, audioBytes: 1000, underruns: 0, interrupted: false, ...overrides },
+  });
+
+  it('aggregates latencies and counters across turns', () => {
+    const events: DiagnosticsEvent[] = [
+      { type: 'connected', at: 0, setupMs: 300, resumed: false },
+      ...[400, 100, 300, 200].map(ms => turn(ms)),
+      turn(900, { interrupted: true, underruns: 2, usage: { totalTokens: 50 } }),
+      { type: 'reconnect', at: 10, attempt: 1, reason: 'internal error' },
+      { type: 'connected', at: 20, setupMs: 500, resumed: true },
+    ];
+    expect(summarizeDiagnostics(events)).toMatchObject({
+      turns: 5,
+      firstAudio: { median: 300, p90: 900 },
+      firstTranscription: { median: undefined },
+      audioChunks: 10,
+      averageChunkBytes: 500,
+      underruns: 2,
+      interruptions: 1,
+      reconnects: 1,
+      averageSetupMs: 400,
+      totalTokens: 50,
+    });
+  });
+
+  it('exports the events with their summary as JSON', () => {
+    const events = [turn(250)];
+    const report = JSON.parse(exportDiagnostics(events, { model: 'test' }, new Date('2025-04-14T12:00:00Z')));
+    expect(report).toMatchObject({
+      format: 'bondhu-diagnostics',
+      exportedAt: '2025-04-14T12:00:00.000Z',
+      context: { model: 'test' },
+      summary: { turns: 1 },
+      events,
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { LiveServerMessage } from '@google/genai';
+import { DiagnosticsEvent, TokenUsage, TurnEndSource, TurnMetrics } from '../types';
+
+/** Token counts carried by a server message, if any. */
+export const tokenUsage = (message: LiveServerMessage): TokenUsage | undefined => {
+  const usage = message.usageMetadata;
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.promptTokenCount,
+    responseTokens: usage.responseTokenCount,
+    totalTokens: usage.totalTokenCount,
+  };
+};
+
+interface TrackedTurn {
+  metrics: TurnMetrics;
+  /** When the user's turn ended, if we saw it end. */
+  userEndedAt?: number;
+  replyStarted: boolean;
+}
+
+interface TurnMetricsTrackerOptions {
+  /** Total playback underruns so far in the conversation. */
+  underruns: () => number;
+  now?: () => number;
+}
+
+/**
+ * Measures each model reply against the end of the user's turn. The hook
+ * reports what it sees; a turn is emitted on turnComplete or when it is
+ * interrupted.
+ */
+export class TurnMetricsTracker {
+  private turn: TrackedTurn | null = null;
+  // Underrun total at the end of the previous turn
+  private underrunBaseline = 0;
+  private readonly now: () => number;
+
+  constructor(private readonly onTurn: (metrics: TurnMetrics) => void, private readonly options: TurnMetricsTrackerOptions) {
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * The user finished speaking or sent a message. Transcriptions move the
+   * mark until the reply starts, but never override an exact one.
+   */
+  userTurnEnded(source: TurnEndSource) {
+    if (this.turn?.replyStarted) {
+      // Late transcription of words the reply is already answering
+      if (source === 'transcription') return;
+      // The user took the floor before the reply finished
+      this.finish(true);
+    }
+    const turn = this.current();
+    if (source === 'transcription' && turn.metrics.endSource && turn.metrics.endSource !== 'transcription') return;
+    turn.userEndedAt = this.now();
+    turn.metrics.startedAt = turn.userEndedAt;
+    turn.metrics.endSource = source;
+  }
+
+  modelAudio(bytes: number) {
+    const turn = this.replying();
+    turn.metrics.audioChunks++;
+    turn.metrics.audioBytes += bytes;
+    turn.metrics.firstAudioMs ??= this.elapsed(turn);
+  }
+
+  /** An output transcription, or a text part in text-only sessions. */
+  modelText() {
+    const turn = this.replying();
+    turn.metrics.firstTranscriptionMs ??= this.elapsed(turn);
+  }
+
+  usage(usage: TokenUsage) {
+    this.current().metrics.usage = usage;
+  }
+
+  interrupted() {
+    if (this.turn?.replyStarted) this.finish(true);
+  }
+
+  turnComplete() {
+    if (this.turn) this.finish(false);
+  }
+
+  /** Drops the open turn, e.g. when the connection drops mid-reply. */
+  abandon() {
+    this.turn = null;
+  }
+
+  private current(): TrackedTurn {
+    this.turn ??= {
+      metrics: { startedAt: this.now(), audioChunks: 0, audioBytes: 0, underruns: 0, interrupted: false },
+      replyStarted: false,
+    };
+    return this.turn;
+  }
+
+  private replying(): TrackedTurn {
+    const turn = this.current();
+    turn.replyStarted = true;
+    return turn;
+  }
+
+  private elapsed(turn: TrackedTurn) {
+    return turn.userEndedAt === undefined ? undefined : this.now() - turn.userEndedAt;
+  }
+
+  private finish(interrupted: boolean) {
+    const turn = this.turn!;
+    this.turn = null;
+    const underruns = this.options.underruns();
+    turn.metrics.underruns = Math.max(0, underruns - this.underrunBaseline);
+    this.underrunBaseline = underruns;
+    turn.metrics.completeMs = this.elapsed(turn);
+    turn.metrics.interrupted = interrupted;
+    this.onTurn(turn.metrics);
+  }
+}
+
+export interface LatencyStats {
+  median?: number;
+  p90?: number;
+}
+
+export interface DiagnosticsSummary {
+  turns: number;
+  firstAudio: LatencyStats;
+  firstTranscription: LatencyStats;
+  complete: LatencyStats;
+  audioChunks: number;
+  /** Mean model audio chunk size in bytes. */
+  averageChunkBytes?: number;
+  underruns: number;
+  interruptions: number;
+  reconnects: number;
+  /** Mean connection setup time in ms. */
+  averageSetupMs?: number;
+  totalTokens: number;
+}
+
+/** Nearest-rank percentile of `values`, which must be sorted. */
+const percentile = (values: number[], p: number) =>
+  values.length ? values[Math.max(0, Math.ceil((p / 100) * values.length) - 1)] : undefined;
+
+const latencyStats = (values: (number | undefined)[]): LatencyStats => {
+  const sorted = values.filter((v): v is number => v !== undefined).sort((a, b) => a - b);
+  return { median: percentile(sorted, 50), p90: percentile(sorted, 90) };
+};
+
+const mean = (values: number[]) => values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : undefined;
+
+export const turnsOf = (events: DiagnosticsEvent[]) =>
+  events.flatMap(event => event.type === 'turn' ? [event.metrics] : []);
+
+export const summarizeDiagnostics = (events: DiagnosticsEvent[]): DiagnosticsSummary => {
+  const turns = turnsOf(events);
+  const audioChunks = turns.reduce((sum, turn) => sum + turn.audioChunks, 0);
+  const audioBytes = turns.reduce((sum, turn) => sum + turn.audioBytes, 0);
+  return {
+    turns: turns.length,
+    firstAudio: latencyStats(turns.map(turn => turn.firstAudioMs)),
+    firstTranscription: latencyStats(turns.map(turn => turn.firstTranscriptionMs)),
+    complete: latencyStats(turns.map(turn => turn.completeMs)),
+    audioChunks,
+    averageChunkBytes: audioChunks ? audioBytes / audioChunks : undefined,
+    underruns: turns.reduce((sum, turn) => sum + turn.underruns, 0),
+    interruptions: turns.filter(turn => turn.interrupted).length,
+    reconnects: events.filter(event => event.type === 'reconnect').length,
+    averageSetupMs: mean(events.flatMap(event => event.type === 'connected' ? [event.setupMs] : [])),
+    totalTokens: turns.reduce((sum, turn) => sum + (turn.usage?.totalTokens ?? 0), 0),
+  };
+};
+
+/** A JSON report to attach to bug reports. `context` describes the app, e.g. model and input mode. */
+export const exportDiagnostics = (events: DiagnosticsEvent[], context: Record<string, unknown>, exportedAt = new Date()) =>
+  JSON.stringify({
+    format: 'bondhu-diagnostics',
+    version: 1,
+    exportedAt: exportedAt.toISOString(),
+    userAgent: typeof navigator === 'undefined' ? undefined : navigator.userAgent,
+    context,
+    summary: summarizeDiagnostics(events),
+    events,
+  }, null, 2);
@@ -0,0 +1,18 @@
+/** Saves `data` as a file through a temporary object URL. */
+export const downloadFile = (data: BlobPart, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/** e.g. "bondhu-2025-04-14-1830" */
+export const fileStamp = (date: Date, prefix = 'bondhu') => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${prefix}-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Emitter } from './emitter';
+
+interface TestEvents {
+  ping: number;
+  done: void;
+}
+
+class TestEmitter extends Emitter<TestEvents> {
+  fire<K extends keyof TestEvents>(event: K, ...payload: TestEvents[K] extends void ? [] : [TestEvents[K]]) {
+    this.emit(event, ...payload);
+  }
+}
+
+describe('Emitter', () => {
+  it('stops calling a listener once the function `on` returned is called', () => {
+    const emitter = new TestEmitter();
+    const listener = vi.fn();
+    const off = emitter.on('ping', listener);
+    emitter.fire('ping', 1);
+    off();
+    emitter.fire('ping', 2);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(1);
+    expect(emitter.listenerCount('ping')).toBe(0);
+  });
+
+  it('still calls the other listeners when one throws', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const emitter = new TestEmitter();
+    const after = vi.fn();
+    emitter.on('done', () => { throw new Error('broken'); });
+    emitter.on('done', after);
+    emitter.fire('done');
+
+    expect(after).toHaveBeenCalledTimes(1);
+    expect(console.error).toHaveBeenCalled();
+  });
+});
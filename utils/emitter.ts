@@ -0,0 +1,45 @@
+type Listener<T> = (payload: T) => void;
+
+/**
+ * A typed event emitter. `Events` maps each event name to its payload;
+ * `void` events are emitted without one.
+ */
+export class Emitter<Events> {
+  // Each set only ever holds listeners for its own event's payload
+  private readonly listeners = new Map<keyof Events, Set<Listener<never>>>();
+
+  /** Adds a listener and returns a function that removes it. */
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+    this.listenersChanged(event);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>) {
+    if (this.listeners.get(event)?.delete(listener)) this.listenersChanged(event);
+  }
+
+  listenerCount(event: keyof Events) {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+
+  protected emit<K extends keyof Events>(event: K, ...[payload]: Events[K] extends void ? [] : [Events[K]]) {
+    // A copy, so listeners can unsubscribe while being called
+    for (const listener of [...(this.listeners.get(event) ?? [])] as Listener<Events[K] | undefined>[]) {
+      try {
+        listener(payload);
+      } catch (err) {
+        // One broken listener must not stop the others, or the emitter
+        console.error(`A "${String(event)}" listener failed`, err);
+      }
+    }
+  }
+
+  /** Called after a listener for `event` is added or removed. */
+  protected listenersChanged(_event: keyof Events) {}
+}
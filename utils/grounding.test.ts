@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { groundingSources, mergeSources } from './grounding';
+
+describe('grounding', () => {
+  it('keeps the linked web pages, naming each by title or domain', () => {
+    expect(groundingSources({
+      groundingChunks: [
+        { web: { uri: 'https://railway.gov.bd/schedule', title: 'Train schedule' } },
+        { web: { uri: 'https://redirect.example/abc', domain: 'prothomalo.com' } },
+        { web: { uri: 'https://www.daily-star.net/business' } },
+        { retrievedContext: { text: 'no link' } },
+        { web: { title: 'no link either' } },
+      ],
+    })).toEqual([
+      { uri: 'https://railway.gov.bd/schedule', title: 'Train schedule', domain: 'railway.gov.bd' },
+      { uri: 'https://redirect.example/abc', title: 'prothomalo.com', domain: 'prothomalo.com' },
+      { uri: 'https://www.daily-star.net/business', title: 'daily-star.net', domain: 'daily-star.net' },
+    ]);
+    expect(groundingSources(undefined)).toEqual([]);
+    expect(groundingSources({ webSearchQueries: ['weather dhaka'] })).toEqual([]);
+  });
+
+  it('merges later updates without repeating a page', () => {
+    const first = { uri: 'https://a.example', title: 'A' };
+    const second = { uri: 'https://b.example', title: 'B' };
+    expect(mergeSources(undefined, [first, first])).toEqual([first]);
+    expect(mergeSources([first], [second, first])).toEqual([first, second]);
+  });
+});
@@ -0,0 +1,29 @@
+import { GroundingMetadata } from '@google/genai';
+import { GroundingSource } from '../types';
+
+const hostname = (uri: string) => {
+  try {
+    return new URL(uri).hostname.replace(/^www\./, '');
+  } catch {
+    return uri;
+  }
+};
+
+/**
+ * The web pages a grounded answer drew on, in the order the server cited
+ * them. Chunks without a link (e.g. retrieved context) can't be opened, so
+ * they're left out.
+ */
+export const groundingSources = (metadata: GroundingMetadata | undefined): GroundingSource[] =>
+  (metadata?.groundingChunks ?? []).flatMap(({ web }) => {
+    if (!web?.uri) return [];
+    // Search results often link through a redirect, so the title or domain names the site better than the link does
+    const domain = web.domain || hostname(web.uri);
+    return [{ uri: web.uri, title: web.title || domain, domain }];
+  });
+
+/** Adds sources from a later grounding update, skipping ones the turn already cites. */
+export const mergeSources = (existing: GroundingSource[] | undefined, incoming: GroundingSource[]): GroundingSource[] => {
+  const seen = new Set(existing?.map(source => source.uri));
+  return [...(existing ?? []), ...incoming.filter(source => !seen.has(source.uri) && seen.add(source.uri))];
+};
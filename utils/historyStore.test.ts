@@ -0,0 +1,93 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  appendMessage,
+  createSession,
+  deleteSession,
+  endSession,
+  getSession,
+  listSessions,
+  renameSession,
+  saveSummary,
+} from './historyStore';
+import { matchesQuery } from './textSearch';
+import { SessionSummary, TextMessage } from '../types';
+
+const turn = (id: string, role: TextMessage['role'], text: string, startedAtMs: number): TextMessage => ({
+  id,
+  role,
+  text,
+  timestamp: new Date(startedAtMs),
+  isPartial: false,
+});
+
+afterEach(async () => {
+  const sessions = await listSessions();
+  await Promise.all(sessions.map(session => deleteSession(session.id)));
+});
+
+describe('history store', () => {
+  it('lists sessions newest first', async () => {
+    const older = await createSession(new Date(2026, 0, 1));
+    const newer = await createSession(new Date(2026, 0, 2));
+    expect((await listSessions()).map(session => session.id)).toEqual([newer.id, older.id]);
+  });
+
+  it('stores messages in turn order, replacing one with the same id', async () => {
+    const { id } = await createSession(new Date(1000));
+    await appendMessage(id, turn('m1', 'model', 'ওয়ালাইকুম', 3000));
+    await appendMessage(id, turn('u1', 'user', 'আসসালামু আলাইকুম', 2000));
+    await appendMessage(id, turn('m1', 'model', 'ওয়ালাইকুম আসসালাম', 3000));
+    const ended = await endSession(id, new Date(4000));
+
+    expect(ended.endedAt).toEqual(new Date(4000));
+    const stored = await getSession(id);
+    expect(stored?.messages.map(m => (m.role === 'tool' ? m.name : m.text))).toEqual(['আসসালামু আলাইকুম', 'ওয়ালাইকুম আসসালাম']);
+    expect(stored?.messages[0].timestamp).toEqual(new Date(2000));
+  });
+
+  it('renames a session, clearing the title when left blank', async () => {
+    const { id } = await createSession();
+    expect((await renameSession(id, '  বাজারের ফর্দ ')).title).toBe('বাজারের ফর্দ');
+    expect((await renameSession(id, '   ')).title).toBeUndefined();
+    expect((await getSession(id))?.title).toBeUndefined();
+  });
+
+  it('deletes a session', async () => {
+    const kept = await createSession(new Date(1000));
+    const removed = await createSession(new Date(2000));
+    await deleteSession(removed.id);
+    expect(await getSession(removed.id)).toBeUndefined();
+    expect((await listSessions()).map(session => session.id)).toEqual([kept.id]);
+  });
+
+  it('stores a summary with its session, replacing an earlier one', async () => {
+    const { id } = await createSession();
+    await saveSummary(id, { summary: 'পুরনো', actionItems: [], generatedAt: new Date(1000) });
+    const summary: SessionSummary = {
+      summary: 'বাজারের ফর্দ নিয়ে কথা হলো।',
+      actionItems: [{ kind: 'shopping', text: 'বাজার করা', items: ['ডিম', 'চাল'] }],
+      generatedAt: new Date(2000),
+    };
+    await saveSummary(id, summary);
+    expect((await getSession(id))?.summary).toEqual(summary);
+  });
+
+  it('rejects updates to an unknown session without leaving the transaction dangling', async () => {
+    await expect(renameSession('missing', 'x')).rejects.toThrow('Unknown session missing');
+    // The store is still usable afterwards
+    await expect(createSession()).resolves.toMatchObject({ messages: [] });
+  });
+
+  it('finds stored Bengali text however it was composed', async () => {
+    const { id } = await createSession();
+    // ড় typed as ড + nukta, searched for as the single code point
+    await appendMessage(id, turn('u1', 'user', 'আমি বা\u09A1\u09BCি যাব', 1000));
+    const [session] = await listSessions();
+    const text = session.messages.map(m => (m.role === 'tool' ? m.name : m.text)).join('\n');
+
+    expect(matchesQuery(text, 'বা\u09DCি')).toBe(true);
+    expect(matchesQuery(text, 'যাব  আমি')).toBe(true);
+    expect(matchesQuery(text, 'অফিস')).toBe(false);
+  });
+});
@@ -0,0 +1,113 @@
+import { Message, SessionSummary } from '../types';
+import { transcriptReducer } from './transcriptReducer';
+
+const DB_NAME = 'bondhu-history';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+
+export interface StoredSession {
+  id: string;
+  title?: string;
+  startedAt: Date;
+  endedAt?: Date;
+  /** Finalized messages only, ordered by turn start. */
+  messages: Message[];
+  summary?: SessionSummary;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(SESSIONS, { keyPath: 'id' });
+        store.createIndex('startedAt', 'startedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => Promise<T>,
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  // Await both together so a failing `run` doesn't leave `done` rejecting unobserved
+  const [result] = await Promise.all([run(tx.objectStore(SESSIONS)), done]);
+  return result;
+};
+
+const updateSession = (id: string, update: (session: StoredSession) => void) =>
+  withStore('readwrite', async store => {
+    const session = await promisify<StoredSession | undefined>(store.get(id));
+    if (!session) throw new Error(`Unknown session ${id}`);
+    update(session);
+    await promisify(store.put(session));
+    return session;
+  });
+
+/** All sessions, newest first. */
+export const listSessions = () =>
+  withStore('readonly', async store => {
+    const sessions = await promisify<StoredSession[]>(store.index('startedAt').getAll());
+    return sessions.reverse();
+  });
+
+export const getSession = (id: string) =>
+  withStore('readonly', store => promisify<StoredSession | undefined>(store.get(id)));
+
+export const createSession = (startedAt = new Date()) => {
+  const session: StoredSession = {
+    id: `${startedAt.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+    startedAt,
+    messages: [],
+  };
+  return withStore('readwrite', async store => {
+    await promisify(store.add(session));
+    return session;
+  });
+};
+
+/** Adds a finalized message, replacing any stored message with the same id. */
+export const appendMessage = (sessionId: string, message: Message) =>
+  updateSession(sessionId, session => {
+    session.messages = transcriptReducer(session.messages, { type: 'upsert', message });
+  });
+
+export const endSession = (sessionId: string, endedAt = new Date()) =>
+  updateSession(sessionId, session => {
+    session.endedAt = endedAt;
+  });
+
+export const renameSession = (sessionId: string, title: string) =>
+  updateSession(sessionId, session => {
+    session.title = title.trim() || undefined;
+  });
+
+export const saveSummary = (sessionId: string, summary: SessionSummary) =>
+  updateSession(sessionId, session => {
+    session.summary = summary;
+  });
+
+export const deleteSession = (sessionId: string) =>
+  withStore('readwrite', store => promisify(store.delete(sessionId)));
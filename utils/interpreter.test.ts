@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { buildInterpreterInstruction, detectLanguage, tagLanguages } from './interpreter';
+import { buildSystemInstruction, DEFAULT_SESSION_CONFIG } from './persona';
+
+const BANGLA_ENGLISH = { interpreterFrom: 'bn', interpreterTo: 'en', interpreterOneWay: false } as const;
+
+describe('interpreter', () => {
+  it('detects the language of a turn from its script', () => {
+    expect(detectLanguage('আমার মাথা ব্যথা করছে।', ['bn', 'en'])).toBe('bn');
+    expect(detectLanguage('How long has it hurt?', ['bn', 'en'])).toBe('en');
+    expect(detectLanguage('कितने दिन से? 3 दिन', ['bn', 'hi'])).toBe('hi');
+    // Mixed speech goes to the script with the most letters
+    expect(detectLanguage('আমার BP একটু বেশি', ['bn', 'en'])).toBe('bn');
+    expect(detectLanguage('৫০০ mg', ['bn', 'hi'])).toBeUndefined();
+  });
+
+  it('tags an inconclusive side as the other language of the pair', () => {
+    expect(tagLanguages('আমার মাথা ব্যথা', 'I have a headache', BANGLA_ENGLISH)).toEqual({ source: 'bn', target: 'en' });
+    expect(tagLanguages('500', 'পাঁচশো', BANGLA_ENGLISH)).toEqual({ source: 'en', target: 'bn' });
+    expect(tagLanguages('আমার মাথা ব্যথা', '', BANGLA_ENGLISH)).toEqual({ source: 'bn', target: 'en' });
+    expect(tagLanguages('', '', BANGLA_ENGLISH)).toEqual({ source: undefined, target: undefined });
+  });
+
+  it('translates both ways, or one way only', () => {
+    const twoWay = buildInterpreterInstruction(BANGLA_ENGLISH);
+    expect(twoWay).toContain('When you hear Bengali, say it in English. When you hear English, say it in Bengali.');
+
+    const oneWay = buildInterpreterInstruction({ interpreterFrom: 'en', interpreterTo: 'hi', interpreterOneWay: true });
+    expect(oneWay).toContain('Everything you hear in English, say again in Hindi.');
+    expect(oneWay).toContain('If something is already in Hindi, say nothing at all.');
+  });
+
+  it('replaces the persona and memories with the interpreter instruction', () => {
+    const config = { ...DEFAULT_SESSION_CONFIG, conversationMode: 'interpreter' as const };
+    const instruction = buildSystemInstruction(config, ['Is vegetarian']);
+    expect(instruction).toBe(buildInterpreterInstruction(config));
+    expect(instruction).not.toContain('Bondhu');
+    expect(instruction).not.toContain('vegetarian');
+  });
+});
@@ -0,0 +1,64 @@
+import { InterpreterLanguage, LiveSessionConfig } from '../types';
+
+interface LanguageInfo {
+  /** English name, for the model's instructions. */
+  name: string;
+  /** The language's own name, shown the same in every UI language. */
+  nativeName: string;
+  /** Letters of the language's script, leaving out its digits. */
+  script: RegExp;
+}
+
+export const INTERPRETER_LANGUAGES: Record<InterpreterLanguage, LanguageInfo> = {
+  bn: { name: 'Bengali', nativeName: 'বাংলা', script: /[\u0980-\u09E5\u09F0-\u09FF]/g },
+  en: { name: 'English', nativeName: 'English', script: /[A-Za-z]/g },
+  hi: { name: 'Hindi', nativeName: 'हिन्दी', script: /[\u0900-\u0965\u0970-\u097F]/g },
+  ur: { name: 'Urdu', nativeName: 'اردو', script: /[\u0600-\u065F\u066A-\u06EF\u06FA-\u06FF\u0750-\u077F]/g },
+};
+
+export type InterpreterSettings = Pick<LiveSessionConfig, 'interpreterFrom' | 'interpreterTo' | 'interpreterOneWay'>;
+
+/**
+ * Which of `candidates` `text` is written in, by counting the letters of each
+ * one's script. Undefined when none of them appear, e.g. for digits alone.
+ */
+export const detectLanguage = (text: string, candidates: InterpreterLanguage[]): InterpreterLanguage | undefined => {
+  let best: InterpreterLanguage | undefined;
+  let bestCount = 0;
+  candidates.forEach(language => {
+    const count = text.match(INTERPRETER_LANGUAGES[language].script)?.length ?? 0;
+    if (count > bestCount) {
+      best = language;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+/**
+ * Tags a turn and its translation. Each side is detected from its own script;
+ * when one side is inconclusive it is taken to be the other language of the pair.
+ */
+export const tagLanguages = (original: string, translation: string, { interpreterFrom, interpreterTo }: InterpreterSettings) => {
+  const pair = [interpreterFrom, interpreterTo];
+  const other = (language?: InterpreterLanguage) =>
+    language === interpreterFrom ? interpreterTo : language === interpreterTo ? interpreterFrom : undefined;
+  const source = detectLanguage(original, pair);
+  const target = detectLanguage(translation, pair);
+  return { source: source ?? other(target), target: target ?? other(source) };
+};
+
+/** Instructions that make the live session a translator instead of a conversational assistant. */
+export const buildInterpreterInstruction = ({ interpreterFrom, interpreterTo, interpreterOneWay }: InterpreterSettings): string => {
+  const from = INTERPRETER_LANGUAGES[interpreterFrom].name;
+  const to = INTERPRETER_LANGUAGES[interpreterTo].name;
+  return [
+    'You are a professional live interpreter helping people who do not share a language talk to each other, for example a patient and a doctor.',
+    interpreterOneWay
+      ? `Everything you hear in ${from}, say again in ${to}. If something is already in ${to}, say nothing at all.`
+      : `When you hear ${from}, say it in ${to}. When you hear ${to}, say it in ${from}.`,
+    'Speak only the translation, in the first person as the speaker said it. Never answer questions, add comments, greet anyone or explain what you are doing.',
+    'Translate faithfully, keeping names, numbers, doses and dates exactly. Keep the speaker\'s tone and level of politeness.',
+    'If you could not hear something clearly, say so briefly in the language it was spoken in.',
+  ].join('\n');
+};
@@ -0,0 +1,14 @@
+import { GoogleGenAI } from '@google/genai';
+import { CredentialProvider, LiveTransport } from '../types';
+
+/** Connects to the Gemini Live API, fetching fresh credentials for every session. */
+export const createGenAITransport = (credentials: CredentialProvider): LiveTransport => ({
+  connect: async (params) => {
+    const { apiKey, apiVersion, baseUrl } = await credentials();
+    const ai = new GoogleGenAI({
+      apiKey,
+      httpOptions: { ...(apiVersion ? { apiVersion } : {}), ...(baseUrl ? { baseUrl } : {}) },
+    });
+    return ai.live.connect(params);
+  },
+});
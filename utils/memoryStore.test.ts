@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryFact } from '../types';
+import {
+  createMemory,
+  exportMemories,
+  mergeMemories,
+  parseMemoryExport,
+  selectRelevantMemories,
+} from './memoryStore';
+import { buildSystemInstruction, DEFAULT_SESSION_CONFIG } from './persona';
+import { createProposeMemoryTool } from '../tools';
+
+const fact = (text: string, updatedAt: number): MemoryFact => ({ ...createMemory(text, 'user', updatedAt), updatedAt });
+
+describe('memory store', () => {
+  it('round-trips facts through an export file', () => {
+    const facts = [fact('Is vegetarian', 1), fact('Lives in Chattogram', 2)];
+    expect(parseMemoryExport(exportMemories(facts))).toEqual(facts);
+  });
+
+  it('rejects files that are not memory exports', () => {
+    expect(() => parseMemoryExport('{"facts": []}')).toThrow('Not a Bondhu memory export');
+    expect(() => parseMemoryExport('not json')).toThrow();
+  });
+
+  it('drops malformed entries on import', () => {
+    const json = JSON.stringify({
+      format: 'bondhu-memory',
+      version: 1,
+      facts: [{ text: '  Has a cat  ', createdAt: 5 }, { text: '' }, { id: 'x' }, null],
+    });
+    const [imported, ...rest] = parseMemoryExport(json);
+    expect(rest).toHaveLength(0);
+    expect(imported).toMatchObject({ text: 'Has a cat', createdAt: 5, updatedAt: 5, source: 'user' });
+  });
+
+  it('skips duplicates by id or text when merging', () => {
+    const existing = [fact('Is vegetarian', 1)];
+    const merged = mergeMemories(existing, [existing[0], fact('is VEGETARIAN', 2), fact('Has a cat', 3)]);
+    expect(merged.map(f => f.text)).toEqual(['Is vegetarian', 'Has a cat']);
+  });
+
+  it('selects the most recently updated facts within the budget', () => {
+    const facts = [fact('old', 1), fact('newest', 3), fact('a much longer fact that does not fit', 2)];
+    expect(selectRelevantMemories(facts, { maxChars: 10 }).map(f => f.text)).toEqual(['newest', 'old']);
+    expect(selectRelevantMemories(facts, { maxFacts: 1 }).map(f => f.text)).toEqual(['newest']);
+  });
+});
+
+describe('memory in the system instruction', () => {
+  it('lists remembered facts after the persona rules', () => {
+    const instruction = buildSystemInstruction(DEFAULT_SESSION_CONFIG, ['Is vegetarian', 'Lives in Chattogram']);
+    expect(instruction).toMatch(/remember about them[^\n]*\n- Is vegetarian\n- Lives in Chattogram$/);
+  });
+
+  it('adds nothing when there are no facts', () => {
+    expect(buildSystemInstruction(DEFAULT_SESSION_CONFIG, [])).toBe(buildSystemInstruction(DEFAULT_SESSION_CONFIG));
+    expect(buildSystemInstruction(DEFAULT_SESSION_CONFIG)).not.toContain('remember');
+  });
+});
+
+describe('propose_memory tool', () => {
+  const context = { signal: new AbortController().signal, announce: () => {} };
+
+  it('hands the fact to the UI for confirmation instead of saving it', async () => {
+    const proposed: string[] = [];
+    const tool = createProposeMemoryTool(text => proposed.push(text));
+    expect(await tool.handler({ fact: " Mother's birthday is 12 May " }, context)).toEqual({ status: 'awaiting_user_confirmation' });
+    expect(proposed).toEqual(["Mother's birthday is 12 May"]);
+  });
+
+  it('rejects an empty fact', () => {
+    const tool = createProposeMemoryTool(() => {});
+    expect(() => tool.handler({ fact: '  ' }, context)).toThrow('fact must not be empty');
+  });
+});
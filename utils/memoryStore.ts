@@ -0,0 +1,96 @@
+import { MemoryFact } from '../types';
+
+const STORAGE_KEY = 'bondhu-memory';
+const EXPORT_FORMAT = 'bondhu-memory';
+const EXPORT_VERSION = 1;
+
+// Budget for the facts sent with each connect, so the instruction stays short
+export const MAX_INJECTED_FACTS = 40;
+export const MAX_INJECTED_CHARS = 2000;
+
+export const loadMemories = (): MemoryFact[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? normalizeFacts(JSON.parse(raw)) : [];
+  } catch (err) {
+    console.warn('Ignoring unreadable memory store', err);
+    return [];
+  }
+};
+
+export const saveMemories = (facts: MemoryFact[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(facts));
+  } catch (err) {
+    console.warn('Could not save memories', err);
+  }
+};
+
+export const createMemory = (text: string, source: MemoryFact['source'], now = Date.now()): MemoryFact => ({
+  id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+  text: text.trim(),
+  createdAt: now,
+  updatedAt: now,
+  source,
+});
+
+const sameText = (a: string, b: string) =>
+  a.trim().toLocaleLowerCase() === b.trim().toLocaleLowerCase();
+
+export const hasMemory = (facts: MemoryFact[], text: string) => facts.some(fact => sameText(fact.text, text));
+
+// Keeps well-formed entries only, so a hand-edited or foreign file can't break the app
+const normalizeFacts = (value: unknown): MemoryFact[] => {
+  if (!Array.isArray(value)) throw new Error('Expected a list of facts');
+  return value.flatMap((item): MemoryFact[] => {
+    if (!item || typeof item.text !== 'string' || !item.text.trim()) return [];
+    const createdAt = Number(item.createdAt) || Date.now();
+    return [{
+      id: typeof item.id === 'string' ? item.id : createMemory(item.text, 'user', createdAt).id,
+      text: item.text.trim(),
+      createdAt,
+      updatedAt: Number(item.updatedAt) || createdAt,
+      source: item.source === 'model' ? 'model' : 'user',
+    }];
+  });
+};
+
+export const exportMemories = (facts: MemoryFact[], now = new Date()) =>
+  JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: now.toISOString(), facts }, null, 2);
+
+/** Reads a file written by `exportMemories`. Throws if it is anything else. */
+export const parseMemoryExport = (json: string): MemoryFact[] => {
+  const data = JSON.parse(json);
+  if (data?.format !== EXPORT_FORMAT) throw new Error('Not a Bondhu memory export');
+  if (data.version > EXPORT_VERSION) throw new Error(`Unsupported memory export version ${data.version}`);
+  return normalizeFacts(data.facts);
+};
+
+/** Adds imported facts, skipping ones already stored under the same id or text. */
+export const mergeMemories = (existing: MemoryFact[], imported: MemoryFact[]): MemoryFact[] => {
+  const merged = [...existing];
+  imported.forEach(fact => {
+    if (merged.some(m => m.id === fact.id) || hasMemory(merged, fact.text)) return;
+    merged.push(fact);
+  });
+  return merged;
+};
+
+/**
+ * Facts to send with a new session, most recently confirmed or edited first,
+ * until the count or character budget runs out.
+ */
+export const selectRelevantMemories = (
+  facts: MemoryFact[],
+  { maxFacts = MAX_INJECTED_FACTS, maxChars = MAX_INJECTED_CHARS } = {},
+): MemoryFact[] => {
+  const selected: MemoryFact[] = [];
+  let chars = 0;
+  for (const fact of [...facts].sort((a, b) => b.updatedAt - a.updatedAt)) {
+    if (selected.length >= maxFacts) break;
+    if (chars + fact.text.length > maxChars) continue;
+    selected.push(fact);
+    chars += fact.text.length;
+  }
+  return selected;
+};
@@ -0,0 +1,65 @@
+import { LiveSessionConfig } from '../types';
+
+export type MicrophoneErrorKind = 'permission-denied' | 'not-found' | 'in-use' | 'unknown';
+
+/** getUserMedia failures, sorted into the cases the user can do something about. */
+export class MicrophoneError extends Error {
+  constructor(readonly kind: MicrophoneErrorKind, readonly cause?: unknown) {
+    super(`Microphone unavailable (${kind})`);
+    this.name = 'MicrophoneError';
+  }
+}
+
+export const classifyMicrophoneError = (err: unknown): MicrophoneErrorKind => {
+  const name = err instanceof Error || err instanceof DOMException ? err.name : '';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return 'permission-denied';
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return 'not-found';
+    case 'NotReadableError':
+    case 'AbortError':
+      return 'in-use';
+    default:
+      return 'unknown';
+  }
+};
+
+export type MicrophoneSettings = Pick<LiveSessionConfig, 'inputDeviceId' | 'echoCancellation' | 'noiseSuppression' | 'autoGainControl'>;
+
+export const audioConstraints = (
+  { inputDeviceId, echoCancellation, noiseSuppression, autoGainControl }: MicrophoneSettings,
+): MediaTrackConstraints => ({
+  ...(inputDeviceId ? { deviceId: { exact: inputDeviceId } } : {}),
+  echoCancellation,
+  noiseSuppression,
+  autoGainControl,
+  channelCount: 1,
+});
+
+/** Identifies the constraints a stream was opened with, to tell when it must be reopened. */
+export const microphoneKey = (settings: MicrophoneSettings) => JSON.stringify(audioConstraints(settings));
+
+/**
+ * Opens the configured microphone. A saved device that has since been
+ * unplugged falls back to the default one rather than failing.
+ */
+export const openMicrophone = async (settings: MicrophoneSettings): Promise<MediaStream> => {
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio: audioConstraints(settings) });
+  } catch (err) {
+    if (settings.inputDeviceId && classifyMicrophoneError(err) === 'not-found') {
+      return openMicrophone({ ...settings, inputDeviceId: '' });
+    }
+    throw new MicrophoneError(classifyMicrophoneError(err), err);
+  }
+};
+
+/** Audio inputs. Labels are empty until the user has granted microphone access once. */
+export const listInputDevices = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput');
+};
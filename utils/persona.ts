@@ -0,0 +1,116 @@
+import { LiveSessionConfig, PersonaPreset } from '../types';
+import { buildInterpreterInstruction } from './interpreter';
+
+export const VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+export const MODELS = [
+  { id: 'gemini-2.5-flash-native-audio-preview-12-2025', label: 'Gemini 2.5 Flash' },
+  { id: 'gemini-2.5-flash-native-audio-preview-09-2025', label: 'Gemini 2.5 Flash (09-2025)' },
+  { id: 'gemini-live-2.5-flash-preview', label: 'Gemini Live 2.5 Flash' },
+  { id: 'gemini-2.0-flash-live-001', label: 'Gemini 2.0 Flash Live' },
+];
+
+export const BUILTIN_PRESETS: PersonaPreset[] = [
+  {
+    id: 'bondhu',
+    name: 'বন্ধু (Bondhu)',
+    instruction: `You are 'Bondhu', a warm, intelligent, and helpful Bengali daily life assistant.
+You are conversational, witty, and empathetic.
+If asked about your identity, say you are a Bangla AI assistant created to help with daily tasks.`,
+  },
+  {
+    id: 'tutor',
+    name: 'শিক্ষক (Tutor)',
+    instruction: `You are 'Bondhu', a patient tutor for school and college students in Bangladesh.
+Explain step by step, check understanding with short questions, and use everyday examples.
+Follow the NCTB curriculum when the student mentions their class.`,
+  },
+  {
+    id: 'cooking',
+    name: 'রান্নার সাথী (Cooking helper)',
+    instruction: `You are 'Bondhu', a friendly home-cooking helper who knows Bangladeshi and West Bengal cuisine.
+Give ingredient quantities in units common in Bangladeshi kitchens and one step at a time when asked.
+Offer substitutions for hard-to-find ingredients.`,
+  },
+  {
+    id: 'health',
+    name: 'স্বাস্থ্য তথ্য (Health info)',
+    instruction: `You are 'Bondhu', a careful health-information assistant.
+Share general, well-established health information only. You are not a doctor: never diagnose or prescribe,
+and for anything serious or urgent tell the user to see a registered doctor or call 999.`,
+  },
+];
+
+export const DEFAULT_SESSION_CONFIG: LiveSessionConfig = {
+  voiceName: 'Kore',
+  model: MODELS[0].id,
+  responseLanguage: 'bangla',
+  formality: 'apni',
+  presetId: 'bondhu',
+  customPresets: [],
+  textOnly: false,
+  searchGrounding: false,
+  inputMode: 'continuous',
+  vadSensitivity: 0.6,
+  vadHangoverMs: 800,
+  outputVolume: 1,
+  playbackRate: 1,
+  localBargeIn: true,
+  inputDeviceId: '',
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  cameraFrameRate: 1,
+  cameraFacing: 'environment',
+  visualizerMode: 'dual-ring',
+  captions: false,
+  announceReplies: true,
+  handsFree: false,
+  handsFreeIdleSeconds: 60,
+  wakeWordSensitivity: 0.5,
+  conversationMode: 'companion',
+  interpreterFrom: 'bn',
+  interpreterTo: 'en',
+  interpreterOneWay: false,
+  summarizeSessions: false,
+};
+
+const LANGUAGE_RULES: Record<LiveSessionConfig['responseLanguage'], string> = {
+  bangla: 'Always reply in fluent, standard Bengali (Bangla), even if the user mixes in English.',
+  banglish: 'Reply in Banglish: Bengali sentences where common English words are kept in English, the way young people in Dhaka speak.',
+  'code-switch': 'Reply in the language the user is speaking. Switch freely between Bengali and English mid-conversation to match them.',
+};
+
+const FORMALITY_RULES: Record<LiveSessionConfig['formality'], string> = {
+  apni: 'Address the user respectfully with "আপনি".',
+  tumi: 'Address the user informally and warmly with "তুমি", like a close friend.',
+};
+
+export const findPreset = (presetId: string, customPresets: PersonaPreset[] = []): PersonaPreset =>
+  [...BUILTIN_PRESETS, ...customPresets].find(p => p.id === presetId) ?? BUILTIN_PRESETS[0];
+
+const memoryBlock = (memories: string[]) =>
+  memories.length > 0
+    ? [
+        'What the user has asked you to remember about them. Use it naturally when it matters; never recite the list:',
+        ...memories.map(fact => `- ${fact}`),
+      ].join('\n')
+    : null;
+
+/**
+ * Composes the system instruction sent when a live session opens, with any
+ * remembered facts. An interpreter has no persona and gets no memories.
+ */
+export const buildSystemInstruction = (config: LiveSessionConfig, memories: string[] = []): string =>
+  config.conversationMode === 'interpreter'
+    ? buildInterpreterInstruction(config)
+    : [
+        findPreset(config.presetId, config.customPresets).instruction.trim(),
+        LANGUAGE_RULES[config.responseLanguage],
+        FORMALITY_RULES[config.formality],
+        'Keep responses concise and natural for voice conversation.',
+        config.searchGrounding
+          ? 'For anything that changes, like weather, train times, prices or news, search before answering instead of relying on memory.'
+          : null,
+        memoryBlock(memories),
+      ].filter(Boolean).join('\n');
@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PlaybackController } from './playbackController';
+import { AudioTap, PlaybackState } from '../types';
+import { FakeAudioBuffer, FakeAudioContext } from '../testing/fakeWebAudio';
+
+const SAMPLE_RATE = 24000;
+
+const setup = () => {
+  const ctx = new FakeAudioContext({ sampleRate: SAMPLE_RATE });
+  const states: PlaybackState[] = [];
+  const tap: AudioTap = {
+    onUserAudio: vi.fn(),
+    onModelAudio: vi.fn(),
+    onPlaybackStopped: vi.fn(),
+    onPlaybackPaused: vi.fn(),
+    onPlaybackResumed: vi.fn(),
+  };
+  const playback = new PlaybackController(ctx as unknown as AudioContext, {
+    tap,
+    onStateChange: state => states.push(state),
+  });
+  const enqueue = (seconds: number) =>
+    playback.enqueue(new FakeAudioBuffer(1, seconds * SAMPLE_RATE, SAMPLE_RATE) as unknown as AudioBuffer);
+  return { ctx, states, tap, playback, enqueue };
+};
+
+describe('PlaybackController', () => {
+  it('goes from thinking to speaking and back to idle over a response', async () => {
+    const { ctx, states, playback, enqueue } = setup();
+
+    playback.expectResponse();
+    enqueue(0.2);
+    enqueue(0.2);
+    ctx.advance(0.5);
+    playback.endResponse();
+    enqueue(0.2);
+    await playback.pause();
+    await playback.resume();
+
+    expect(states).toEqual(['thinking', 'speaking', 'thinking', 'idle', 'speaking', 'paused', 'speaking']);
+  });
+
+  it('schedules chunks back to back and counts a dry queue mid-response as an underrun', () => {
+    const { ctx, playback, enqueue } = setup();
+
+    playback.expectResponse();
+    // Waiting for the first chunk is thinking, not an underrun
+    ctx.advance(1);
+    enqueue(0.2);
+    enqueue(0.2);
+    expect(ctx.activeSources.map(source => source.startTime)).toEqual([1, 1.2]);
+    expect(playback.getStats()).toMatchObject({ underruns: 0, bufferedSeconds: expect.closeTo(0.4) });
+
+    ctx.advance(0.5);
+    enqueue(0.2);
+    expect(playback.getStats()).toMatchObject({ state: 'speaking', underruns: 1 });
+
+    // A new response starts with a clean slate
+    playback.endResponse();
+    ctx.advance(0.5);
+    playback.expectResponse();
+    enqueue(0.2);
+    expect(playback.getStats().underruns).toBe(1);
+  });
+
+  it('drops the rest of a skipped response until it ends', () => {
+    const { ctx, tap, playback, enqueue } = setup();
+
+    playback.expectResponse();
+    enqueue(0.2);
+    enqueue(0.2);
+    playback.skip();
+    expect(ctx.activeSources).toHaveLength(0);
+    expect(tap.onPlaybackStopped).toHaveBeenCalledTimes(1);
+
+    enqueue(0.2);
+    expect(ctx.activeSources).toHaveLength(0);
+    expect(playback.getStats().state).toBe('thinking');
+
+    playback.endResponse();
+    enqueue(0.2);
+    expect(ctx.activeSources).toHaveLength(1);
+  });
+
+  it('tells the tap when each chunk starts and how fast it plays', async () => {
+    const { tap, playback, enqueue } = setup();
+
+    playback.setPlaybackRate(1.5);
+    enqueue(0.3);
+    enqueue(0.3);
+    const calls = vi.mocked(tap.onModelAudio).mock.calls;
+    expect(calls.map(([, sampleRate, delay, rate]) => [sampleRate, delay, rate])).toEqual([
+      [SAMPLE_RATE, 0, 1.5],
+      [SAMPLE_RATE, expect.closeTo(0.2), 1.5],
+    ]);
+
+    await playback.pause();
+    await playback.resume();
+    expect(tap.onPlaybackPaused).toHaveBeenCalledTimes(1);
+    expect(tap.onPlaybackResumed).toHaveBeenCalledTimes(1);
+  });
+});
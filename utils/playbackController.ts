@@ -0,0 +1,165 @@
+import { AudioTap, PlaybackState } from '../types';
+
+export interface PlaybackStats {
+  state: PlaybackState;
+  /** Audio scheduled but not yet played, in seconds. */
+  bufferedSeconds: number;
+  /** Times the queue ran dry in the middle of a response. */
+  underruns: number;
+}
+
+interface PlaybackControllerOptions {
+  /** Inserted between the gain stage and the destination, for visualization. */
+  analyser?: AnalyserNode | null;
+  tap?: AudioTap;
+  onStateChange?: (state: PlaybackState) => void;
+}
+
+/**
+ * Owns the model's audio output queue on one AudioContext. Chunks are
+ * scheduled back to back through a fixed gain -> analyser -> destination graph.
+ *
+ * A "response" runs from `expectResponse()` (or the first chunk) to
+ * `endResponse()`. While one is active an empty queue means Bondhu is still
+ * generating ('thinking'); a chunk that arrives after the queue ran dry
+ * counts as an underrun.
+ */
+export class PlaybackController {
+  private readonly gain: GainNode;
+  // Chunks scheduled or playing
+  private readonly sources = new Set<AudioBufferSourceNode>();
+  private nextStartTime = 0;
+  private rate = 1;
+  private responseActive = false;
+  private receivedAudio = false;
+  // Set by skip(): drop the rest of the current response as it streams in
+  private skipping = false;
+  private paused = false;
+  private underruns = 0;
+  private state: PlaybackState = 'idle';
+
+  constructor(private readonly ctx: AudioContext, private readonly options: PlaybackControllerOptions = {}) {
+    this.gain = ctx.createGain();
+    if (options.analyser) {
+      this.gain.connect(options.analyser);
+      options.analyser.connect(ctx.destination);
+    } else {
+      this.gain.connect(ctx.destination);
+    }
+  }
+
+  private setState(state: PlaybackState) {
+    if (state === this.state) return;
+    this.state = state;
+    this.options.onStateChange?.(state);
+  }
+
+  private updateState() {
+    if (this.paused) this.setState('paused');
+    else if (this.sources.size > 0) this.setState('speaking');
+    else if (this.responseActive) this.setState('thinking');
+    else this.setState('idle');
+  }
+
+  get bufferedSeconds() {
+    return Math.max(0, this.nextStartTime - this.ctx.currentTime);
+  }
+
+  getStats(): PlaybackStats {
+    return { state: this.state, bufferedSeconds: this.bufferedSeconds, underruns: this.underruns };
+  }
+
+  /** The user finished a turn; a reply is on its way. */
+  expectResponse() {
+    if (this.responseActive) return;
+    this.responseActive = true;
+    this.receivedAudio = false;
+    this.updateState();
+  }
+
+  /** The server finished (or abandoned) the current response. */
+  endResponse() {
+    this.responseActive = false;
+    this.receivedAudio = false;
+    this.skipping = false;
+    this.updateState();
+  }
+
+  enqueue(buffer: AudioBuffer) {
+    if (this.skipping) return;
+
+    // A gap inside a response that already produced audio is an underrun
+    if (this.responseActive && this.receivedAudio && this.sources.size === 0) this.underruns++;
+    this.responseActive = true;
+    this.receivedAudio = true;
+
+    this.nextStartTime = Math.max(this.nextStartTime, this.ctx.currentTime);
+
+    const source = this.ctx.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = this.rate;
+    source.connect(this.gain);
+    source.addEventListener('ended', () => {
+      this.sources.delete(source);
+      this.updateState();
+    });
+
+    source.start(this.nextStartTime);
+    this.options.tap?.onModelAudio(buffer.getChannelData(0), buffer.sampleRate, this.nextStartTime - this.ctx.currentTime, this.rate);
+    this.nextStartTime += buffer.duration / this.rate;
+    this.sources.add(source);
+    this.updateState();
+  }
+
+  /** Stops everything queued; used for server interruptions and local barge-in. */
+  stop() {
+    const hadAudio = this.sources.size > 0;
+    this.sources.forEach(source => {
+      try { source.stop(); } catch (e) { /* ignore */ }
+    });
+    this.sources.clear();
+    this.nextStartTime = 0;
+    if (hadAudio) this.options.tap?.onPlaybackStopped();
+    this.updateState();
+  }
+
+  /** Stops the current response and ignores the rest of it as it streams in. */
+  skip() {
+    if (this.responseActive) this.skipping = true;
+    this.stop();
+  }
+
+  setVolume(volume: number) {
+    this.gain.gain.setTargetAtTime(Math.max(0, Math.min(1, volume)), this.ctx.currentTime, 0.02);
+  }
+
+  /** Applies to chunks queued from now on; already scheduled audio keeps its speed. */
+  setPlaybackRate(rate: number) {
+    this.rate = Math.max(0.5, Math.min(2, rate));
+  }
+
+  async pause() {
+    if (this.paused) return;
+    this.paused = true;
+    this.options.tap?.onPlaybackPaused();
+    await this.ctx.suspend();
+    this.updateState();
+  }
+
+  async resume() {
+    if (!this.paused) return;
+    this.paused = false;
+    await this.ctx.resume();
+    this.options.tap?.onPlaybackResumed();
+    this.updateState();
+  }
+
+  get isPaused() {
+    return this.paused;
+  }
+
+  dispose() {
+    this.stop();
+    this.gain.disconnect();
+  }
+}
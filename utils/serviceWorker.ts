@@ -0,0 +1,10 @@
+/**
+ * Registers pwa/sw.js, which caches the app shell for offline use. Only
+ * production builds have one; the dev server would serve stale modules.
+ */
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => console.warn('Service worker registration failed', err));
+  });
+};
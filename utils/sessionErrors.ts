@@ -0,0 +1,20 @@
+export type LiveSessionErrorKind = 'connect-failed' | 'connection-lost' | 'capture-failed' | 'camera-failed' | 'image-failed';
+
+const SUMMARIES: Record<LiveSessionErrorKind, string> = {
+  'connect-failed': 'Could not connect',
+  'connection-lost': 'Connection lost',
+  'capture-failed': 'Microphone capture failed',
+  'camera-failed': 'Could not start the camera',
+  'image-failed': 'Could not read the image',
+};
+
+/**
+ * Failures reported by useLiveSession. The UI shows them by `kind`; `detail`
+ * is the underlying reason (usually from the server) and is not localized.
+ */
+export class LiveSessionError extends Error {
+  constructor(readonly kind: LiveSessionErrorKind, readonly detail?: string) {
+    super(detail ? `${SUMMARIES[kind]}: ${detail}` : SUMMARIES[kind]);
+    this.name = 'LiveSessionError';
+  }
+}
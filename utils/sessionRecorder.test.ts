@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SessionRecorder } from './sessionRecorder';
+
+const RATE = 24000;
+
+let clockMs = 0;
+const at = (ms: number) => {
+  clockMs = ms;
+};
+
+const startRecorder = () => {
+  clockMs = 0;
+  vi.spyOn(performance, 'now').mockImplementation(() => clockMs);
+  return new SessionRecorder(RATE);
+};
+
+/** The model (right) channel of the recording. */
+const modelChannel = (recorder: SessionRecorder) => {
+  const wav = recorder.toWav();
+  const frames = new Int16Array(wav.buffer.slice(44));
+  return Float32Array.from({ length: frames.length / 2 }, (_, i) => frames[i * 2 + 1] / 0x8000);
+};
+
+const constant = (value: number, length: number) => new Float32Array(length).fill(value);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('SessionRecorder', () => {
+  it('places model audio at its scheduled time and the speed it played', () => {
+    const recorder = startRecorder();
+    recorder.onModelAudio(constant(0.5, RATE / 10), RATE, 0.5, 1);
+    // Twice as fast: 100 ms of audio is heard in 50 ms
+    recorder.onModelAudio(constant(0.25, RATE / 10), RATE, 0.6, 2);
+
+    const model = modelChannel(recorder);
+    expect(recorder.durationSeconds).toBeCloseTo(0.65, 3);
+    expect(model[RATE * 0.5 - 1]).toBe(0);
+    expect(model[RATE * 0.5]).toBeCloseTo(0.5, 3);
+    expect(model[RATE * 0.6 + 100]).toBeCloseTo(0.25, 3);
+  });
+
+  it('records back-to-back chunks played faster as one seamless stream', () => {
+    const recorder = startRecorder();
+    const heardRate = RATE * 1.25;
+    const sine = Float32Array.from({ length: RATE }, (_, i) => 0.5 * Math.sin((2 * Math.PI * 440 * i) / RATE));
+    // Uneven chunks, each queued right after the last, as playback schedules them
+    let offset = 0;
+    for (const size of [4000, 3997, 4013, 4000, 3990, 4000]) {
+      recorder.onModelAudio(sine.subarray(offset, offset + size), RATE, offset / heardRate, 1.25);
+      offset += size;
+    }
+
+    const model = modelChannel(recorder);
+    expect(model.length).toBeGreaterThanOrEqual(Math.floor(RATE / 1.25) - 1);
+    // Heard at 550 Hz, a sample can differ from the next by at most 2π·550/24000 of the amplitude
+    const maxStep = 0.5 * ((2 * Math.PI * 550) / RATE) * 1.05;
+    // Skips the anti-alias filter settling at the very start
+    const steps = Array.from(model.subarray(50), (sample, i) => Math.abs(model[50 + i + 1] - sample)).slice(0, -1);
+    expect(Math.max(...steps)).toBeLessThan(maxStep);
+  });
+
+  it('starts over at a new speed', () => {
+    const recorder = startRecorder();
+    recorder.onModelAudio(constant(0.5, RATE / 10), RATE, 0, 1);
+    // Queued after the first chunk but sped up, so placed by its own delay
+    recorder.onModelAudio(constant(0.25, RATE / 10), RATE, 0.1, 2);
+
+    const model = modelChannel(recorder);
+    expect(model[RATE * 0.1 - 1]).toBeCloseTo(0.5, 3);
+    expect(model[RATE * 0.1 + 100]).toBeCloseTo(0.25, 3);
+    expect(recorder.durationSeconds).toBeCloseTo(0.15, 3);
+  });
+
+  it('holds back what had not played yet while playback was paused', () => {
+    const recorder = startRecorder();
+    recorder.onModelAudio(constant(0.5, RATE / 10), RATE, 0, 1);
+    recorder.onModelAudio(constant(0.25, RATE / 10), RATE, 0.1, 1);
+
+    at(50);
+    recorder.onPlaybackPaused();
+    at(500);
+    // Arrives while paused: its delay counts from the pause
+    recorder.onModelAudio(constant(0.75, RATE / 10), RATE, 0.15, 1);
+    at(1050);
+    recorder.onPlaybackResumed();
+
+    const model = modelChannel(recorder);
+    const sampleAt = (ms: number) => model[Math.round((ms / 1000) * RATE)];
+    expect(sampleAt(25)).toBeCloseTo(0.5, 3);
+    expect(sampleAt(500)).toBe(0);
+    // The first chunk's second half, then the rest, a second later than scheduled
+    expect(sampleAt(1075)).toBeCloseTo(0.5, 3);
+    expect(sampleAt(1125)).toBeCloseTo(0.25, 3);
+    expect(sampleAt(1225)).toBeCloseTo(0.75, 3);
+    expect(recorder.durationSeconds).toBeCloseTo(1.3, 3);
+  });
+
+  it('cuts playback stopped during a pause at the pause', () => {
+    const recorder = startRecorder();
+    recorder.onModelAudio(constant(0.5, RATE / 10), RATE, 0, 1);
+    at(40);
+    recorder.onPlaybackPaused();
+    at(2000);
+    recorder.onPlaybackStopped();
+
+    expect(recorder.durationSeconds).toBeCloseTo(0.04, 3);
+  });
+});
@@ -0,0 +1,113 @@
+import { AudioTap } from '../types';
+import { INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE, StreamingResampler, pcm16ToFloat32 } from './audioUtils';
+import { encodeWav } from './wav';
+
+interface Segment {
+  /** Position on the recording timeline, in samples. */
+  start: number;
+  samples: Float32Array;
+}
+
+/**
+ * Records both sides of a conversation onto one timeline: the user's
+ * microphone on the left channel and Bondhu's playback on the right. Model
+ * audio is placed where it was scheduled to play, at the speed it played,
+ * held back while playback was paused and cut where it was interrupted, so
+ * the result sounds like what the user actually heard.
+ */
+export class SessionRecorder implements AudioTap {
+  readonly startedAt = new Date();
+  private readonly origin = performance.now();
+  private readonly userResampler: StreamingResampler;
+  private readonly user: Segment[] = [];
+  private userCursor: number | null = null;
+  private model: Segment[] = [];
+  // Model chunks queued back to back are one stream through one resampler,
+  // so its filter state and phase carry over instead of clicking at each seam
+  private modelResampler: StreamingResampler | null = null;
+  // Where the next back-to-back model chunk continues on the timeline
+  private modelCursor = 0;
+  // Where on the timeline the output clock stopped, while paused
+  private pausedAt: number | null = null;
+
+  constructor(readonly sampleRate: number = OUTPUT_SAMPLE_RATE) {
+    this.userResampler = new StreamingResampler(INPUT_SAMPLE_RATE, sampleRate);
+  }
+
+  private now() {
+    return Math.round(((performance.now() - this.origin) / 1000) * this.sampleRate);
+  }
+
+  onUserAudio = (pcm: Int16Array) => {
+    const samples = this.userResampler.process(pcm16ToFloat32(pcm));
+    // The first chunk ends now; later chunks follow on contiguously
+    if (this.userCursor === null) this.userCursor = Math.max(0, this.now() - samples.length);
+    this.user.push({ start: this.userCursor, samples });
+    this.userCursor += samples.length;
+  };
+
+  onModelAudio = (samples: Float32Array, sampleRate: number, delaySeconds: number, playbackRate: number) => {
+    // Faster playback is the same samples heard at a higher rate
+    const heardRate = sampleRate * playbackRate;
+    // No delay means nothing was queued ahead of this chunk, so it starts afresh
+    let resampler = this.modelResampler;
+    if (delaySeconds <= 0 || resampler?.fromRate !== heardRate) {
+      resampler = this.modelResampler = new StreamingResampler(heardRate, this.sampleRate);
+      // The delay is on the output clock, which stood still from pausedAt
+      this.modelCursor = (this.pausedAt ?? this.now()) + Math.round(delaySeconds * this.sampleRate);
+    }
+    const resampled = resampler.process(samples);
+    this.model.push({ start: this.modelCursor, samples: resampled });
+    this.modelCursor += resampled.length;
+  };
+
+  onPlaybackPaused = () => {
+    this.pausedAt ??= this.now();
+  };
+
+  onPlaybackResumed = () => {
+    const pausedAt = this.pausedAt;
+    if (pausedAt === null) return;
+    this.pausedAt = null;
+    // Whatever hadn't played yet plays that much later
+    const gap = this.now() - pausedAt;
+    if (this.modelCursor > pausedAt) this.modelCursor += gap;
+    this.model = this.model.flatMap(segment => {
+      if (segment.start >= pausedAt) return [{ start: segment.start + gap, samples: segment.samples }];
+      const played = pausedAt - segment.start;
+      if (played >= segment.samples.length) return [segment];
+      return [
+        { start: segment.start, samples: segment.samples.subarray(0, played) },
+        { start: pausedAt + gap, samples: segment.samples.subarray(played) },
+      ];
+    });
+  };
+
+  onPlaybackStopped = () => {
+    // Stopped while paused: nothing played past the pause
+    const cut = this.pausedAt ?? this.now();
+    this.modelResampler = null;
+    this.model = this.model.flatMap(segment => {
+      if (segment.start >= cut) return [];
+      const end = segment.start + segment.samples.length;
+      return end > cut ? [{ start: segment.start, samples: segment.samples.subarray(0, cut - segment.start) }] : [segment];
+    });
+  };
+
+  get durationSeconds() {
+    const end = (segments: Segment[]) =>
+      segments.reduce((max, s) => Math.max(max, s.start + s.samples.length), 0);
+    return Math.max(end(this.user), end(this.model)) / this.sampleRate;
+  }
+
+  /** Stereo WAV: user left, model right. */
+  toWav(): Uint8Array {
+    const length = Math.ceil(this.durationSeconds * this.sampleRate);
+    const render = (segments: Segment[]) => {
+      const channel = new Float32Array(length);
+      segments.forEach(({ start, samples }) => channel.set(samples.subarray(0, length - start), start));
+      return channel;
+    };
+    return encodeWav([render(this.user), render(this.model)], this.sampleRate);
+  }
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { matchShortcut, shortcutKeys } from './shortcuts';
+
+const press = (code: string, modifiers: Partial<KeyboardEvent> = {}) =>
+  ({ code, altKey: true, shiftKey: true, ctrlKey: false, metaKey: false, repeat: false, ...modifiers });
+
+describe('shortcuts', () => {
+  it('matches Alt+Shift and a letter, by physical key', () => {
+    expect(matchShortcut(press('KeyC'))).toBe('toggleConversation');
+    expect(matchShortcut(press('KeyM'))).toBe('toggleMute');
+    expect(matchShortcut(press('KeyS'))).toBe('stopSpeaking');
+    expect(matchShortcut(press('KeyK'))).toBe('toggleCaptions');
+    expect(shortcutKeys('toggleMute')).toBe('Alt+Shift+M');
+  });
+
+  it('ignores other combinations and held keys', () => {
+    expect(matchShortcut(press('KeyC', { shiftKey: false }))).toBeNull();
+    expect(matchShortcut(press('KeyC', { ctrlKey: true }))).toBeNull();
+    expect(matchShortcut(press('KeyC', { repeat: true }))).toBeNull();
+    expect(matchShortcut(press('KeyX'))).toBeNull();
+  });
+});
@@ -0,0 +1,29 @@
+export type ShortcutAction = 'toggleConversation' | 'toggleMute' | 'stopSpeaking' | 'toggleCaptions';
+
+/**
+ * App-wide shortcuts are Alt+Shift plus a letter: plain letters belong to
+ * typing and to screen readers' browse mode. Matched by `code`, since Option
+ * on a Mac turns the letter into another character.
+ */
+export const SHORTCUTS: Record<ShortcutAction, string> = {
+  toggleConversation: 'KeyC',
+  toggleMute: 'KeyM',
+  stopSpeaking: 'KeyS',
+  toggleCaptions: 'KeyK',
+};
+
+export const SHORTCUT_ACTIONS = Object.keys(SHORTCUTS) as ShortcutAction[];
+
+/** e.g. "Alt+Shift+C", in the form `aria-keyshortcuts` expects. */
+export const shortcutKeys = (action: ShortcutAction) => `Alt+Shift+${SHORTCUTS[action].slice(3)}`;
+
+type KeyEvent = Pick<KeyboardEvent, 'code' | 'altKey' | 'shiftKey' | 'ctrlKey' | 'metaKey' | 'repeat'>;
+
+export const matchShortcut = (event: KeyEvent): ShortcutAction | null => {
+  if (!event.altKey || !event.shiftKey || event.ctrlKey || event.metaKey || event.repeat) return null;
+  return SHORTCUT_ACTIONS.find(action => SHORTCUTS[action] === event.code) ?? null;
+};
+
+/** Focus is somewhere keys type text, so single-key shortcuts like the spacebar stay out of the way. */
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { messagesToCues, toSrt, toWebVtt } from './subtitles';
+import { Message, TextMessage } from '../types';
+
+const ORIGIN = new Date('2026-03-01T10:00:00Z');
+const at = (ms: number) => new Date(ORIGIN.getTime() + ms);
+
+const turn = (role: TextMessage['role'], text: string, startMs: number, endMs?: number, extra: Partial<TextMessage> = {}): TextMessage => ({
+  id: `${role}-${startMs}`,
+  role,
+  text,
+  timestamp: at(startMs),
+  endedAt: endMs === undefined ? undefined : at(endMs),
+  isPartial: false,
+  ...extra,
+});
+
+describe('subtitles', () => {
+  it('writes SRT with comma-separated milliseconds, past the first hour', () => {
+    const cues = messagesToCues([
+      turn('user', 'কেমন আছেন?', 1500, 3250),
+      turn('model', 'ভালো আছি।', 3_599_500, 3_601_042),
+    ], ORIGIN);
+
+    expect(toSrt(cues)).toBe([
+      '1',
+      '00:00:01,500 --> 00:00:03,250',
+      'User: কেমন আছেন?',
+      '',
+      '2',
+      '00:59:59,500 --> 01:00:01,042',
+      'Bondhu: ভালো আছি।',
+      '',
+    ].join('\n'));
+  });
+
+  it('writes WebVTT with dot-separated milliseconds and voice tags', () => {
+    const cues = messagesToCues([turn('model', 'নমস্কার', 3_725_004, 3_727_000)], ORIGIN);
+
+    expect(toWebVtt(cues)).toBe([
+      'WEBVTT',
+      '',
+      '01:02:05.004 --> 01:02:07.000',
+      '<v Bondhu>নমস্কার',
+      '',
+    ].join('\n'));
+  });
+
+  it('keeps transcript order and puts a translation right after its turn', () => {
+    const messages: Message[] = [
+      turn('user', 'আমার মাথা ব্যথা', 1000, 2000, { translation: { text: 'I have a headache', language: 'en' } }),
+      { id: 'tool-1', role: 'tool', callId: 'call-1', name: 'set_timer', args: {}, status: 'completed', timestamp: at(2100) },
+      turn('user', 'How long?', 4000, 5000, { isPartial: true }),
+      turn('model', 'কতক্ষণ ধরে?', 5000),
+    ];
+
+    expect(messagesToCues(messages, ORIGIN)).toEqual([
+      { startMs: 1000, endMs: 2000, speaker: 'User', text: 'আমার মাথা ব্যথা' },
+      { startMs: 1000, endMs: 2000, speaker: 'Bondhu', text: 'I have a headache' },
+      // No end time: shown for a few seconds
+      { startMs: 5000, endMs: 8000, speaker: 'Bondhu', text: 'কতক্ষণ ধরে?' },
+    ]);
+  });
+
+  it('drops turns that ended before the recording started', () => {
+    const cues = messagesToCues([turn('user', 'আগের কথা', -10_000, -8000), turn('model', 'এখন', -200, 900)], ORIGIN);
+
+    expect(cues).toEqual([{ startMs: -200, endMs: 900, speaker: 'Bondhu', text: 'এখন' }]);
+    expect(toSrt(cues)).toContain('00:00:00,000 --> 00:00:00,900');
+  });
+});
@@ -0,0 +1,75 @@
+import { Message, TextMessage } from '../types';
+
+// Used when a turn has no end time (e.g. the session dropped mid-turn)
+const FALLBACK_CUE_MS = 3000;
+
+const SPEAKERS: Record<TextMessage['role'], string> = {
+  user: 'User',
+  model: 'Bondhu',
+};
+
+export interface Cue {
+  startMs: number;
+  endMs: number;
+  speaker: string;
+  text: string;
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const formatTimestamp = (ms: number, separator: ',' | '.') => {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+};
+
+/**
+ * Finalized text turns as cues timed relative to `origin` (the start of the
+ * recording). An interpreted turn's translation shares its cue's timing.
+ */
+export const messagesToCues = (messages: Message[], origin: Date): Cue[] =>
+  messages
+    .filter((m): m is TextMessage => m.role !== 'tool' && !m.isPartial && m.text.trim() !== '')
+    .flatMap(m => {
+      const startMs = m.timestamp.getTime() - origin.getTime();
+      const endMs = Math.max(m.endedAt ? m.endedAt.getTime() - origin.getTime() : startMs + FALLBACK_CUE_MS, startMs + 500);
+      const cues = [{ startMs, endMs, speaker: SPEAKERS[m.role], text: m.text.trim() }];
+      if (m.translation?.text.trim()) cues.push({ startMs, endMs, speaker: SPEAKERS.model, text: m.translation.text.trim() });
+      return cues;
+    })
+    .filter(cue => cue.endMs > 0);
+
+export const toSrt = (cues: Cue[]): string =>
+  cues
+    .map((cue, i) => [
+      String(i + 1),
+      `${formatTimestamp(cue.startMs, ',')} --> ${formatTimestamp(cue.endMs, ',')}`,
+      `${cue.speaker}: ${cue.text}`,
+    ].join('\n'))
+    .join('\n\n') + '\n';
+
+export const toWebVtt = (cues: Cue[]): string =>
+  'WEBVTT\n\n' + cues
+    .map(cue => [
+      `${formatTimestamp(cue.startMs, '.')} --> ${formatTimestamp(cue.endMs, '.')}`,
+      `<v ${cue.speaker}>${cue.text}`,
+    ].join('\n'))
+    .join('\n\n') + '\n';
+
+export const toPlainText = (messages: Message[]): string =>
+  messages
+    .filter((m): m is TextMessage => m.role !== 'tool' && !m.isPartial)
+    .map(m => {
+      const images = m.attachments?.length ? ` [${m.attachments.length} image(s)]` : '';
+      const sources = m.sources?.map((source, i) => `\n  [${i + 1}] ${source.title} <${source.uri}>`).join('') ?? '';
+      const line = `[${m.timestamp.toLocaleTimeString()}] ${SPEAKERS[m.role]}: ${m.text.trim()}${images}${sources}`;
+      return m.translation?.text.trim()
+        ? `${line}\n[${m.timestamp.toLocaleTimeString()}] ${SPEAKERS.model}: ${m.translation.text.trim()}`
+        : line;
+    })
+    .join('\n') + '\n';
+
+export const toTranscriptJson = (messages: Message[], meta: Record<string, unknown> = {}): string =>
+  JSON.stringify({ ...meta, messages: messages.filter(m => !m.isPartial) }, null, 2);
@@ -0,0 +1,49 @@
+import { GoogleGenAI } from '@google/genai';
+import { SummaryContent } from '../types';
+import { SUMMARY_SCHEMA, SummaryRequest, buildSummaryPrompt, parseSummary, readSummary } from './summary';
+
+export const SUMMARY_ENDPOINT = '/api/summary';
+
+/** A text model; the conversation itself used a Live one. */
+export const SUMMARY_MODEL = 'gemini-2.5-flash';
+
+/** Summarizes a finished conversation. */
+export type Summarizer = (request: SummaryRequest) => Promise<SummaryContent>;
+
+/** Asks the text model for a summary. Shared by the dev build and the server's summary endpoint. */
+export const generateSummary = async (ai: GoogleGenAI, request: SummaryRequest, model = SUMMARY_MODEL) => {
+  const response = await ai.models.generateContent({
+    model,
+    contents: buildSummaryPrompt(request),
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: SUMMARY_SCHEMA,
+      temperature: 0.2,
+    },
+  });
+  return parseSummary(response.text ?? '');
+};
+
+/** Dev mode: call the API with the key baked in by Vite. */
+export const directSummarizer = (apiKey: string): Summarizer => {
+  const ai = new GoogleGenAI({ apiKey });
+  return request => generateSummary(ai, request);
+};
+
+/** Ephemeral tokens only open Live sessions, so production builds ask the Bondhu server (see server/). */
+export const proxySummarizer = (endpoint = SUMMARY_ENDPOINT): Summarizer => async (request) => {
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error ?? `Summary request failed (${response.status})`);
+  return readSummary(body);
+};
+
+/** Same choice as defaultCredentials: the key when the dev server provides one, otherwise the server. */
+export const defaultSummarizer = (): Summarizer => {
+  const apiKey = process.env.API_KEY;
+  return apiKey ? directSummarizer(apiKey) : proxySummarizer();
+};
@@ -0,0 +1,158 @@
+import { Schema, Type } from '@google/genai';
+import { ActionItem, ActionItemKind, Message, SummaryContent, TextMessage } from '../types';
+
+/** One line of the transcript as the summary model sees it. */
+export interface SummaryTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+/** Everything needed to summarize a conversation; also the body of the server's summary endpoint. */
+export interface SummaryRequest {
+  turns: SummaryTurn[];
+  /** Local date and time the conversation started, 'YYYY-MM-DDTHH:mm', to resolve "tomorrow" and the like. */
+  startedAt: string;
+}
+
+const ACTION_ITEM_KINDS: ActionItemKind[] = ['reminder', 'shopping', 'phone', 'task'];
+
+const LOCAL_DATE_TIME = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2})?$/;
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Generous for an hour of talk, small enough to keep one request cheap
+const MAX_TURNS = 400;
+const MAX_TURN_LENGTH = 2000;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** e.g. "2025-04-14T18:30", in the device's time zone. */
+export const localDateTime = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+/** The finished text turns of a conversation; an interpreted turn's translation is Bondhu's line. */
+export const summaryTurns = (messages: Message[]): SummaryTurn[] =>
+  messages
+    .filter((m): m is TextMessage => m.role !== 'tool' && !m.isPartial)
+    .flatMap(m => [
+      { role: m.role, text: m.text.trim() },
+      { role: 'model' as const, text: m.translation?.text.trim() ?? '' },
+    ])
+    .filter(turn => turn.text);
+
+/** Worth summarizing once both sides have said something. */
+export const canSummarize = (messages: Message[]) => {
+  const roles = new Set(summaryTurns(messages).map(turn => turn.role));
+  return roles.has('user') && roles.has('model');
+};
+
+export const buildSummaryPrompt = ({ turns, startedAt }: SummaryRequest): string => {
+  const [year, month, day] = startedAt.slice(0, 10).split('-').map(Number);
+  const weekday = WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+  return [
+    `Below is a voice conversation between a user and Bondhu, a Bengali-speaking assistant. It started on ${weekday} ${startedAt.replace('T', ' ')}, local time.`,
+    '',
+    'Write everything in Bengali (Bangla script):',
+    '- summary: two to four sentences on what was talked about and anything decided.',
+    '- actionItems: only what the user has to do or keep from this conversation, in the order it came up:',
+    '  - reminder: something to do at a particular time. Put the local date in due as YYYY-MM-DD, with the time as YYYY-MM-DDTHH:mm if one was said. Work out words like "tomorrow" or "next Friday" from the date above.',
+    '  - shopping: things to buy. Name the list in text and put one thing per entry in items.',
+    '  - phone: a phone number that was said. Say whose it is in text and put the number in phone using the digits 0-9.',
+    '  - task: anything else the user said they would do.',
+    'Leave out small talk, and never add anything that was not said. An empty actionItems list is fine.',
+    '',
+    'Transcript:',
+    ...turns.map(turn => `${turn.role === 'user' ? 'User' : 'Bondhu'}: ${turn.text}`),
+  ].join('\n');
+};
+
+export const SUMMARY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    actionItems: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: { type: Type.STRING, enum: ACTION_ITEM_KINDS },
+          text: { type: Type.STRING },
+          due: { type: Type.STRING },
+          items: { type: Type.ARRAY, items: { type: Type.STRING } },
+          phone: { type: Type.STRING },
+        },
+        required: ['kind', 'text'],
+      },
+    },
+  },
+  required: ['summary', 'actionItems'],
+};
+
+const toAsciiDigits = (text: string) =>
+  text.replace(/[\u09E6-\u09EF]/g, digit => String(digit.charCodeAt(0) - 0x09E6));
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseActionItem = (value: unknown): ActionItem | null => {
+  if (!isObject(value) || !ACTION_ITEM_KINDS.includes(value.kind as ActionItemKind)) return null;
+  const kind = value.kind as ActionItemKind;
+  const text = typeof value.text === 'string' ? value.text.trim() : '';
+  const due = typeof value.due === 'string' ? toAsciiDigits(value.due.trim()) : '';
+  const items = Array.isArray(value.items)
+    ? value.items.filter((entry): entry is string => typeof entry === 'string').map(entry => entry.trim()).filter(Boolean)
+    : [];
+  // Keep the leading + of international numbers; spaces and dashes are just how it was written
+  const phone = typeof value.phone === 'string' ? toAsciiDigits(value.phone).replace(/(?!^\+)[^\d]/g, '') : '';
+
+  if (kind === 'shopping' && items.length === 0) return null;
+  if (kind === 'phone' && phone.replace('+', '').length < 5) return null;
+  if (!text && kind !== 'shopping') return null;
+
+  return {
+    kind,
+    text,
+    ...(LOCAL_DATE_TIME.test(due) ? { due } : {}),
+    ...(kind === 'shopping' ? { items } : {}),
+    ...(kind === 'phone' ? { phone } : {}),
+  };
+};
+
+/**
+ * Checks a decoded summary. Malformed action items are dropped rather than
+ * failing the whole summary; one without a summary throws.
+ */
+export const readSummary = (value: unknown): SummaryContent => {
+  if (!isObject(value) || typeof value.summary !== 'string' || !value.summary.trim()) {
+    throw new Error('The summary was empty');
+  }
+  const actionItems = Array.isArray(value.actionItems) ? value.actionItems : [];
+  return {
+    summary: value.summary.trim(),
+    actionItems: actionItems.map(parseActionItem).filter((item): item is ActionItem => item !== null),
+  };
+};
+
+/** Reads the summary model's JSON reply. */
+export const parseSummary = (raw: string): SummaryContent => {
+  // Models sometimes wrap JSON in a code fence despite the response type
+  const json = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error('The summary was not valid JSON');
+  }
+  return readSummary(value);
+};
+
+/** Validates a summary request from an untrusted client; null if it isn't one. Long transcripts are trimmed. */
+export const parseSummaryRequest = (value: unknown): SummaryRequest | null => {
+  if (!isObject(value) || typeof value.startedAt !== 'string' || !LOCAL_DATE_TIME.test(value.startedAt)) return null;
+  if (!Array.isArray(value.turns)) return null;
+  const turns = value.turns.flatMap((turn): SummaryTurn[] =>
+    isObject(turn) && (turn.role === 'user' || turn.role === 'model') && typeof turn.text === 'string' && turn.text.trim()
+      ? [{ role: turn.role, text: turn.text.trim().slice(0, MAX_TURN_LENGTH) }]
+      : []);
+  return turns.length > 0 ? { turns: turns.slice(-MAX_TURNS), startedAt: value.startedAt } : null;
+};
@@ -0,0 +1,19 @@
+// Zero-width joiners/non-joiners are used inconsistently when typing Bengali
+// conjuncts, so they are ignored when matching.
+const ZERO_WIDTH = /[\u200B-\u200D\uFEFF]/g;
+
+/**
+ * Canonical form for substring search. NFC makes precomposed and decomposed
+ * Bengali (e.g. ড় vs ড + ়) compare equal; lowercasing handles Latin text.
+ */
+export const normalizeForSearch = (text: string): string =>
+  text.normalize('NFC').replace(ZERO_WIDTH, '').toLocaleLowerCase().replace(/\s+/g, ' ').trim();
+
+/** True when every whitespace-separated term of `query` occurs in `text`. */
+export const matchesQuery = (text: string, query: string): boolean => {
+  const haystack = normalizeForSearch(text);
+  return normalizeForSearch(query)
+    .split(' ')
+    .filter(Boolean)
+    .every(term => haystack.includes(term));
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { transcriptReducer } from './transcriptReducer';
+import { Message, TextMessage } from '../types';
+
+const turn = (id: string, role: TextMessage['role'], text: string, startedAtMs: number, isPartial = false): TextMessage => ({
+  id,
+  role,
+  text,
+  timestamp: new Date(startedAtMs),
+  isPartial,
+});
+
+const apply = (state: Message[], ...messages: Message[]) =>
+  messages.reduce((current, message) => transcriptReducer(current, { type: 'upsert', message }), state);
+
+const texts = (messages: Message[]) => messages.map(m => (m.role === 'tool' ? m.name : m.text));
+
+describe('transcriptReducer', () => {
+  it('updates a partial turn in place and finalizes it', () => {
+    const state = apply([], turn('m1', 'model', 'আস', 1000, true), turn('m1', 'model', 'আসসালামু', 1000, true));
+    expect(state).toHaveLength(1);
+    expect(state[0]).toMatchObject({ text: 'আসসালামু', isPartial: true });
+
+    const final = apply(state, turn('m1', 'model', 'আসসালামু আলাইকুম', 1000));
+    expect(final).toEqual([expect.objectContaining({ text: 'আসসালামু আলাইকুম', isPartial: false })]);
+  });
+
+  it('places a late user transcription before the reply it prompted', () => {
+    // The reply started streaming before the user's words were transcribed
+    const state = apply(
+      [turn('u0', 'user', 'হ্যালো', 0), turn('m0', 'model', 'বলো', 500)],
+      turn('m1', 'model', 'ওয়ালাইকুম', 3000, true),
+      turn('u1', 'user', 'আসসালামু আলাইকুম', 2000, true),
+    );
+    expect(texts(state)).toEqual(['হ্যালো', 'বলো', 'আসসালামু আলাইকুম', 'ওয়ালাইকুম']);
+  });
+
+  it('keeps arrival order for turns that started at the same time', () => {
+    const state = apply([], turn('a', 'user', 'এক', 1000), turn('b', 'model', 'দুই', 1000));
+    expect(texts(state)).toEqual(['এক', 'দুই']);
+  });
+
+  it('does not let a late partial reopen a finalized turn', () => {
+    const final = apply([], turn('u1', 'user', 'আমি ভালো আছি', 1000));
+    const state = transcriptReducer(final, { type: 'upsert', message: turn('u1', 'user', 'আমি', 1000, true) });
+    expect(state).toBe(final);
+    expect(state[0]).toMatchObject({ text: 'আমি ভালো আছি', isPartial: false });
+  });
+
+  it('replaces everything on reset', () => {
+    const state = apply([], turn('u1', 'user', 'এক', 1000));
+    expect(transcriptReducer(state, { type: 'reset' })).toEqual([]);
+
+    const restored = [turn('u9', 'user', 'আগের কথা', 0)];
+    expect(transcriptReducer(state, { type: 'reset', messages: restored })).toBe(restored);
+  });
+});
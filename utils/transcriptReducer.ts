@@ -0,0 +1,48 @@
+import { Message } from '../types';
+
+export type TranscriptAction =
+  | { type: 'upsert'; message: Message }
+  | { type: 'reset'; messages?: Message[] };
+
+/**
+ * Index at which a new message keeps the transcript ordered by turn start.
+ * Messages with equal timestamps keep arrival order.
+ */
+const insertionIndex = (messages: Message[], message: Message) => {
+  const time = message.timestamp.getTime();
+  let index = messages.length;
+  while (index > 0 && messages[index - 1].timestamp.getTime() > time) index--;
+  return index;
+};
+
+/**
+ * Merges partial and final updates by message id. A turn whose input
+ * transcription arrives after the model started replying still lands before
+ * the reply, because messages are placed by turn start rather than arrival.
+ */
+export const transcriptReducer = (state: Message[], action: TranscriptAction): Message[] => {
+  switch (action.type) {
+    case 'reset':
+      return action.messages ?? [];
+
+    case 'upsert': {
+      const { message } = action;
+      const index = state.findIndex(m => m.id === message.id);
+
+      if (index === -1) {
+        const at = insertionIndex(state, message);
+        return [...state.slice(0, at), message, ...state.slice(at)];
+      }
+
+      // A late partial must not reopen a turn that was already finalized
+      if (!state[index].isPartial && message.isPartial) return state;
+
+      const updated = [...state];
+      updated[index] = message;
+      return updated;
+    }
+
+    default:
+      return state;
+  }
+};
@@ -0,0 +1,99 @@
+export interface VadOptions {
+  sampleRate: number;
+  /** 0 (needs loud speech) to 1 (triggers on quiet speech). */
+  sensitivity: number;
+  /** How long speech is held open after the level drops, so pauses between words don't end the turn. */
+  hangoverMs: number;
+  /** Analysis frame length. */
+  frameMs?: number;
+}
+
+export interface VadResult {
+  speaking: boolean;
+  /** Speech began within this chunk. */
+  started: boolean;
+  /** Speech (including hangover) ended within this chunk. */
+  ended: boolean;
+  /** Loudest frame of the chunk in dBFS. */
+  levelDb: number;
+}
+
+export interface Vad {
+  process: (pcm: Int16Array) => VadResult;
+  reset: () => void;
+}
+
+// Frames quieter than this are never speech, however low the noise floor gets
+const ABSOLUTE_FLOOR_DB = -55;
+const INITIAL_NOISE_FLOOR_DB = -50;
+const SILENCE_DB = -100;
+
+export const frameLevelDb = (pcm: Int16Array, start = 0, end = pcm.length): number => {
+  if (end <= start) return SILENCE_DB;
+  let sum = 0;
+  for (let i = start; i < end; i++) {
+    const s = pcm[i] / 32768;
+    sum += s * s;
+  }
+  const rms = Math.sqrt(sum / (end - start));
+  return rms > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(rms)) : SILENCE_DB;
+};
+
+/**
+ * Energy-based voice activity detector with an adaptive noise floor. A frame
+ * is voiced when it is `margin` dB above the tracked floor; the margin shrinks
+ * from 20 dB to 6 dB as sensitivity goes from 0 to 1.
+ */
+export const createVad = ({ sampleRate, sensitivity, hangoverMs, frameMs = 20 }: VadOptions): Vad => {
+  const frameSize = Math.max(1, Math.round((sampleRate * frameMs) / 1000));
+  const margin = 6 + (1 - Math.min(1, Math.max(0, sensitivity))) * 14;
+
+  let noiseFloor = INITIAL_NOISE_FLOOR_DB;
+  let speaking = false;
+  let silentMs = 0;
+
+  const process = (pcm: Int16Array): VadResult => {
+    let started = false;
+    let ended = false;
+    let levelDb = SILENCE_DB;
+
+    for (let offset = 0; offset < pcm.length; offset += frameSize) {
+      const end = Math.min(pcm.length, offset + frameSize);
+      const db = frameLevelDb(pcm, offset, end);
+      const duration = ((end - offset) / sampleRate) * 1000;
+      levelDb = Math.max(levelDb, db);
+
+      const voiced = db > ABSOLUTE_FLOOR_DB && db > noiseFloor + margin;
+      if (voiced) {
+        silentMs = 0;
+        if (!speaking) {
+          speaking = true;
+          started = true;
+        }
+        continue;
+      }
+
+      // Track the floor: drop immediately, rise slowly so speech doesn't drag it up
+      noiseFloor = db < noiseFloor ? db : noiseFloor + (db - noiseFloor) * 0.05;
+      noiseFloor = Math.max(noiseFloor, SILENCE_DB + 20);
+
+      if (speaking) {
+        silentMs += duration;
+        if (silentMs >= hangoverMs) {
+          speaking = false;
+          ended = true;
+        }
+      }
+    }
+
+    return { speaking, started, ended, levelDb };
+  };
+
+  const reset = () => {
+    noiseFloor = INITIAL_NOISE_FLOOR_DB;
+    speaking = false;
+    silentMs = 0;
+  };
+
+  return { process, reset };
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { barAngle, barLevel, canvasSize, idleRadius, radialSegment, speechBins, waveformY } from './visualizer';
+
+describe('visualizer geometry', () => {
+  it('sizes the backing store by the device pixel ratio, within limits', () => {
+    expect(canvasSize(400, 300, 2)).toEqual({ width: 800, height: 600, ratio: 2 });
+    expect(canvasSize(400, 300, 0)).toEqual({ width: 400, height: 300, ratio: 1 });
+    expect(canvasSize(100.4, 100.6, 5)).toEqual({ width: 301, height: 302, ratio: 3 });
+  });
+
+  it('keeps only the bins below the speech cutoff', () => {
+    // 24 kHz output: 12 kHz Nyquist over 1024 bins
+    expect(speechBins(1024, 24000)).toBe(683);
+    // 16 kHz input: the whole spectrum is speech
+    expect(speechBins(1024, 16000)).toBe(1024);
+  });
+
+  it('averages each bar over its share of the bins', () => {
+    const spectrum = [255, 255, 0, 0, 51, 51];
+    expect(barLevel(spectrum, 0, 3, 6)).toBe(1);
+    expect(barLevel(spectrum, 1, 3, 6)).toBe(0);
+    expect(barLevel(spectrum, 2, 3, 6)).toBeCloseTo(0.2);
+    // More bars than bins repeats bins instead of reading nothing
+    expect(barLevel([255], 3, 4, 1)).toBe(1);
+  });
+
+  it('starts bars at 12 o\'clock and runs clockwise', () => {
+    const top = radialSegment(100, 100, barAngle(0, 4), 10, 20);
+    expect(top.x1).toBeCloseTo(100);
+    expect(top.y1).toBeCloseTo(90);
+    expect(top.y2).toBeCloseTo(70);
+    const right = radialSegment(100, 100, barAngle(1, 4), 10, 20);
+    expect(right.x2).toBeCloseTo(130);
+    expect(right.y2).toBeCloseTo(100);
+  });
+
+  it('centres silence on the waveform axis', () => {
+    expect(waveformY(128, 50, 40)).toBe(50);
+    expect(waveformY(255, 50, 40)).toBeCloseTo(10.3, 1);
+    expect(waveformY(0, 50, 40)).toBe(90);
+  });
+
+  it('holds the idle circle still for reduced motion', () => {
+    expect(idleRadius(0.8, 50, true)).toBe(50);
+    expect(idleRadius(0.8, 50, false)).not.toBe(50);
+  });
+});
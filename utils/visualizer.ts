@@ -0,0 +1,62 @@
+// Geometry for AudioVisualizer, kept free of canvas and Web Audio so it can be tested.
+
+// Sharper than this costs fill rate without a visible difference
+export const MAX_PIXEL_RATIO = 3;
+// Speech energy sits below this; higher bins would only draw as flat bars
+export const SPEECH_MAX_HZ = 8000;
+
+/** Backing-store size for a canvas displayed at `cssWidth` x `cssHeight` CSS pixels. */
+export const canvasSize = (cssWidth: number, cssHeight: number, devicePixelRatio: number) => {
+  const ratio = Math.min(MAX_PIXEL_RATIO, Math.max(1, devicePixelRatio || 1));
+  return {
+    width: Math.max(1, Math.round(cssWidth * ratio)),
+    height: Math.max(1, Math.round(cssHeight * ratio)),
+    ratio,
+  };
+};
+
+/** How many of an analyser's `binCount` frequency bins lie below `maxHz`. */
+export const speechBins = (binCount: number, sampleRate: number, maxHz = SPEECH_MAX_HZ) =>
+  Math.max(1, Math.min(binCount, Math.round((binCount * maxHz) / (sampleRate / 2))));
+
+/**
+ * Level, 0 to 1, of bar `index` out of `bars`: the mean of its share of the
+ * first `usableBins` byte frequency bins.
+ */
+export const barLevel = (spectrum: ArrayLike<number>, index: number, bars: number, usableBins: number) => {
+  const start = Math.floor((index * usableBins) / bars);
+  const end = Math.max(start + 1, Math.floor(((index + 1) * usableBins) / bars));
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += spectrum[i] ?? 0;
+  return sum / (end - start) / 255;
+};
+
+/** Angle of bar `index` out of `bars`, clockwise from 12 o'clock. */
+export const barAngle = (index: number, bars: number) => (index / bars) * 2 * Math.PI - Math.PI / 2;
+
+export interface Segment {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+/** A bar pointing outwards from radius `inner` for `length`. */
+export const radialSegment = (cx: number, cy: number, angle: number, inner: number, length: number): Segment => {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return {
+    x1: cx + cos * inner,
+    y1: cy + sin * inner,
+    x2: cx + cos * (inner + length),
+    y2: cy + sin * (inner + length),
+  };
+};
+
+/** Canvas y of a byte time-domain sample; 128 is silence and sits on `centerY`. */
+export const waveformY = (sample: number, centerY: number, amplitude: number) =>
+  centerY - ((sample - 128) / 128) * amplitude;
+
+/** The resting circle breathes gently, unless the user prefers reduced motion. */
+export const idleRadius = (seconds: number, base: number, reducedMotion: boolean) =>
+  reducedMotion ? base : base * (1 + 0.1 * Math.sin(seconds * 2));
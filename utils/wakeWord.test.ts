@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import {
+  WakeWordTemplate,
+  createWakeWordDetector,
+  createWakeWordTemplate,
+  dtwDistance,
+  extractFeatures,
+  matchThreshold,
+} from './wakeWord';
+import { OTHER_PHRASE, WAKE_PHRASE, concatPcm, quietPcm, speakPhrase, spotWakeWord } from '../testing/wakeWordFixtures';
+
+// Three recordings of the phrase, as the settings panel collects them
+const enrolled = (): WakeWordTemplate[] => [
+  speakPhrase(WAKE_PHRASE, { seed: 1 }),
+  speakPhrase(WAKE_PHRASE, { rate: 0.9, pitch: 120, seed: 2 }),
+  speakPhrase(WAKE_PHRASE, { rate: 1.1, pitch: 140, gain: 0.5, seed: 3 }),
+].map(pcm => createWakeWordTemplate(pcm)!);
+
+describe('wake word features', () => {
+  it('trims the silence around a phrase and removes each band\'s mean', () => {
+    const phrase = speakPhrase(WAKE_PHRASE);
+    const padded = extractFeatures(concatPcm(quietPcm(500), phrase, quietPcm(500)));
+    expect(Math.abs(padded.length - extractFeatures(phrase).length)).toBeLessThanOrEqual(2);
+    for (let band = 0; band < padded[0].length; band++) {
+      expect(padded.reduce((sum, frame) => sum + frame[band], 0) / padded.length).toBeCloseTo(0, 6);
+    }
+  });
+
+  it('has no features for silence', () => {
+    expect(extractFeatures(new Int16Array(8000))).toEqual([]);
+    expect(createWakeWordTemplate(quietPcm(300))).toBeNull();
+  });
+
+  it('finds the same phrase closer than a different one, whatever the speed and pitch', () => {
+    const template = extractFeatures(speakPhrase(WAKE_PHRASE));
+    expect(dtwDistance(template, template)).toBe(0);
+    const same = dtwDistance(template, extractFeatures(speakPhrase(WAKE_PHRASE, { rate: 0.8, pitch: 160, gain: 0.1, seed: 7 })));
+    const other = dtwDistance(template, extractFeatures(speakPhrase(OTHER_PHRASE, { seed: 7 })));
+    expect(same * 2).toBeLessThan(other);
+  });
+
+  it('scales the threshold with the recordings\' spread and the sensitivity', () => {
+    const templates = enrolled();
+    expect(matchThreshold(templates, 1)).toBeGreaterThan(matchThreshold(templates, 0));
+    expect(matchThreshold(templates, 0)).toBeGreaterThan(dtwDistance(templates[0].features, templates[1].features));
+  });
+});
+
+describe('wake word detector', () => {
+  it('triggers once, in the pause after the phrase', () => {
+    const detector = createWakeWordDetector(enrolled());
+    const stream = concatPcm(quietPcm(1000), speakPhrase(WAKE_PHRASE, { rate: 1.05, pitch: 125, gain: 0.2, seed: 9 }), quietPcm(1000, 3));
+
+    const triggers = spotWakeWord(detector, stream);
+    expect(triggers).toHaveLength(1);
+    // The phrase ends around 1.8 s; the pause confirms it within half a second
+    expect(triggers[0]).toBeGreaterThan(1800);
+    expect(triggers[0]).toBeLessThan(2400);
+  });
+
+  it('ignores other speech and background noise', () => {
+    const detector = createWakeWordDetector(enrolled());
+    const stream = concatPcm(
+      quietPcm(1000),
+      speakPhrase(OTHER_PHRASE, { seed: 4 }),
+      quietPcm(800, 5),
+      quietPcm(600, 6, 0.2),
+      quietPcm(800, 7),
+      speakPhrase(WAKE_PHRASE.slice(0, 2), { seed: 8 }),
+      quietPcm(800, 9),
+    );
+    expect(spotWakeWord(detector, stream)).toEqual([]);
+  });
+
+  it('does not trigger when the phrase runs straight on into more speech', () => {
+    const detector = createWakeWordDetector(enrolled());
+    const stream = concatPcm(
+      quietPcm(1000),
+      speakPhrase([...WAKE_PHRASE, ...OTHER_PHRASE, ...OTHER_PHRASE, ...OTHER_PHRASE]),
+      quietPcm(1000, 3),
+    );
+    expect(spotWakeWord(detector, stream)).toEqual([]);
+  });
+
+  it('hears the phrase again after a reset, whatever the chunk size', () => {
+    const detector = createWakeWordDetector(enrolled());
+    const stream = concatPcm(quietPcm(1000), speakPhrase(WAKE_PHRASE, { seed: 11 }), quietPcm(1000, 3));
+    expect(spotWakeWord(detector, stream, 4096)).toHaveLength(1);
+    detector.reset();
+    expect(spotWakeWord(detector, stream, 512)).toHaveLength(1);
+  });
+});
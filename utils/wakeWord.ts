@@ -0,0 +1,273 @@
+// On-device wake phrase spotting. The user records their wake phrase a few
+// times; each spoken utterance is then compared against those recordings with
+// dynamic time warping over log-mel features. Nothing here touches the network.
+import { INPUT_SAMPLE_RATE } from './audioUtils';
+import { createVad, frameLevelDb } from './vad';
+
+/** Recordings needed before hands-free mode can listen. */
+export const ENROLLMENT_SAMPLES = 3;
+
+// 25 ms analysis windows every 10 ms, at 16 kHz
+const FRAME_LENGTH = 400;
+const HOP_LENGTH = 160;
+const FFT_SIZE = 512;
+const MEL_BANDS = 20;
+const MEL_MIN_HZ = 100;
+const MEL_MAX_HZ = 7000;
+// Edge frames this far below the loudest one are silence around the phrase
+const TRIM_DB = 35;
+// A recording whose loudest frame is quieter than this holds no speech at all
+const MIN_PEAK_DB = -50;
+
+// A wake phrase is a short burst of speech followed by a pause
+const SEGMENT_FRAME = 320;
+const SEGMENT_HANGOVER_MS = 300;
+const SEGMENT_PRE_ROLL_FRAMES = 5;
+const MIN_PHRASE_MS = 300;
+const MAX_PHRASE_MS = 2500;
+// Utterances much shorter or longer than every recording can't be the phrase
+const MAX_LENGTH_RATIO = 1.8;
+// Used only until there are two recordings to calibrate against
+const UNCALIBRATED_THRESHOLD = 2;
+
+/** Log-mel frames of one recording of the wake phrase, mean-normalized per band. */
+export interface WakeWordTemplate {
+  id: string;
+  createdAt: number;
+  features: number[][];
+}
+
+export interface WakeWordDetector {
+  /** Feeds 16 kHz PCM. True when the wake phrase ended within this chunk. */
+  process: (pcm: Int16Array) => boolean;
+  reset: () => void;
+}
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+// Triangular filters as [startBin, weights]
+const MEL_FILTERS: [number, number[]][] = (() => {
+  const minMel = hzToMel(MEL_MIN_HZ);
+  const maxMel = hzToMel(MEL_MAX_HZ);
+  const bins = Array.from({ length: MEL_BANDS + 2 }, (_, i) =>
+    (melToHz(minMel + ((maxMel - minMel) * i) / (MEL_BANDS + 1)) * FFT_SIZE) / INPUT_SAMPLE_RATE);
+  return Array.from({ length: MEL_BANDS }, (_, band) => {
+    const [left, center, right] = [bins[band], bins[band + 1], bins[band + 2]];
+    const start = Math.ceil(left);
+    const weights: number[] = [];
+    for (let bin = start; bin <= Math.floor(right); bin++) {
+      weights.push(bin <= center ? (bin - left) / (center - left) : (right - bin) / (right - center));
+    }
+    return [start, weights];
+  });
+})();
+
+const WINDOW = Float64Array.from({ length: FRAME_LENGTH }, (_, i) =>
+  0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (FRAME_LENGTH - 1)));
+
+/** In-place radix-2 FFT; `re` and `im` have a power-of-two length. */
+const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const wr = Math.cos(angle * k);
+        const wi = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+};
+
+const logMelFrame = (pcm: Int16Array, offset: number): number[] => {
+  const re = new Float64Array(FFT_SIZE);
+  const im = new Float64Array(FFT_SIZE);
+  for (let i = 0; i < FRAME_LENGTH; i++) re[i] = (pcm[offset + i] / 32768) * WINDOW[i];
+  fft(re, im);
+  return MEL_FILTERS.map(([start, weights]) => {
+    let energy = 0;
+    weights.forEach((weight, i) => {
+      const bin = start + i;
+      energy += weight * (re[bin] * re[bin] + im[bin] * im[bin]);
+    });
+    return Math.log(energy + 1e-10);
+  });
+};
+
+/**
+ * Features of one utterance: log-mel frames with the silence at either end
+ * trimmed and each band's mean removed, so microphone gain and colouring
+ * don't count as differences. Empty if the recording is silent.
+ */
+export const extractFeatures = (pcm: Int16Array): number[][] => {
+  const count = pcm.length < FRAME_LENGTH ? 0 : Math.floor((pcm.length - FRAME_LENGTH) / HOP_LENGTH) + 1;
+  const levels = Array.from({ length: count }, (_, i) => frameLevelDb(pcm, i * HOP_LENGTH, i * HOP_LENGTH + FRAME_LENGTH));
+  const peak = Math.max(...levels);
+  if (!(peak > MIN_PEAK_DB)) return [];
+  const first = levels.findIndex(db => db > peak - TRIM_DB);
+  let last = count - 1;
+  while (levels[last] <= peak - TRIM_DB) last--;
+
+  const frames: number[][] = [];
+  for (let i = first; i <= last; i++) frames.push(logMelFrame(pcm, i * HOP_LENGTH));
+  const means = Array.from({ length: MEL_BANDS }, (_, band) =>
+    frames.reduce((sum, frame) => sum + frame[band], 0) / frames.length);
+  return frames.map(frame => frame.map((value, band) => value - means[band]));
+};
+
+const frameDistance = (a: number[], b: number[]) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum / a.length);
+};
+
+/** Dynamic time warping cost between two feature sequences, averaged over the path length. */
+export const dtwDistance = (a: number[][], b: number[][]): number => {
+  if (a.length === 0 || b.length === 0) return Infinity;
+  let previous = new Float64Array(b.length + 1).fill(Infinity);
+  let current = new Float64Array(b.length + 1);
+  previous[0] = 0;
+  for (let i = 1; i <= a.length; i++) {
+    current.fill(Infinity);
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = frameDistance(a[i - 1], b[j - 1]) + Math.min(previous[j], current[j - 1], previous[j - 1]);
+    }
+    [previous, current] = [current, previous];
+  }
+  return previous[b.length] / (a.length + b.length);
+};
+
+const lengthsComparable = (a: number[][], b: number[][]) =>
+  Math.max(a.length, b.length) <= MAX_LENGTH_RATIO * Math.min(a.length, b.length);
+
+/**
+ * The largest distance an utterance may have from its nearest recording.
+ * The recordings' own spread sets the scale, since it depends on the speaker
+ * and the room; `sensitivity` (0 to 1) loosens it from 1.2x to 1.8x that spread.
+ */
+export const matchThreshold = (templates: WakeWordTemplate[], sensitivity: number) => {
+  let spread = 0;
+  for (let i = 0; i < templates.length; i++) {
+    for (let j = i + 1; j < templates.length; j++) {
+      spread = Math.max(spread, dtwDistance(templates[i].features, templates[j].features));
+    }
+  }
+  if (spread === 0) return UNCALIBRATED_THRESHOLD;
+  return spread * (1.2 + 0.6 * Math.min(1, Math.max(0, sensitivity)));
+};
+
+/** Turns a recording of the wake phrase into a template, or null if it holds no usable speech. */
+export const createWakeWordTemplate = (pcm: Int16Array, now = Date.now()): WakeWordTemplate | null => {
+  const features = extractFeatures(pcm);
+  if (features.length * HOP_LENGTH < (MIN_PHRASE_MS / 1000) * INPUT_SAMPLE_RATE) return null;
+  return { id: `${now}-${Math.random().toString(36).slice(2, 8)}`, createdAt: now, features };
+};
+
+export interface UtteranceSegmenter {
+  /** Feeds 16 kHz PCM; returns the utterances that ended within it. */
+  process: (pcm: Int16Array) => Int16Array[];
+  reset: () => void;
+}
+
+const concat = (chunks: Int16Array[]) => {
+  const out = new Int16Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return out;
+};
+
+/**
+ * Cuts a PCM stream into phrase-length utterances: speech bounded by pauses,
+ * between MIN_PHRASE_MS and MAX_PHRASE_MS long. Longer speech is dropped.
+ */
+export const createUtteranceSegmenter = (): UtteranceSegmenter => {
+  const vad = createVad({ sampleRate: INPUT_SAMPLE_RATE, sensitivity: 0.5, hangoverMs: SEGMENT_HANGOVER_MS });
+  const maxSamples = ((MAX_PHRASE_MS + SEGMENT_HANGOVER_MS) / 1000) * INPUT_SAMPLE_RATE;
+  const minSamples = (MIN_PHRASE_MS / 1000) * INPUT_SAMPLE_RATE;
+  let preRoll: Int16Array[] = [];
+  let segment: Int16Array[] | null = null;
+  let segmentSamples = 0;
+  let tooLong = false;
+
+  const process = (pcm: Int16Array) => {
+    const finished: Int16Array[] = [];
+    for (let offset = 0; offset < pcm.length; offset += SEGMENT_FRAME) {
+      const frame = pcm.subarray(offset, Math.min(pcm.length, offset + SEGMENT_FRAME));
+      const result = vad.process(frame);
+
+      if (result.started) {
+        segment = [...preRoll];
+        segmentSamples = preRoll.reduce((sum, chunk) => sum + chunk.length, 0);
+        tooLong = false;
+      }
+      if (segment && !tooLong) {
+        segment.push(frame);
+        segmentSamples += frame.length;
+        if (segmentSamples > maxSamples) tooLong = true;
+      }
+      if (result.ended && segment) {
+        if (!tooLong && segmentSamples >= minSamples) finished.push(concat(segment));
+        segment = null;
+      }
+
+      preRoll.push(frame);
+      if (preRoll.length > SEGMENT_PRE_ROLL_FRAMES) preRoll.shift();
+    }
+    return finished;
+  };
+
+  const reset = () => {
+    vad.reset();
+    preRoll = [];
+    segment = null;
+    segmentSamples = 0;
+    tooLong = false;
+  };
+
+  return { process, reset };
+};
+
+/**
+ * Listens for the phrase recorded in `templates`. Triggers once the phrase
+ * is followed by a short pause, so "হেই বন্ধু" run straight into a question
+ * is not recognized.
+ */
+export const createWakeWordDetector = (
+  templates: WakeWordTemplate[],
+  { sensitivity = 0.5 }: { sensitivity?: number } = {},
+): WakeWordDetector => {
+  const segmenter = createUtteranceSegmenter();
+  const threshold = matchThreshold(templates, sensitivity);
+
+  const matches = (utterance: Int16Array) => {
+    const features = extractFeatures(utterance);
+    return templates.some(template =>
+      lengthsComparable(features, template.features) && dtwDistance(features, template.features) <= threshold);
+  };
+
+  return {
+    process: (pcm) => segmenter.process(pcm).some(matches),
+    reset: segmenter.reset,
+  };
+};
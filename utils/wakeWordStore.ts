@@ -0,0 +1,45 @@
+import { WakeWordTemplate } from './wakeWord';
+
+const STORAGE_KEY = 'bondhu-wake-word';
+
+// Features are stored to two decimals; finer detail is below the match threshold
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Keeps well-formed templates only, so a stale or hand-edited entry can't break listening
+const normalizeTemplates = (value: unknown): WakeWordTemplate[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item): WakeWordTemplate[] => {
+    const features = item?.features;
+    if (!Array.isArray(features) || features.length === 0) return [];
+    if (!features.every((frame: unknown) => Array.isArray(frame) && frame.length === features[0].length && frame.every(Number.isFinite))) return [];
+    return [{
+      id: String(item.id ?? ''),
+      createdAt: Number(item.createdAt) || 0,
+      features,
+    }];
+  });
+};
+
+/** The user's recordings of their wake phrase, as features only; the audio itself is never kept. */
+export const loadWakeWordTemplates = (): WakeWordTemplate[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? normalizeTemplates(JSON.parse(raw)) : [];
+  } catch (err) {
+    console.warn('Ignoring unreadable wake word store', err);
+    return [];
+  }
+};
+
+export const saveWakeWordTemplates = (templates: WakeWordTemplate[]) => {
+  try {
+    if (templates.length === 0) {
+      localStorage.removeItem(STORAGE_KEY);
+      return;
+    }
+    const compact = templates.map(template => ({ ...template, features: template.features.map(frame => frame.map(round)) }));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(compact));
+  } catch (err) {
+    console.warn('Could not save the wake word', err);
+  }
+};
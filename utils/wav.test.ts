@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWav } from './wav';
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+describe('encodeWav', () => {
+  it('writes a 16-bit PCM RIFF header', () => {
+    const wav = encodeWav([new Float32Array(100), new Float32Array(100)], 24000);
+    const view = new DataView(wav.buffer);
+
+    expect(wav.byteLength).toBe(44 + 100 * 4);
+    expect(ascii(wav, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + 400);
+    expect(ascii(wav, 8, 8)).toBe('WAVEfmt ');
+    expect(view.getUint32(16, true)).toBe(16);
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(24000);
+    expect(view.getUint32(28, true)).toBe(24000 * 4);
+    expect(view.getUint16(32, true)).toBe(4);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(ascii(wav, 36, 4)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(400);
+  });
+
+  it('interleaves stereo frames, clamping and padding the shorter channel with silence', () => {
+    const left = Float32Array.from([0.5, -0.5, 2]);
+    const right = Float32Array.from([-1, 1]);
+    const wav = encodeWav([left, right], 16000);
+    const samples = new Int16Array(wav.buffer.slice(44));
+
+    expect(Array.from(samples)).toEqual([
+      Math.trunc(0.5 * 0x7FFF), -0x8000,
+      -0x4000, 0x7FFF,
+      0x7FFF, 0,
+    ]);
+  });
+
+  it('needs at least one channel', () => {
+    expect(() => encodeWav([], 16000)).toThrow();
+  });
+});
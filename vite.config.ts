@@ -1,18 +1,25 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { serviceWorker } from './pwa/vitePlugin';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Only the dev server gets the real key; builds fetch ephemeral tokens from server/
+    const devApiKey = command === 'serve' ? env.GEMINI_API_KEY : undefined;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Without a key in .env.local, dev uses the token server (npm run server)
+        proxy: {
+          '/api': `http://localhost:${env.PORT || 8787}`,
+        },
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(devApiKey ?? ''),
+        'process.env.GEMINI_API_KEY': JSON.stringify(devApiKey ?? '')
       },
       resolve: {
         alias: {
@@ -0,0 +1,20 @@
+import { defineConfig } from 'vite';
+
+// The <bondhu-assistant> element as one ES module, for embedding in other pages.
+// Like the app's production build it holds no key: sessions get tokens from server/.
+export default defineConfig({
+  define: {
+    'process.env.API_KEY': JSON.stringify(''),
+  },
+  // The app's icons and manifest belong to the app
+  publicDir: false,
+  build: {
+    outDir: 'dist/widget',
+    emptyOutDir: true,
+    lib: {
+      entry: 'widget/index.ts',
+      formats: ['es'],
+      fileName: () => 'bondhu-assistant.js',
+    },
+  },
+});
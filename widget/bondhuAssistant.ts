@@ -0,0 +1,257 @@
+import { BondhuSession, BondhuSessionState } from '../utils/bondhuSession';
+import { BUILTIN_PRESETS, DEFAULT_SESSION_CONFIG, VOICES } from '../utils/persona';
+import { TOKEN_ENDPOINT, defaultCredentials, tokenProxyCredentials } from '../utils/credentials';
+import { MicrophoneError } from '../utils/microphone';
+import { LiveSessionError } from '../utils/sessionErrors';
+import { createTranslator, Translator } from '../i18n/translator';
+import { LiveSessionConfig, TextMessage } from '../types';
+
+export const ELEMENT_NAME = 'bondhu-assistant';
+
+export type WidgetTheme = 'dark' | 'light';
+
+/** Events the element dispatches; they bubble and cross shadow roots. */
+export interface BondhuAssistantEventMap {
+  'bondhu-message': CustomEvent<TextMessage>;
+  'bondhu-state': CustomEvent<BondhuSessionState>;
+  'bondhu-error': CustomEvent<Error>;
+}
+
+const STYLES = `
+:host {
+  --bondhu-bg: #0f172a;
+  --bondhu-text: #f1f5f9;
+  --bondhu-muted: #94a3b8;
+  --bondhu-accent: #10b981;
+  --bondhu-stop: #ef4444;
+  --bondhu-error: #fca5a5;
+  display: inline-block;
+  font-family: 'Noto Sans Bengali', system-ui, sans-serif;
+  color: var(--bondhu-text);
+}
+:host([theme='light']) {
+  --bondhu-bg: #ffffff;
+  --bondhu-text: #0f172a;
+  --bondhu-muted: #475569;
+  --bondhu-accent: #047857;
+  --bondhu-stop: #b91c1c;
+  --bondhu-error: #b91c1c;
+}
+.panel {
+  display: flex;
+  flex-direction: column;
+  gap: 0.75rem;
+  width: 20rem;
+  max-width: 100%;
+  box-sizing: border-box;
+  padding: 1rem;
+  border-radius: 1rem;
+  background: var(--bondhu-bg);
+  box-shadow: 0 10px 30px rgb(0 0 0 / 0.25);
+}
+.caption { margin: 0; min-height: 3em; font-size: 1.125rem; line-height: 1.5; }
+.speaker { display: block; font-size: 0.75rem; color: var(--bondhu-muted); }
+.controls { display: flex; align-items: center; gap: 0.75rem; }
+.talk {
+  flex: none;
+  width: 3.5rem;
+  height: 3.5rem;
+  border: none;
+  border-radius: 50%;
+  color: #fff;
+  background: var(--bondhu-accent);
+  cursor: pointer;
+  /* --level follows the microphone and Bondhu's voice */
+  box-shadow: 0 0 0 calc(var(--level, 0) * 10px) color-mix(in srgb, var(--bondhu-accent) 35%, transparent);
+  transition: box-shadow 80ms linear;
+}
+.talk[aria-pressed='true'] { background: var(--bondhu-stop); }
+.talk:disabled { opacity: 0.6; cursor: wait; }
+.talk:focus-visible { outline: 3px solid var(--bondhu-text); outline-offset: 3px; }
+.talk svg { width: 1.5rem; height: 1.5rem; }
+.status { font-size: 0.875rem; color: var(--bondhu-muted); }
+.status.error { color: var(--bondhu-error); }
+@media (prefers-reduced-motion: reduce) { .talk { transition: none; box-shadow: none; } }
+`;
+
+const MIC_ICON = '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true"><path d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z"/></svg>';
+const STOP_ICON = '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" aria-hidden="true"><path d="M6 18L18 6M6 6l12 12"/></svg>';
+
+const describeError = (err: Error, t: Translator['t']) =>
+  err instanceof LiveSessionError
+    ? t(`error.${err.kind}`, { reason: err.detail ?? '' })
+    : err instanceof MicrophoneError
+      ? t(`mic.${err.kind}.title`)
+      : t('error.generic', { reason: err.message });
+
+/**
+ * `<bondhu-assistant>`: a talk button with live captions, for pages outside
+ * the Bondhu app.
+ *
+ * Attributes: `persona` (a built-in preset id), `voice`, `theme` ('dark' or
+ * 'light'), `lang` ('bn' or 'en', for the widget's own labels) and `server`
+ * (where the Bondhu server runs; defaults to this page's origin).
+ */
+export class BondhuAssistantElement extends HTMLElement {
+  static observedAttributes = ['persona', 'voice', 'theme', 'lang', 'server'];
+
+  /** The conversation behind the widget, for its typed events and finer control. */
+  readonly session: BondhuSession;
+  private overrides: Partial<LiveSessionConfig> = {};
+  private translator = createTranslator('bn');
+  private lastTurn: TextMessage | null = null;
+  private error: Error | null = null;
+  private readonly button: HTMLButtonElement;
+  private readonly caption: HTMLParagraphElement;
+  private readonly status: HTMLSpanElement;
+  private readonly unsubscribe: (() => void)[] = [];
+
+  constructor() {
+    super();
+    // Asked for each connection, so a changed `server` attribute applies to the next one
+    this.session = new BondhuSession({
+      config: this.buildConfig(),
+      credentials: () => {
+        const server = this.getAttribute('server');
+        return (server ? tokenProxyCredentials(new URL(TOKEN_ENDPOINT, server).href) : defaultCredentials())();
+      },
+    });
+
+    const root = this.attachShadow({ mode: 'open' });
+    root.innerHTML = `
+      <style>${STYLES}</style>
+      <div class="panel" part="panel">
+        <p class="caption" part="caption"></p>
+        <div class="controls">
+          <button class="talk" part="button" type="button" aria-pressed="false"></button>
+          <span class="status" part="status" role="status"></span>
+        </div>
+      </div>`;
+    this.button = root.querySelector('.talk')!;
+    this.caption = root.querySelector('.caption')!;
+    this.status = root.querySelector('.status')!;
+    this.button.addEventListener('click', () => {
+      const { connection } = this.session.state;
+      if (connection === 'open' || connection === 'reconnecting') this.stop();
+      else this.start();
+    });
+  }
+
+  connectedCallback() {
+    this.unsubscribe.push(
+      this.session.on('state', state => {
+        if (state.connection === 'connecting') this.error = null;
+        this.render();
+        this.dispatch('bondhu-state', state);
+      }),
+      this.session.on('message', message => {
+        this.lastTurn = message;
+        this.render();
+        this.dispatch('bondhu-message', message);
+      }),
+      this.session.on('error', error => {
+        this.error = error;
+        this.render();
+        this.dispatch('bondhu-error', error);
+      }),
+      this.session.on('level', ({ input, output }) => {
+        this.button.style.setProperty('--level', String(Math.max(input, output)));
+      }),
+    );
+    this.render();
+  }
+
+  disconnectedCallback() {
+    this.unsubscribe.splice(0).forEach(off => off());
+    // Removed from the page: nobody can see or stop the conversation any more
+    this.session.disconnect();
+  }
+
+  attributeChangedCallback(name: string) {
+    if (name === 'lang') {
+      this.translator = createTranslator(this.getAttribute('lang') === 'en' ? 'en' : 'bn');
+      this.render();
+    } else if (name === 'persona' || name === 'voice') {
+      this.session.configure({ config: this.buildConfig() });
+    }
+  }
+
+  /** Starts a conversation, asking for the microphone if needed. */
+  start() {
+    return this.session.connect();
+  }
+
+  stop() {
+    this.session.disconnect();
+  }
+
+  /** Sends a typed message into the conversation; false if none is open. */
+  send(text: string) {
+    return this.session.sendText(text);
+  }
+
+  /**
+   * Changes session settings, e.g. `{ responseLanguage: 'banglish' }`.
+   * Like the Bondhu app's settings, most apply from the next conversation.
+   */
+  configure(settings: Partial<LiveSessionConfig>) {
+    this.overrides = { ...this.overrides, ...settings };
+    this.session.configure({ config: this.buildConfig() });
+  }
+
+  private buildConfig(): LiveSessionConfig {
+    const persona = this.getAttribute('persona');
+    const voice = this.getAttribute('voice');
+    return {
+      ...DEFAULT_SESSION_CONFIG,
+      ...(persona && BUILTIN_PRESETS.some(preset => preset.id === persona) ? { presetId: persona } : {}),
+      ...(voice && VOICES.includes(voice) ? { voiceName: voice } : {}),
+      ...this.overrides,
+    };
+  }
+
+  private dispatch<K extends keyof BondhuAssistantEventMap>(type: K, detail: BondhuAssistantEventMap[K]['detail']) {
+    this.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+  }
+
+  private render() {
+    const { t } = this.translator;
+    const { connection, playback } = this.session.state;
+    const live = connection === 'open' || connection === 'reconnecting';
+
+    this.button.innerHTML = live ? STOP_ICON : MIC_ICON;
+    this.button.disabled = connection === 'connecting';
+    this.button.setAttribute('aria-pressed', String(live));
+    this.button.setAttribute('aria-label', live ? t('conversation.stop') : t('conversation.start'));
+
+    this.status.classList.toggle('error', this.error !== null);
+    this.status.textContent = this.error
+      ? describeError(this.error, t)
+      : connection === 'connecting'
+        ? t('status.connecting')
+        : connection === 'reconnecting'
+          ? t('status.reconnecting')
+          : connection !== 'open'
+            ? t('widget.idle')
+            : playback === 'speaking'
+              ? t('status.speaking')
+              : playback === 'thinking'
+                ? t('status.thinking')
+                : t('status.listening');
+
+    const turn = this.lastTurn;
+    this.caption.replaceChildren();
+    if (turn) {
+      const speaker = document.createElement('span');
+      speaker.className = 'speaker';
+      speaker.textContent = turn.role === 'user' ? t('captions.you') : t('captions.bondhu');
+      this.caption.append(speaker, turn.text);
+    }
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'bondhu-assistant': BondhuAssistantElement;
+  }
+}
@@ -0,0 +1,12 @@
+import { BondhuAssistantElement, ELEMENT_NAME } from './bondhuAssistant';
+
+// Entry point of the widget build (vite.widget.config.ts). Importing it defines <bondhu-assistant>.
+if (!customElements.get(ELEMENT_NAME)) customElements.define(ELEMENT_NAME, BondhuAssistantElement);
+
+export { BondhuAssistantElement, ELEMENT_NAME } from './bondhuAssistant';
+export type { BondhuAssistantEventMap, WidgetTheme } from './bondhuAssistant';
+export { BondhuSession } from '../utils/bondhuSession';
+export type { AudioLevels, BondhuSessionEvents, BondhuSessionOptions, BondhuSessionSettings, BondhuSessionState } from '../utils/bondhuSession';
+export { DEFAULT_SESSION_CONFIG } from '../utils/persona';
+export { tokenProxyCredentials } from '../utils/credentials';
+export type { LiveSessionConfig, TextMessage, ToolCallMessage } from '../types';
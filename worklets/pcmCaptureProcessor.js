@@ -0,0 +1,114 @@
+// AudioWorklet processor that turns microphone input into 16-bit PCM chunks.
+//
+// Runs on the audio rendering thread, so React re-renders on the main thread
+// can no longer starve capture the way ScriptProcessorNode did. The device
+// rate (the `sampleRate` global) is resampled to `targetSampleRate` and
+// samples are batched into `chunkSize`-sample Int16Arrays that are posted
+// (transferred) to the main thread.
+//
+// Loaded with `audioWorklet.addModule`, so this file must stay self-contained:
+// the resampler and its anti-alias low-pass mirror `StreamingResampler` in
+// utils/audioUtils.ts.
+
+// Cutoff as a fraction of the target rate, and the Q of each section of a
+// fourth-order Butterworth low-pass
+const ANTI_ALIAS_CUTOFF = 0.45;
+const BUTTERWORTH_Q = [0.5412, 1.3066];
+
+// A second-order low-pass section (RBJ cookbook) whose state carries across blocks
+class LowPassBiquad {
+  constructor(cutoff, rate, q) {
+    const w0 = (2 * Math.PI * cutoff) / rate;
+    const alpha = Math.sin(w0) / (2 * q);
+    const a0 = 1 + alpha;
+    this.b0 = (1 - Math.cos(w0)) / 2 / a0;
+    this.b1 = (1 - Math.cos(w0)) / a0;
+    this.a1 = (-2 * Math.cos(w0)) / a0;
+    this.a2 = (1 - alpha) / a0;
+    this.x1 = this.x2 = this.y1 = this.y2 = 0;
+  }
+
+  process(x) {
+    // b2 equals b0 for a low-pass
+    const y = this.b0 * (x + this.x2) + this.b1 * this.x1 - this.a1 * this.y1 - this.a2 * this.y2;
+    this.x2 = this.x1;
+    this.x1 = x;
+    this.y2 = this.y1;
+    this.y1 = y;
+    return y;
+  }
+}
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate = 16000, chunkSize = 4096 } = options.processorOptions || {};
+    this.ratio = sampleRate / targetSampleRate;
+    this.position = 0;
+    this.lastSample = 0;
+    // Only downsampling needs it: above the target's Nyquist frequency, input would alias into speech
+    this.antiAlias = sampleRate > targetSampleRate
+      ? BUTTERWORTH_Q.map((q) => new LowPassBiquad(targetSampleRate * ANTI_ALIAS_CUTOFF, sampleRate, q))
+      : [];
+    this.filtered = new Float32Array(128);
+    this.chunkSize = chunkSize;
+    this.chunk = new Int16Array(chunkSize);
+    this.offset = 0;
+
+    this.port.onmessage = (event) => {
+      if (event.data === 'flush') this.flush();
+    };
+  }
+
+  write(sample) {
+    const s = Math.max(-1, Math.min(1, sample));
+    this.chunk[this.offset++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    if (this.offset === this.chunkSize) {
+      this.port.postMessage(this.chunk, [this.chunk.buffer]);
+      this.chunk = new Int16Array(this.chunkSize);
+      this.offset = 0;
+    }
+  }
+
+  // Always posts, possibly an empty chunk, so the main thread knows the flush completed
+  flush() {
+    const partial = this.chunk.slice(0, this.offset);
+    this.port.postMessage(partial, [partial.buffer]);
+    this.offset = 0;
+  }
+
+  process(inputs) {
+    let input = inputs[0] && inputs[0][0];
+    if (!input || input.length === 0) return true;
+
+    if (this.ratio === 1) {
+      for (let i = 0; i < input.length; i++) this.write(input[i]);
+      return true;
+    }
+
+    if (this.antiAlias.length > 0) {
+      if (this.filtered.length !== input.length) this.filtered = new Float32Array(input.length);
+      for (let i = 0; i < input.length; i++) {
+        let x = input[i];
+        for (const section of this.antiAlias) x = section.process(x);
+        this.filtered[i] = x;
+      }
+      input = this.filtered;
+    }
+
+    // position is relative to input[0]; -1 refers to the carried-over sample
+    while (this.position < input.length - 1) {
+      const index = Math.floor(this.position);
+      const frac = this.position - index;
+      const a = index < 0 ? this.lastSample : input[index];
+      const b = input[index + 1];
+      this.write(a + (b - a) * frac);
+      this.position += this.ratio;
+    }
+    this.position -= input.length;
+    this.lastSample = input[input.length - 1];
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture-processor', PcmCaptureProcessor);